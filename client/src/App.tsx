@@ -7,6 +7,13 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import AuthPage from "@/pages/auth";
 import Dashboard from "@/pages/dashboard";
+import LibraryPage from "@/pages/library";
+import SummaryPage from "@/pages/summary";
+import ActionItemsPage from "@/pages/action-items";
+import AskPage from "@/pages/ask";
+import WorkspacesPage from "@/pages/workspaces";
+import InvitePage from "@/pages/invite";
+import SharedSummaryPage from "@/pages/shared";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -14,6 +21,13 @@ function Router() {
     <Switch>
       <Route path="/auth" component={AuthPage} />
       <Route path="/" component={Dashboard} />
+      <Route path="/summaries" component={LibraryPage} />
+      <Route path="/summaries/:id" component={SummaryPage} />
+      <Route path="/action-items" component={ActionItemsPage} />
+      <Route path="/ask" component={AskPage} />
+      <Route path="/workspaces" component={WorkspacesPage} />
+      <Route path="/invites/:token" component={InvitePage} />
+      <Route path="/shared/:token" component={SharedSummaryPage} />
       <Route component={NotFound} />
     </Switch>
   );
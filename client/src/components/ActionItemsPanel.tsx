@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { AlertTriangle, CheckSquare, HelpCircle, Gavel, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+interface ActionItem {
+  id: string;
+  summaryId: string;
+  description: string;
+  owner: string | null;
+  dueDate: string | null;
+  priority: "low" | "medium" | "high";
+  status: "open" | "done";
+  transcriptLine: number | null;
+}
+
+interface SummaryInsights {
+  actionItems: ActionItem[];
+  decisions: { id: string; description: string }[];
+  openQuestions: { id: string; question: string }[];
+  risks: { id: string; description: string; mitigation: string | null }[];
+}
+
+interface ActionItemsPanelProps {
+  summaryId: string;
+  readOnly?: boolean; // workspace viewers
+}
+
+const priorityStyles = {
+  low: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  medium: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+  high: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+};
+
+export default function ActionItemsPanel({ summaryId, readOnly = false }: ActionItemsPanelProps) {
+  const [newItem, setNewItem] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const insightsKey = ["summaries", summaryId, "insights"];
+
+  const { data: insights, isLoading } = useQuery<SummaryInsights>({
+    queryKey: insightsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/insights`);
+      return response.json();
+    },
+    enabled: !!summaryId,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Failed to update action items",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const createItemMutation = useMutation({
+    mutationFn: async (description: string) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/action-items`, {
+        description,
+        position: insights?.actionItems.length ?? 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewItem("");
+      queryClient.invalidateQueries({ queryKey: insightsKey });
+    },
+    onError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<ActionItem> & { id: string }) => {
+      const response = await apiRequest("PATCH", `/api/action-items/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: insightsKey });
+    },
+    onError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/action-items/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: insightsKey });
+    },
+    onError,
+  });
+
+  const extractMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/insights/extract`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(insightsKey, data);
+      toast({
+        title: "Insights refreshed",
+        description: "Action items, decisions and risks were extracted again",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Extraction failed",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newItem.trim()) {
+      createItemMutation.mutate(newItem.trim());
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-8 animate-pulse">
+        <div className="h-64 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+      </div>
+    );
+  }
+
+  const actionItems = insights?.actionItems ?? [];
+  const openCount = actionItems.filter(item => item.status === "open").length;
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <CheckSquare className="text-primary-600 mr-3 h-5 w-5" />
+            Action Items
+            <Badge variant="outline" className="ml-2 text-xs">
+              {openCount} open
+            </Badge>
+          </h3>
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => extractMutation.mutate()}
+              disabled={extractMutation.isPending}
+              title="Extract again from the transcript"
+            >
+              <RefreshCw className={`h-4 w-4 ${extractMutation.isPending ? "animate-spin" : ""}`} />
+            </Button>
+          )}
+        </div>
+
+        {/* Checklist */}
+        <div className="space-y-3 mb-4">
+          {actionItems.map((item) => (
+            <div key={item.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+              <div className="flex items-start space-x-3">
+                <Checkbox
+                  className="mt-1"
+                  checked={item.status === "done"}
+                  disabled={readOnly}
+                  onCheckedChange={(checked) =>
+                    updateItemMutation.mutate({ id: item.id, status: checked ? "done" : "open" })
+                  }
+                />
+                <Input
+                  defaultValue={item.description}
+                  readOnly={readOnly}
+                  onBlur={(e) => {
+                    const description = e.target.value.trim();
+                    if (description && description !== item.description) {
+                      updateItemMutation.mutate({ id: item.id, description });
+                    }
+                  }}
+                  className={`flex-1 h-auto border-0 p-0 shadow-none focus-visible:ring-0 bg-transparent ${
+                    item.status === "done" ? "line-through text-gray-400" : "text-gray-900 dark:text-white"
+                  }`}
+                />
+                {item.transcriptLine && (
+                  <a
+                    href={`#line-${item.transcriptLine}`}
+                    className="text-xs text-primary-600 hover:underline whitespace-nowrap mt-1"
+                    title="Show in transcript"
+                  >
+                    L{item.transcriptLine}
+                  </a>
+                )}
+                {!readOnly && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteItemMutation.mutate(item.id)}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 p-1 h-auto"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="mt-2 ml-7 grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="Owner"
+                  defaultValue={item.owner ?? ""}
+                  readOnly={readOnly}
+                  onBlur={(e) => {
+                    const owner = e.target.value.trim() || null;
+                    if (owner !== item.owner) {
+                      updateItemMutation.mutate({ id: item.id, owner });
+                    }
+                  }}
+                  className="h-8 text-xs bg-white dark:bg-gray-700"
+                />
+                <Input
+                  type="date"
+                  value={item.dueDate ?? ""}
+                  readOnly={readOnly}
+                  onChange={(e) => updateItemMutation.mutate({ id: item.id, dueDate: e.target.value || null })}
+                  className="h-8 text-xs bg-white dark:bg-gray-700"
+                />
+                <Select
+                  value={item.priority}
+                  disabled={readOnly}
+                  onValueChange={(priority: ActionItem["priority"]) => updateItemMutation.mutate({ id: item.id, priority })}
+                >
+                  <SelectTrigger className={`h-8 text-xs border-0 ${priorityStyles[item.priority]}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+
+          {actionItems.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+              No action items were found in this meeting
+            </p>
+          )}
+        </div>
+
+        {/* Add Item */}
+        {!readOnly && (
+          <form onSubmit={handleAddItem} className="flex space-x-2 mb-6">
+            <Input
+              placeholder="Add an action item"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              className="flex-1 bg-white dark:bg-gray-700"
+            />
+            <Button
+              type="submit"
+              className="bg-primary-600 hover:bg-primary-700 text-white"
+              disabled={!newItem.trim() || createItemMutation.isPending}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+
+        {/* Decisions, Questions & Risks */}
+        {insights && insights.decisions.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+              <Gavel className="mr-2 h-4 w-4 text-green-600" />
+              Decisions
+            </h4>
+            <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              {insights.decisions.map((decision) => (
+                <li key={decision.id}>• {decision.description}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {insights && insights.openQuestions.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+              <HelpCircle className="mr-2 h-4 w-4 text-blue-600" />
+              Open Questions
+            </h4>
+            <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              {insights.openQuestions.map((question) => (
+                <li key={question.id}>• {question.question}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {insights && insights.risks.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4 text-orange-500" />
+              Risks
+            </h4>
+            <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+              {insights.risks.map((risk) => (
+                <li key={risk.id}>
+                  • {risk.description}
+                  {risk.mitigation && (
+                    <span className="block ml-3 text-xs text-gray-500 dark:text-gray-400">
+                      Mitigation: {risk.mitigation}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
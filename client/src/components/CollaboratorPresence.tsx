@@ -0,0 +1,52 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Collaborator } from "@shared/collaboration";
+import type { CollaborationStatus } from "@/hooks/useCollaboration";
+
+interface CollaboratorPresenceProps {
+  status: CollaborationStatus;
+  collaborators: Collaborator[];
+}
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+// Avatars of the other people editing this summary right now
+export default function CollaboratorPresence({ status, collaborators }: CollaboratorPresenceProps) {
+  if (status === "offline") {
+    return (
+      <span className="text-xs text-amber-600 dark:text-amber-400" title="Live editing is reconnecting">
+        Offline
+      </span>
+    );
+  }
+  if (collaborators.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex -space-x-2">
+      {collaborators.map((collaborator) => (
+        <Tooltip key={collaborator.clientId}>
+          <TooltipTrigger asChild>
+            <Avatar
+              className="h-7 w-7 border-2 border-white dark:border-gray-800"
+              style={{ boxShadow: `0 0 0 2px ${collaborator.color}` }}
+            >
+              <AvatarFallback className="text-xs text-white" style={{ backgroundColor: collaborator.color }}>
+                {initials(collaborator.name)}
+              </AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{collaborator.name} is editing</TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
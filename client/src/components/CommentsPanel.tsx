@@ -0,0 +1,370 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { TextRange } from "@/components/SummaryEditor";
+import { Check, CheckCircle, MessageSquareText, PenLine, RotateCcw, Trash2, X } from "lucide-react";
+
+interface Comment {
+  id: string;
+  authorId: string | null;
+  authorName: string | null;
+  parentId: string | null;
+  body: string;
+  anchorStart: number | null;
+  anchorEnd: number | null;
+  quote: string | null;
+  suggestion: string | null;
+  suggestionStatus: "pending" | "accepted" | "rejected" | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface Thread extends Comment {
+  replies: Comment[];
+}
+
+interface CommentsPanelProps {
+  summaryId: string;
+  role?: "owner" | "editor" | "viewer";
+  // The passage currently selected in the editor
+  selection: (TextRange & { text: string }) | null;
+  onFocusRange: (range: TextRange) => void;
+}
+
+const suggestionLabels: Record<string, string> = {
+  pending: "Suggested edit",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+// Reads "#comment-<id>" anchors used by mention emails
+function getHashComment(): string | null {
+  const match = window.location.hash.match(/^#comment-(.+)$/);
+  return match ? match[1] : null;
+}
+
+export default function CommentsPanel({ summaryId, role, selection, onFocusRange }: CommentsPanelProps) {
+  const [body, setBody] = useState("");
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestion, setSuggestion] = useState("");
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const commentsKey = ["summaries", summaryId, "comments"];
+  const canEdit = role === "owner" || role === "editor";
+
+  const { data: threads = [] } = useQuery<Thread[]>({
+    queryKey: commentsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/comments`);
+      return response.json();
+    },
+    enabled: !!summaryId,
+  });
+
+  // Anchors move with every edit, so follow the summary's revisions
+  const { data: summary } = useQuery<{ revision: number }>({
+    queryKey: ["summaries", summaryId],
+    enabled: false,
+  });
+  useEffect(() => {
+    if (summary) queryClient.invalidateQueries({ queryKey: commentsKey });
+  }, [summary?.revision]);
+
+  // Scroll to the thread a mention email linked to
+  useEffect(() => {
+    const id = getHashComment();
+    if (id && threads.length > 0) {
+      document.getElementById(`comment-${id}`)?.scrollIntoView({ block: "center" });
+    }
+  }, [threads.length > 0]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: commentsKey });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/comments`, {
+        body: body.trim(),
+        anchor: selection ? { start: selection.start, quote: selection.text } : undefined,
+        suggestion: suggesting ? suggestion : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      setSuggestion("");
+      setSuggesting(false);
+      refresh();
+    },
+    onError: onError("Failed to add comment"),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (parentId: string) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/comments`, {
+        body: replies[parentId]?.trim(),
+        parentId,
+      });
+      return response.json();
+    },
+    onSuccess: (_: unknown, parentId: string) => {
+      setReplies((current) => ({ ...current, [parentId]: "" }));
+      refresh();
+    },
+    onError: onError("Failed to reply"),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolved }: { id: string; resolved: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/summaries/${summaryId}/comments/${id}`, { resolved });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update thread"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/summaries/${summaryId}/comments/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete comment"),
+  });
+
+  // Accepting changes the summary text, so the editor reloads it as well
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "accept" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/comments/${id}/${decision}`);
+      return response.json();
+    },
+    onSuccess: (_: unknown, { decision }) => {
+      if (decision === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["summaries", summaryId] });
+      } else {
+        refresh();
+      }
+    },
+    onError: onError("Failed to apply suggestion"),
+  });
+
+  const openThreads = threads.filter((thread) => !thread.resolvedAt);
+  const visibleThreads = showResolved ? threads : openThreads;
+  const canPost = body.trim() || (suggesting && selection);
+
+  const renderComment = (comment: Comment) => (
+    <div key={comment.id} className="text-sm group">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900 dark:text-white">{comment.authorName || "Former member"}</span>
+        <div className="flex items-center">
+          <span className="text-xs text-gray-400">{new Date(comment.createdAt).toLocaleString()}</span>
+          {(comment.authorId === user?.id || canEdit) && (
+            <button
+              className="ml-2 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+              onClick={() => deleteMutation.mutate(comment.id)}
+              title="Delete comment"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      </div>
+      {comment.body && (
+        <p className="mt-1 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{comment.body}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <MessageSquareText className="text-primary-600 mr-2 h-5 w-5" />
+            Comments
+            {openThreads.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{openThreads.length}</Badge>
+            )}
+          </h3>
+          <label className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} className="mr-2 scale-75" />
+            Show resolved
+          </label>
+        </div>
+
+        {/* New comment on the selected passage */}
+        <div className="mb-6">
+          {selection ? (
+            <blockquote className="mb-2 pl-3 border-l-2 border-primary-400 text-xs text-gray-600 dark:text-gray-400 line-clamp-3">
+              {selection.text}
+            </blockquote>
+          ) : (
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              Select text in the summary to comment on a passage or suggest an edit.
+            </p>
+          )}
+          <Textarea
+            placeholder="Add a comment... Mention people with @Name"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="min-h-16 text-sm bg-white dark:bg-gray-700 mb-2"
+          />
+          {suggesting && (
+            <Textarea
+              placeholder="Replace the selected passage with..."
+              value={suggestion}
+              onChange={(e) => setSuggestion(e.target.value)}
+              className="min-h-16 text-sm bg-white dark:bg-gray-700 mb-2"
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !canPost}
+            >
+              {suggesting ? "Suggest" : "Comment"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setSuggesting(!suggesting);
+                if (!suggesting && selection) setSuggestion(selection.text);
+              }}
+              disabled={!selection && !suggesting}
+            >
+              <PenLine className="mr-2 h-4 w-4" />
+              {suggesting ? "Cancel edit" : "Suggest edit"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Threads */}
+        {visibleThreads.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No open comments.</p>
+        ) : (
+          <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+            {visibleThreads.map((thread) => {
+              const detached = thread.quote !== null && thread.anchorStart === null;
+              return (
+                <div
+                  key={thread.id}
+                  id={`comment-${thread.id}`}
+                  className={`rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-3 ${thread.resolvedAt ? "opacity-60" : ""}`}
+                >
+                  {thread.quote && (
+                    detached ? (
+                      <p className="text-xs text-gray-400 italic">The passage this comment was on was removed.</p>
+                    ) : (
+                      <button
+                        className="block w-full text-left pl-3 border-l-2 border-primary-400 text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white line-clamp-3"
+                        onClick={() => onFocusRange({ start: thread.anchorStart!, end: thread.anchorEnd! })}
+                        title="Show in summary"
+                      >
+                        {thread.quote}
+                      </button>
+                    )
+                  )}
+
+                  {renderComment(thread)}
+
+                  {thread.suggestion !== null && (
+                    <div className="rounded bg-gray-50 dark:bg-gray-900 p-2 text-sm">
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        {suggestionLabels[thread.suggestionStatus || "pending"]}
+                      </div>
+                      {thread.suggestion ? (
+                        <p className="text-green-700 dark:text-green-400 whitespace-pre-wrap">{thread.suggestion}</p>
+                      ) : (
+                        <p className="text-red-600 dark:text-red-400 italic">Delete this passage</p>
+                      )}
+                      {canEdit && thread.suggestionStatus === "pending" && (
+                        <div className="flex gap-2 mt-2">
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700 text-white"
+                            onClick={() => decideMutation.mutate({ id: thread.id, decision: "accept" })}
+                            disabled={decideMutation.isPending || detached}
+                          >
+                            <Check className="mr-1 h-4 w-4" />
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => decideMutation.mutate({ id: thread.id, decision: "reject" })}
+                            disabled={decideMutation.isPending}
+                          >
+                            <X className="mr-1 h-4 w-4" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {thread.replies.length > 0 && (
+                    <div className="pl-3 border-l border-gray-200 dark:border-gray-700 space-y-3">
+                      {thread.replies.map(renderComment)}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Textarea
+                      placeholder="Reply..."
+                      value={replies[thread.id] || ""}
+                      onChange={(e) => setReplies((current) => ({ ...current, [thread.id]: e.target.value }))}
+                      className="min-h-9 h-9 text-sm bg-white dark:bg-gray-700"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => replyMutation.mutate(thread.id)}
+                      disabled={replyMutation.isPending || !replies[thread.id]?.trim()}
+                    >
+                      Reply
+                    </Button>
+                  </div>
+
+                  {(thread.authorId === user?.id || canEdit) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs"
+                      onClick={() => resolveMutation.mutate({ id: thread.id, resolved: !thread.resolvedAt })}
+                      disabled={resolveMutation.isPending}
+                    >
+                      {thread.resolvedAt ? (
+                        <><RotateCcw className="mr-1 h-3 w-3" />Reopen</>
+                      ) : (
+                        <><CheckCircle className="mr-1 h-3 w-3" />Resolve</>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { isEmailAddress } from "@/lib/recipients";
+import { Pencil, Trash2, Users } from "lucide-react";
+
+export interface Contact {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ContactGroup {
+  id: string;
+  name: string;
+  members: Contact[];
+}
+
+interface ContactsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface GroupDraft {
+  id: string | null; // null for a new group
+  name: string;
+  contactIds: string[];
+}
+
+export const contactsKey = ["/api/contacts"];
+export const contactGroupsKey = ["/api/contact-groups"];
+
+export function useContactGroups() {
+  return useQuery<ContactGroup[]>({
+    queryKey: contactGroupsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/contact-groups");
+      return response.json();
+    },
+  });
+}
+
+export function contactLabel(contact: Contact) {
+  return contact.name ? `${contact.name} <${contact.email}>` : contact.email;
+}
+
+// The user's address book: contacts, and named groups of them that can be
+// added to an email's recipients in one step
+export default function ContactsDialog({ open, onOpenChange }: ContactsDialogProps) {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [draft, setDraft] = useState<GroupDraft | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: contactsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/contacts");
+      return response.json();
+    },
+    enabled: open,
+  });
+  const { data: groups = [] } = useContactGroups();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: contactsKey });
+    queryClient.invalidateQueries({ queryKey: contactGroupsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/contacts/suggestions"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Could not update your contacts",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const addContactMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/contacts", { name, email });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setName("");
+      setEmail("");
+    },
+    onError,
+  });
+
+  const deleteContactMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      await apiRequest("DELETE", `/api/contacts/${contactId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const saveGroupMutation = useMutation({
+    mutationFn: async (group: GroupDraft) => {
+      const body = { name: group.name, contactIds: group.contactIds };
+      const response = group.id
+        ? await apiRequest("PATCH", `/api/contact-groups/${group.id}`, body)
+        : await apiRequest("POST", "/api/contact-groups", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+    },
+    onError,
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (groupId: string) => {
+      await apiRequest("DELETE", `/api/contact-groups/${groupId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const toggleMember = (contactId: string, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      contactIds: checked ? [...draft.contactIds, contactId] : draft.contactIds.filter((id) => id !== contactId),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Contacts</DialogTitle>
+          <DialogDescription>Saved addresses and groups are suggested when you add recipients.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="contacts">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="contacts">Contacts ({contacts.length})</TabsTrigger>
+            <TabsTrigger value="groups">Groups ({groups.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="contacts" className="space-y-4">
+            <div className="flex gap-2">
+              <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} className="flex-1" />
+              <Input
+                type="email"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="flex-1"
+              />
+              <Button
+                onClick={() => addContactMutation.mutate()}
+                disabled={!isEmailAddress(email.trim()) || addContactMutation.isPending}
+              >
+                Add
+              </Button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {contacts.map((contact) => (
+                <div key={contact.id} className="flex items-center justify-between text-sm py-1">
+                  <span className="min-w-0 truncate">
+                    {contact.name && <span className="font-medium text-gray-900 dark:text-white mr-2">{contact.name}</span>}
+                    <span className="text-gray-500 dark:text-gray-400">{contact.email}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-red-500"
+                    title="Delete contact"
+                    onClick={() => deleteContactMutation.mutate(contact.id)}
+                    disabled={deleteContactMutation.isPending}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              {contacts.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No contacts saved yet.</p>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="groups" className="space-y-4">
+            {draft ? (
+              <div className="space-y-3">
+                <Input
+                  placeholder="Group name, e.g. Platform team"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                <div className="max-h-60 overflow-y-auto space-y-2 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                  {contacts.map((contact) => (
+                    <label key={contact.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={draft.contactIds.includes(contact.id)}
+                        onCheckedChange={(checked) => toggleMember(contact.id, checked as boolean)}
+                      />
+                      <span className="truncate">{contactLabel(contact)}</span>
+                    </label>
+                  ))}
+                  {contacts.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Add contacts first, or save an email's recipients as a group.</p>
+                  )}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => saveGroupMutation.mutate(draft)}
+                    disabled={!draft.name.trim() || saveGroupMutation.isPending}
+                  >
+                    {saveGroupMutation.isPending ? "Saving..." : "Save group"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setDraft({ id: null, name: "", contactIds: [] })}>
+                  <Users className="mr-2 h-4 w-4" />
+                  New group
+                </Button>
+                <div className="max-h-72 overflow-y-auto space-y-2">
+                  {groups.map((group) => (
+                    <div key={group.id} className="flex items-start justify-between text-sm py-1">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {group.name} <span className="font-normal text-gray-500">({group.members.length})</span>
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {group.members.map((member) => member.name || member.email).join(", ")}
+                        </p>
+                      </div>
+                      <div className="flex items-center shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Edit group"
+                          onClick={() => setDraft({ id: group.id, name: group.name, contactIds: group.members.map((member) => member.id) })}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-gray-400 hover:text-red-500"
+                          title="Delete group"
+                          onClick={() => deleteGroupMutation.mutate(group.id)}
+                          disabled={deleteGroupMutation.isPending}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {groups.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No groups yet.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
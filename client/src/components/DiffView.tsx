@@ -0,0 +1,88 @@
+import type { DiffLine } from "@shared/textDiff";
+
+interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  leftLabel: string;
+  rightLabel: string;
+  className?: string;
+}
+
+// Align a unified line diff into side-by-side rows, pairing each block of
+// removed lines with the added lines that replaced it
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+function DiffCell({ line, side }: { line: DiffLine | null; side: "left" | "right" }) {
+  if (!line) {
+    return <div className="bg-gray-100 dark:bg-gray-900/40" />;
+  }
+
+  const style = line.type === "removed"
+    ? "bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200"
+    : line.type === "added"
+      ? "bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200"
+      : "text-gray-700 dark:text-gray-300";
+
+  return (
+    <div className={`flex px-2 ${style}`}>
+      <span className="w-8 shrink-0 text-right pr-2 text-gray-400 select-none">
+        {side === "left" ? line.oldLine : line.newLine}
+      </span>
+      <span className="whitespace-pre-wrap break-words min-w-0">{line.text || " "}</span>
+    </div>
+  );
+}
+
+export default function DiffView({ lines, leftLabel, rightLabel, className = "max-h-[52vh]" }: DiffViewProps) {
+  const changed = lines.some((line) => line.type !== "equal");
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <span>{leftLabel}</span>
+        <span className="pl-2">{rightLabel}</span>
+      </div>
+      <div className={`overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 font-mono text-xs ${className}`}>
+        {!changed && (
+          <p className="p-4 text-center text-gray-500 dark:text-gray-400 font-sans">No differences</p>
+        )}
+        {toRows(lines).map((row, index) => (
+          <div key={index} className="grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-600">
+            <DiffCell line={row.left} side="left" />
+            <DiffCell line={row.right} side="right" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
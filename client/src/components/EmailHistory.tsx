@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { browserTimeZone } from "@/components/SendTimePicker";
+import { formatInTimeZone } from "@shared/timezone";
+import { History, Repeat, Search } from "lucide-react";
+
+export interface EmailLogEntry {
+  id: string;
+  recipients: string[];
+  subject: string;
+  format: "html" | "pdf" | "both";
+  ccSelf: boolean;
+  status: "scheduled" | "pending" | "sent" | "failed" | "cancelled";
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  sentAt: string | null;
+  scheduledFor: string | null;
+  timeZone: string | null;
+  sentByName: string | null;
+}
+
+interface EmailHistoryProps {
+  summaryId: string;
+  onSendAgain: (entry: EmailLogEntry) => void;
+  sending: boolean;
+}
+
+const statusStyles: Record<EmailLogEntry["status"], string> = {
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  cancelled: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const formatLabels: Record<EmailLogEntry["format"], string> = {
+  html: "HTML",
+  pdf: "PDF",
+  both: "HTML & PDF",
+};
+
+// Pending emails are being delivered by a background job; poll until they settle
+const PENDING_REFRESH_MS = 5000;
+
+function matches(entry: EmailLogEntry, query: string) {
+  const text = [entry.subject, entry.sentByName || "", ...entry.recipients].join(" ").toLowerCase();
+  return text.includes(query.toLowerCase());
+}
+
+export default function EmailHistory({ summaryId, onSendAgain, sending }: EmailHistoryProps) {
+  const [status, setStatus] = useState<"all" | EmailLogEntry["status"]>("all");
+  const [query, setQuery] = useState("");
+
+  const { data: entries = [] } = useQuery<EmailLogEntry[]>({
+    queryKey: ["summaries", summaryId, "emails"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/emails`);
+      return response.json();
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((entry) => entry.status === "pending") ? PENDING_REFRESH_MS : false,
+  });
+
+  const visible = entries.filter(
+    (entry) => (status === "all" || entry.status === status) && (!query.trim() || matches(entry, query.trim()))
+  );
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+        <History className="mr-2 h-4 w-4 text-gray-500" />
+        Email History
+      </h4>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This summary has not been emailed yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2 mb-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Filter by recipient, subject or sender"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="h-9 pl-8 text-sm bg-white dark:bg-gray-700"
+              />
+            </div>
+            <Select value={status} onValueChange={(value: typeof status) => setStatus(value)}>
+              <SelectTrigger className="h-9 sm:w-36 text-sm bg-white dark:bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="scheduled">Scheduled</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {visible.map((entry) => (
+              <div key={entry.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 text-sm">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={`border-0 capitalize ${statusStyles[entry.status]}`}>
+                        {entry.status}
+                      </Badge>
+                      <span className="font-medium text-gray-900 dark:text-white truncate">{entry.subject}</span>
+                    </div>
+                    <p className="mt-1 text-gray-600 dark:text-gray-300 break-words">
+                      {entry.recipients.join(", ")}
+                      {entry.ccSelf && <span className="text-gray-400"> (+ copy to sender)</span>}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0"
+                    title="Send this summary again to the same recipients"
+                    onClick={() => onSendAgain(entry)}
+                    disabled={sending}
+                  >
+                    <Repeat className="mr-1 h-3 w-3" />
+                    Send again
+                  </Button>
+                </div>
+                <div className="mt-1 text-xs text-gray-400">
+                  {formatLabels[entry.format]} · {entry.status === "scheduled" || entry.status === "cancelled"
+                    ? <>scheduled for {formatInTimeZone(entry.scheduledFor!, entry.timeZone || browserTimeZone)}</>
+                    : new Date(entry.sentAt || entry.lastAttemptAt || entry.createdAt).toLocaleString()}
+                  {entry.sentByName && <> · by {entry.sentByName}</>}
+                  {entry.attempts > 1 && <> · {entry.attempts} attempts</>}
+                </div>
+                {entry.error && entry.status !== "sent" && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400 break-words">{entry.error}</p>
+                )}
+              </div>
+            ))}
+
+            {visible.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No emails match these filters.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,79 +6,202 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
-import { Mail, Send, X, UserPlus, CheckCircle } from "lucide-react";
+import { waitForJob, type Job } from "@/lib/jobs";
+import EmailHistory, { type EmailLogEntry } from "@/components/EmailHistory";
+import ScheduledEmails from "@/components/ScheduledEmails";
+import RecipientInput from "@/components/RecipientInput";
+import ContactsDialog, { contactGroupsKey, contactsKey, useContactGroups } from "@/components/ContactsDialog";
+import { parseRecipients } from "@/lib/recipients";
+import SendTimePicker, { browserTimeZone, sendTimeInstant, type SendTime } from "@/components/SendTimePicker";
+import { formatInTimeZone } from "@shared/timezone";
+import { Mail, Send, X, CheckCircle, AlertCircle, RotateCcw, Users, BookUser } from "lucide-react";
+
+interface QueuedEmail {
+  emailLog: Pick<EmailLogEntry, "id" | "status" | "scheduledFor" | "timeZone">;
+  job: Job;
+}
+
+interface EmailRequest {
+  recipients: string[];
+  subject: string;
+  format: "html" | "pdf" | "both";
+  ccSelf: boolean;
+  sendAt?: string;
+  timeZone?: string;
+  delayMinutes?: number;
+}
 
 interface EmailShareProps {
   summaryId: string;
   onSuccess: () => void;
 }
 
+const delayOptions = [
+  { value: "30", label: "In 30 minutes" },
+  { value: "60", label: "In 1 hour" },
+  { value: "120", label: "In 2 hours" },
+  { value: "240", label: "In 4 hours" },
+  { value: "480", label: "In 8 hours" },
+  { value: "1440", label: "In 24 hours" },
+];
+
+// 9am tomorrow, when most scheduled summaries go out
+function tomorrowMorning() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T09:00`;
+}
+
 export default function EmailShare({ summaryId, onSuccess }: EmailShareProps) {
   const [recipients, setRecipients] = useState<string[]>([]);
-  const [newRecipient, setNewRecipient] = useState("");
   const [subject, setSubject] = useState(`Meeting Summary - ${new Date().toLocaleDateString()}`);
   const [format, setFormat] = useState<"html" | "pdf" | "both">("html");
   const [ccSelf, setCcSelf] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [retryNote, setRetryNote] = useState<string | null>(null);
+  const [failedEmail, setFailedEmail] = useState<{ id: string; error: string } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [when, setWhen] = useState<"now" | "at" | "delay">("now");
+  const [sendTime, setSendTime] = useState<SendTime>({ sendAt: tomorrowMorning(), timeZone: browserTimeZone });
+  const [delayMinutes, setDelayMinutes] = useState("60");
+  const [groupName, setGroupName] = useState<string | null>(null);
+  const [showContacts, setShowContacts] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: groups = [] } = useContactGroups();
 
-  const sendEmailMutation = useMutation({
-    mutationFn: async (data: {
-      recipients: string[];
-      subject: string;
-      format: "html" | "pdf" | "both";
-      ccSelf: boolean;
-    }) => {
-      const response = await apiRequest("POST", `/api/summaries/${summaryId}/email`, data);
-      return response.json();
-    },
-    onSuccess: () => {
-      setShowSuccess(true);
-      toast({
-        title: "Email sent successfully!",
-        description: `Summary has been sent to ${recipients.length} recipient${recipients.length > 1 ? 's' : ''}`,
+  // Resolves once the mail server accepts the email, or straight away for a
+  // scheduled one; meanwhile reports transient failures the job is retrying
+  const deliver = async (response: Response) => {
+    const { emailLog, job }: QueuedEmail = await response.json();
+    setFailedEmail(null);
+    queryClient.invalidateQueries({ queryKey: ["summaries", summaryId, "emails"] });
+    if (emailLog.status === "scheduled") return emailLog;
+    try {
+      await waitForJob(job, {
+        onUpdate: (update) => setRetryNote(
+          update.lastError ? `Attempt ${update.attempts} of ${update.maxAttempts} failed (${update.lastError}), retrying...` : null
+        ),
       });
-      onSuccess();
-    },
-    onError: (error: any) => {
+      return emailLog;
+    } catch (error: any) {
+      setFailedEmail({ id: emailLog.id, error: error.message });
+      throw error;
+    } finally {
+      setRetryNote(null);
+    }
+  };
+
+  const onDelivered = (emailLog: QueuedEmail["emailLog"]) => {
+    if (emailLog.status === "scheduled") {
       toast({
-        title: "Failed to send email",
-        description: error.message || "Please try again",
-        variant: "destructive",
+        title: "Email scheduled",
+        description: `Summary will be sent ${formatInTimeZone(emailLog.scheduledFor!, emailLog.timeZone || browserTimeZone)}`,
       });
+      return;
+    }
+
+    setShowSuccess(true);
+    // Sending marks the summary as sent in its review trail
+    queryClient.invalidateQueries({ queryKey: ["summaries", summaryId] });
+    toast({
+      title: "Email sent successfully!",
+      description: `Summary has been sent to ${recipients.length} recipient${recipients.length > 1 ? 's' : ''}`,
+    });
+    onSuccess();
+  };
+
+  const onFailed = (error: any) => {
+    queryClient.invalidateQueries({ queryKey: ["summaries", summaryId, "emails"] });
+    toast({
+      title: "Failed to send email",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const sendEmailMutation = useMutation({
+    mutationFn: async (data: EmailRequest) => {
+      // Sending runs as a background job, retried if the mail server is down
+      return deliver(await apiRequest("POST", `/api/summaries/${summaryId}/email`, data));
     },
+    onSuccess: onDelivered,
+    onError: onFailed,
   });
 
-  const addRecipient = () => {
-    if (!newRecipient.trim()) return;
-    
-    // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(newRecipient)) {
+  const resendMutation = useMutation({
+    mutationFn: async (emailLogId: string) => {
+      return deliver(await apiRequest("POST", `/api/summaries/${summaryId}/emails/${emailLogId}/resend`));
+    },
+    onSuccess: onDelivered,
+    onError: onFailed,
+  });
+
+  const sending = sendEmailMutation.isPending || resendMutation.isPending;
+
+  // Takes one address or a pasted list; returns whether the input can be cleared
+  const addRecipients = (text: string) => {
+    const { valid, invalid } = parseRecipients(text);
+    if (invalid.length > 0) {
       toast({
         title: "Invalid email address",
-        description: "Please enter a valid email address",
+        description: `${invalid.join(", ")} is not a valid email address`,
         variant: "destructive",
       });
-      return;
+      return false;
     }
-    
-    if (recipients.includes(newRecipient)) {
+
+    const added = valid.filter((email, index) => !recipients.includes(email) && valid.indexOf(email) === index);
+    if (added.length === 0) {
       toast({
         title: "Email already added",
         description: "This recipient is already in the list",
         variant: "destructive",
       });
-      return;
+      return valid.length > 0;
     }
-    
-    setRecipients([...recipients, newRecipient]);
-    setNewRecipient("");
+
+    setRecipients([...recipients, ...added]);
+    return true;
+  };
+
+  const addGroup = (groupId: string) => {
+    const group = groups.find((candidate) => candidate.id === groupId);
+    if (!group) return;
+    const added = group.members.map((member) => member.email).filter((email) => !recipients.includes(email));
+    setRecipients([...recipients, ...added]);
+    toast({
+      title: `Added ${group.name}`,
+      description: `${added.length} new recipient${added.length === 1 ? "" : "s"} from this group`,
+    });
   };
 
+  const saveGroupMutation = useMutation({
+    mutationFn: async (name: string) => {
+      // Addresses not in the address book yet are saved as contacts
+      const response = await apiRequest("POST", "/api/contact-groups", { name, emails: recipients });
+      return response.json();
+    },
+    onSuccess: (group: { name: string }) => {
+      queryClient.invalidateQueries({ queryKey: contactGroupsKey });
+      queryClient.invalidateQueries({ queryKey: contactsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/suggestions"] });
+      setGroupName(null);
+      toast({ title: `Saved ${group.name}`, description: "Add the whole group next time from the group list" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not save the group",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
   const removeRecipient = (email: string) => {
     setRecipients(recipients.filter(r => r !== email));
   };
@@ -102,19 +225,39 @@ export default function EmailShare({ summaryId, onSuccess }: EmailShareProps) {
       return;
     }
 
-    sendEmailMutation.mutate({
-      recipients,
-      subject,
-      format,
-      ccSelf,
-    });
+    const data: EmailRequest = { recipients, subject, format, ccSelf };
+    if (when === "at") {
+      const instant = sendTimeInstant(sendTime);
+      if (!instant || instant.getTime() <= Date.now()) {
+        toast({
+          title: "Pick a send time",
+          description: "Choose a date and time in the future and a valid timezone",
+          variant: "destructive",
+        });
+        return;
+      }
+      data.sendAt = sendTime.sendAt;
+      data.timeZone = sendTime.timeZone;
+    } else if (when === "delay") {
+      data.delayMinutes = parseInt(delayMinutes, 10);
+    }
+
+    sendEmailMutation.mutate(data);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      e.preventDefault();
-      addRecipient();
-    }
+  // Repeat an earlier email as a new one, with the same list and options
+  const sendAgain = (entry: EmailLogEntry) => {
+    setRecipients(entry.recipients);
+    setSubject(entry.subject);
+    setFormat(entry.format);
+    setCcSelf(entry.ccSelf);
+    setShowSuccess(false);
+    sendEmailMutation.mutate({
+      recipients: entry.recipients,
+      subject: entry.subject,
+      format: entry.format,
+      ccSelf: entry.ccSelf,
+    });
   };
 
   const getInitials = (email: string) => {
@@ -149,11 +292,18 @@ export default function EmailShare({ summaryId, onSuccess }: EmailShareProps) {
             </Button>
             <Button 
               variant="outline"
+              onClick={() => setShowHistory(!showHistory)}
               className="border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
             >
-              View History
+              {showHistory ? "Hide History" : "View History"}
             </Button>
           </div>
+
+          {showHistory && (
+            <div className="mt-6 pt-6 border-t border-green-200 dark:border-green-800">
+              <EmailHistory summaryId={summaryId} onSendAgain={sendAgain} sending={sending} />
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -211,23 +361,59 @@ export default function EmailShare({ summaryId, onSuccess }: EmailShareProps) {
             </div>
 
             {/* Add Recipient Input */}
-            <div className="flex space-x-2">
-              <Input
-                type="email"
-                placeholder="Enter email address"
-                value={newRecipient}
-                onChange={(e) => setNewRecipient(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="flex-1 bg-white dark:bg-gray-700"
-              />
-              <Button 
-                onClick={addRecipient}
-                className="px-6 bg-primary-600 hover:bg-primary-700 text-white"
-                disabled={!newRecipient.trim()}
-              >
-                <UserPlus className="h-4 w-4" />
+            <RecipientInput exclude={recipients} onAdd={addRecipients} />
+
+            {/* Contacts and groups */}
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {groups.length > 0 && (
+                <Select value="" onValueChange={addGroup}>
+                  <SelectTrigger className="h-8 w-44 text-sm bg-white dark:bg-gray-700">
+                    <SelectValue placeholder="Add a group..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name} ({group.members.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {recipients.length > 0 && groupName === null && (
+                <Button variant="outline" size="sm" className="h-8" onClick={() => setGroupName("")}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Save as group
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" className="h-8" onClick={() => setShowContacts(true)}>
+                <BookUser className="mr-2 h-4 w-4" />
+                Contacts
               </Button>
             </div>
+
+            {groupName !== null && (
+              <div className="mt-2 flex gap-2">
+                <Input
+                  placeholder="Group name, e.g. Exec staff"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  className="h-8 flex-1 text-sm bg-white dark:bg-gray-700"
+                />
+                <Button
+                  size="sm"
+                  className="h-8"
+                  onClick={() => saveGroupMutation.mutate(groupName.trim())}
+                  disabled={!groupName.trim() || saveGroupMutation.isPending}
+                >
+                  Save
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8" onClick={() => setGroupName(null)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            <ContactsDialog open={showContacts} onOpenChange={setShowContacts} />
           </div>
 
           {/* Email Options */}
@@ -278,21 +464,85 @@ export default function EmailShare({ summaryId, onSuccess }: EmailShareProps) {
                   Send a copy to myself
                 </Label>
               </div>
+
+              <div>
+                <Label htmlFor="when" className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">
+                  When
+                </Label>
+                <Select value={when} onValueChange={(value: "now" | "at" | "delay") => setWhen(value)}>
+                  <SelectTrigger id="when" className="bg-white dark:bg-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="now">Send now</SelectItem>
+                    <SelectItem value="at">At a specific time</SelectItem>
+                    <SelectItem value="delay">After a delay</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {when === "at" && (
+                <SendTimePicker value={sendTime} onChange={setSendTime} idPrefix="email" />
+              )}
+
+              {when === "delay" && (
+                <Select value={delayMinutes} onValueChange={setDelayMinutes}>
+                  <SelectTrigger className="bg-white dark:bg-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {delayOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
           </div>
         </div>
 
         {/* Send Button */}
         <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+          {failedEmail && !sending && (
+            <div className="mb-4 flex items-start justify-between gap-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-4">
+              <div className="flex items-start space-x-3">
+                <AlertCircle className="text-red-600 dark:text-red-400 h-5 w-5 mt-0.5 shrink-0" />
+                <div>
+                  <p className="font-medium text-red-800 dark:text-red-200">The email could not be delivered</p>
+                  <p className="text-sm text-red-600 dark:text-red-300 break-words">{failedEmail.error}</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resendMutation.mutate(failedEmail.id)}
+                className="shrink-0"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Resend
+              </Button>
+            </div>
+          )}
+          {retryNote && (
+            <p className="mb-4 text-sm text-amber-600 dark:text-amber-400">{retryNote}</p>
+          )}
           <Button 
             onClick={handleSendEmail}
-            disabled={sendEmailMutation.isPending || recipients.length === 0}
+            disabled={sending || recipients.length === 0}
             className="w-full bg-green-600 hover:bg-green-700 text-white py-4 font-medium text-lg"
           >
             <Send className="mr-3 h-5 w-5" />
-            {sendEmailMutation.isPending ? "Sending..." : "Send Summary"}
+            {when === "now"
+              ? (sending ? "Sending..." : "Send Summary")
+              : (sending ? "Scheduling..." : "Schedule Summary")}
           </Button>
         </div>
+
+        <ScheduledEmails summaryId={summaryId} />
+
+        <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <EmailHistory summaryId={summaryId} onSendAgain={sendAgain} sending={sending} />
+        </div>
       </CardContent>
     </Card>
   );
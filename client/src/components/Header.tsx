@@ -1,11 +1,36 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/contexts/ThemeContext";
 import { Button } from "@/components/ui/button";
-import { FileText, Moon, Sun, LogOut } from "lucide-react";
+import SearchDialog from "@/components/SearchDialog";
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { FileText, Moon, Sun, LogOut, Search } from "lucide-react";
+
+const navLinks = [
+  { href: "/", label: "New Summary" },
+  { href: "/summaries", label: "Library" },
+  { href: "/action-items", label: "Action Items" },
+  { href: "/ask", label: "Ask" },
+  { href: "/workspaces", label: "Workspaces" },
+];
 
 export default function Header() {
   const { user, logout } = useAuth();
   const { theme, setTheme } = useTheme();
+  const [location] = useLocation();
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
 
   const getInitials = (name: string) => {
     return name
@@ -27,9 +52,42 @@ export default function Header() {
             <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
               SummaryFlow
             </h1>
+            {user && (
+              <nav className="hidden md:flex items-center space-x-1 pl-6">
+                {navLinks.map((link) => (
+                  <Link
+                    key={link.href}
+                    href={link.href}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      location === link.href
+                        ? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white"
+                        : "text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                    }`}
+                  >
+                    {link.label}
+                  </Link>
+                ))}
+              </nav>
+            )}
           </div>
           
           <div className="flex items-center space-x-4">
+            {/* Search */}
+            {user && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSearchOpen(true)}
+                className="text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 sm:w-56 justify-start"
+              >
+                <Search className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline flex-1 text-left">Search...</span>
+                <kbd className="hidden sm:inline text-xs border border-gray-300 dark:border-gray-600 rounded px-1">
+                  Ctrl K
+                </kbd>
+              </Button>
+            )}
+
             {/* Theme Toggle */}
             <Button
               variant="ghost"
@@ -73,6 +131,7 @@ export default function Header() {
           </div>
         </div>
       </div>
+      <SearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
     </header>
   );
 }
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { isEmailAddress } from "@/lib/recipients";
+import { BookUser, History, UserPlus } from "lucide-react";
+
+interface RecipientSuggestion {
+  email: string;
+  name: string | null;
+  source: "contact" | "history";
+}
+
+interface RecipientInputProps {
+  // Addresses already added, left out of the suggestions
+  exclude: string[];
+  // Returns whether the typed text was added, so the input can be cleared
+  onAdd: (value: string) => boolean;
+}
+
+// An address field that suggests saved contacts and earlier recipients as
+// the user types
+export default function RecipientInput({ exclude, onAdd }: RecipientInputProps) {
+  const [value, setValue] = useState("");
+  const [debouncedValue, setDebouncedValue] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value.trim()), 150);
+    return () => clearTimeout(timeout);
+  }, [value]);
+
+  const { data: suggestions = [] } = useQuery<RecipientSuggestion[]>({
+    queryKey: ["/api/contacts/suggestions", debouncedValue],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/contacts/suggestions?q=${encodeURIComponent(debouncedValue)}`);
+      return response.json();
+    },
+    enabled: open,
+    placeholderData: (previous) => previous,
+  });
+
+  const visible = suggestions.filter((suggestion) => !exclude.includes(suggestion.email));
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [debouncedValue]);
+
+  const add = (text: string) => {
+    if (onAdd(text)) {
+      setValue("");
+      setHighlighted(0);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" && visible.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((highlighted + 1) % visible.length);
+    } else if (e.key === "ArrowUp" && visible.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + visible.length) % visible.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      // A complete address is taken as typed; otherwise Enter picks the
+      // highlighted suggestion
+      const suggestion = open && !isEmailAddress(value.trim()) ? visible[highlighted] : undefined;
+      add(suggestion ? suggestion.email : value);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex space-x-2">
+      <div className="relative flex-1">
+        <Input
+          type="text"
+          placeholder="Name or email address"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          // Give a click on a suggestion time to land before the list closes
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          autoComplete="off"
+          className="bg-white dark:bg-gray-700"
+        />
+        {open && visible.length > 0 && (
+          <div className="absolute z-20 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg py-1 max-h-64 overflow-y-auto">
+            {visible.map((suggestion, index) => (
+              <button
+                key={suggestion.email}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => add(suggestion.email)}
+                className={`flex w-full items-center px-3 py-2 text-left text-sm ${
+                  index === highlighted ? "bg-gray-100 dark:bg-gray-700" : ""
+                }`}
+              >
+                {suggestion.source === "contact" ? (
+                  <BookUser className="mr-2 h-4 w-4 shrink-0 text-primary-600" aria-label="Contact" />
+                ) : (
+                  <History className="mr-2 h-4 w-4 shrink-0 text-gray-400" aria-label="Emailed before" />
+                )}
+                <span className="min-w-0 truncate">
+                  {suggestion.name ? (
+                    <>
+                      <span className="font-medium text-gray-900 dark:text-white">{suggestion.name}</span>
+                      <span className="ml-2 text-gray-500 dark:text-gray-400">{suggestion.email}</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-900 dark:text-white">{suggestion.email}</span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <Button
+        onClick={() => add(value)}
+        className="px-6 bg-primary-600 hover:bg-primary-700 text-white"
+        disabled={!value.trim()}
+      >
+        <UserPlus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useLayoutEffect, useState, type RefObject } from "react";
+import { getCaretCoordinates, type CaretCoordinates } from "@/lib/caret";
+import type { Collaborator } from "@shared/collaboration";
+
+interface RemoteCursorsProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  collaborators: Collaborator[];
+  content: string;
+  scrollTop: number;
+}
+
+interface PlacedCursor {
+  collaborator: Collaborator;
+  caret: CaretCoordinates;
+}
+
+// Other editors' carets drawn over the textarea; the wrapper must be
+// positioned and the same size as the textarea
+export default function RemoteCursors({ textareaRef, collaborators, content, scrollTop }: RemoteCursorsProps) {
+  const [cursors, setCursors] = useState<PlacedCursor[]>([]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setCursors(
+      collaborators
+        .filter((collaborator) => collaborator.selection)
+        .map((collaborator) => ({
+          collaborator,
+          caret: getCaretCoordinates(textarea, Math.min(collaborator.selection!.head, content.length)),
+        }))
+    );
+  }, [textareaRef, collaborators, content]);
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden">
+      {cursors.map(({ collaborator, caret }) => (
+        <div
+          key={collaborator.clientId}
+          className="absolute"
+          style={{ top: caret.top - scrollTop, left: caret.left, height: caret.height }}
+        >
+          <div className="h-full w-0.5" style={{ backgroundColor: collaborator.color }} />
+          <span
+            className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+            style={{ backgroundColor: collaborator.color }}
+          >
+            {collaborator.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { statusLabels, statusStyles } from "@/lib/summaryStatus";
+import { CheckCircle, ClipboardCheck, MessageSquare, RotateCcw, Send, Undo2, X, XCircle } from "lucide-react";
+
+type ReviewAction = "submit" | "withdraw" | "approve" | "request_changes" | "reject" | "reopen";
+
+interface Reviewer {
+  userId: string;
+  fullName: string;
+  email: string;
+  decision: "approved" | "changes_requested" | "rejected" | null;
+  decidedAt: string | null;
+}
+
+interface ReviewEvent {
+  id: string;
+  action: string;
+  actorName: string | null;
+  subjectName: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  comment: string | null;
+  createdAt: string;
+}
+
+interface Review {
+  status: string;
+  revision: number;
+  reviewers: Reviewer[];
+  candidates: { userId: string; fullName: string; email: string }[];
+  canManageReviewers: boolean;
+  events: ReviewEvent[];
+  actions: ReviewAction[];
+}
+
+interface ReviewPanelProps {
+  summaryId: string;
+  onStatusChange?: (status: string) => void;
+}
+
+const actionButtons: Record<ReviewAction, { label: string; icon: typeof Send; className?: string }> = {
+  submit: { label: "Submit for review", icon: Send },
+  approve: { label: "Approve", icon: CheckCircle, className: "bg-green-600 hover:bg-green-700 text-white" },
+  request_changes: { label: "Request changes", icon: RotateCcw },
+  reject: { label: "Reject", icon: XCircle },
+  withdraw: { label: "Withdraw", icon: Undo2 },
+  reopen: { label: "Reopen as draft", icon: Undo2 },
+};
+
+const decisionLabels: Record<string, string> = {
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  rejected: "Rejected",
+};
+
+// One line of the audit trail, e.g. "Ana approved"
+function describeEvent(event: ReviewEvent) {
+  const actor = event.actorName || "Someone";
+  switch (event.action) {
+    case "submit": return `${actor} submitted for review`;
+    case "withdraw": return `${actor} withdrew the review`;
+    case "approve": return event.toStatus === "approved" ? `${actor} approved` : `${actor} approved (waiting on other reviewers)`;
+    case "request_changes": return `${actor} requested changes`;
+    case "reject": return `${actor} rejected`;
+    case "reopen": return `${actor} reopened as draft`;
+    case "send": return `${actor} sent by email`;
+    case "edit": return `${actor} edited after sign-off; back to draft`;
+    case "comment": return `${actor} commented`;
+    case "add_reviewer": return `${actor} added ${event.subjectName || "a reviewer"} as reviewer`;
+    case "remove_reviewer": return `${actor} removed ${event.subjectName || "a reviewer"} as reviewer`;
+    default: return `${actor} ${event.action}`;
+  }
+}
+
+export default function ReviewPanel({ summaryId, onStatusChange }: ReviewPanelProps) {
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const reviewKey = ["summaries", summaryId, "review"];
+
+  const { data: review } = useQuery<Review>({
+    queryKey: reviewKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/review`);
+      return response.json();
+    },
+    enabled: !!summaryId,
+  });
+
+  // The summary as last loaded by the editor. When an edit or an email
+  // changed its status, the review is out of date as well.
+  const { data: summary } = useQuery<{ status: string }>({
+    queryKey: ["summaries", summaryId],
+    enabled: false,
+  });
+  useEffect(() => {
+    if (summary && review && summary.status !== review.status) {
+      queryClient.invalidateQueries({ queryKey: reviewKey });
+    }
+  }, [summary?.status]);
+
+  // Status changes made here or elsewhere reach the parent
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
+  useEffect(() => {
+    if (review) onStatusChangeRef.current?.(review.status);
+  }, [review?.status]);
+
+  // Every change returns the updated review; the summary itself has a new
+  // status and revision, so the editor and page refetch it
+  const applyReview = (updated: Review) => {
+    queryClient.setQueryData(reviewKey, updated);
+    queryClient.invalidateQueries({ queryKey: ["summaries", summaryId], exact: true });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ReviewAction) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/review`, {
+        action,
+        comment: comment.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: Review) => {
+      setComment("");
+      applyReview(updated);
+    },
+    onError: onError("Review action failed"),
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/review/comments`, { comment: comment.trim() });
+      return response.json();
+    },
+    onSuccess: (updated: Review) => {
+      setComment("");
+      applyReview(updated);
+    },
+    onError: onError("Failed to add comment"),
+  });
+
+  const addReviewerMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/reviewers`, { userId });
+      return response.json();
+    },
+    onSuccess: applyReview,
+    onError: onError("Failed to add reviewer"),
+  });
+
+  const removeReviewerMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `/api/summaries/${summaryId}/reviewers/${userId}`);
+      return response.json();
+    },
+    onSuccess: applyReview,
+    onError: onError("Failed to remove reviewer"),
+  });
+
+  if (!review) return null;
+
+  const isPending = actionMutation.isPending || commentMutation.isPending;
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <ClipboardCheck className="text-primary-600 mr-2 h-5 w-5" />
+            Review
+          </h3>
+          <Badge variant="outline" className={`border-0 ${statusStyles[review.status] || ""}`}>
+            {statusLabels[review.status] || review.status}
+          </Badge>
+        </div>
+
+        {/* Reviewers */}
+        <div className="space-y-2 mb-4">
+          {review.reviewers.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No reviewers yet. Add someone to sign off before this summary is sent.
+            </p>
+          )}
+          {review.reviewers.map((reviewer) => (
+            <div key={reviewer.userId} className="flex items-center justify-between text-sm">
+              <span className="text-gray-900 dark:text-white" title={reviewer.email}>{reviewer.fullName}</span>
+              <div className="flex items-center">
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {reviewer.decision ? decisionLabels[reviewer.decision] : review.status === "in_review" ? "Pending" : ""}
+                </span>
+                {review.canManageReviewers && (
+                  <button
+                    className="ml-2 text-gray-400 hover:text-red-500"
+                    onClick={() => removeReviewerMutation.mutate(reviewer.userId)}
+                    title="Remove reviewer"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {review.canManageReviewers && review.candidates.length > 0 && (
+            <Select value="" onValueChange={(userId) => addReviewerMutation.mutate(userId)}>
+              <SelectTrigger className="h-8 text-xs bg-white dark:bg-gray-700">
+                <SelectValue placeholder="Add reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                {review.candidates.map((candidate) => (
+                  <SelectItem key={candidate.userId} value={candidate.userId}>
+                    {candidate.fullName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {/* Comment and actions */}
+        <Textarea
+          placeholder="Add a review comment..."
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          className="min-h-20 text-sm bg-white dark:bg-gray-700 mb-3"
+        />
+        <div className="flex flex-wrap gap-2 mb-6">
+          {review.actions.map((action) => {
+            const { label, icon: Icon, className } = actionButtons[action];
+            return (
+              <Button
+                key={action}
+                size="sm"
+                variant={className ? "default" : "outline"}
+                className={className}
+                onClick={() => actionMutation.mutate(action)}
+                disabled={isPending}
+              >
+                <Icon className="mr-2 h-4 w-4" />
+                {label}
+              </Button>
+            );
+          })}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => commentMutation.mutate()}
+            disabled={isPending || !comment.trim()}
+          >
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Comment
+          </Button>
+        </div>
+
+        {/* Audit trail */}
+        {review.events.length > 0 && (
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3 max-h-72 overflow-y-auto">
+            {review.events.map((event) => (
+              <div key={event.id} className="text-sm">
+                <div className="text-gray-700 dark:text-gray-300">{describeEvent(event)}</div>
+                {event.comment && (
+                  <p className="mt-1 pl-3 border-l-2 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                    {event.comment}
+                  </p>
+                )}
+                <div className="text-xs text-gray-400">{new Date(event.createdAt).toLocaleString()}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { parseRecipients } from "@/lib/recipients";
+import type { EmailLogEntry } from "@/components/EmailHistory";
+import SendTimePicker, { browserTimeZone, sendTimeInstant, type SendTime } from "@/components/SendTimePicker";
+import { formatInTimeZone, utcToZonedTime } from "@shared/timezone";
+import { Clock, Pencil, X } from "lucide-react";
+
+interface ScheduledEmailsProps {
+  summaryId: string;
+}
+
+interface EmailEdit {
+  recipients: string;
+  subject: string;
+  sendTime: SendTime;
+}
+
+// Scheduled emails move to pending when they come due; check for that now and then
+const SCHEDULED_REFRESH_MS = 60_000;
+
+export default function ScheduledEmails({ summaryId }: ScheduledEmailsProps) {
+  const [editing, setEditing] = useState<EmailLogEntry | null>(null);
+  const [edit, setEdit] = useState<EmailEdit | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const emailsKey = ["summaries", summaryId, "emails"];
+
+  const { data: entries = [] } = useQuery<EmailLogEntry[]>({
+    queryKey: emailsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/emails`);
+      return response.json();
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((entry) => entry.status === "scheduled") ? SCHEDULED_REFRESH_MS : false,
+  });
+
+  const scheduled = entries
+    .filter((entry) => entry.status === "scheduled")
+    .sort((a, b) => new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime());
+
+  const onError = (error: any) => {
+    queryClient.invalidateQueries({ queryKey: emailsKey });
+    toast({
+      title: "Could not change the scheduled email",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (emailLogId: string) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/emails/${emailLogId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailsKey });
+      toast({ title: "Scheduled email cancelled" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, edit }: { id: string; edit: EmailEdit }) => {
+      const response = await apiRequest("PATCH", `/api/summaries/${summaryId}/emails/${id}`, {
+        recipients: parseRecipients(edit.recipients).valid,
+        subject: edit.subject,
+        sendAt: edit.sendTime.sendAt,
+        timeZone: edit.sendTime.timeZone,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: emailsKey });
+      setEditing(null);
+      toast({ title: "Scheduled email updated" });
+    },
+    onError,
+  });
+
+  const startEdit = (entry: EmailLogEntry) => {
+    const timeZone = entry.timeZone || browserTimeZone;
+    setEditing(entry);
+    setEdit({
+      recipients: entry.recipients.join(", "),
+      subject: entry.subject,
+      sendTime: { sendAt: utcToZonedTime(entry.scheduledFor!, timeZone), timeZone },
+    });
+  };
+
+  if (scheduled.length === 0) return null;
+
+  const instant = edit && sendTimeInstant(edit.sendTime);
+  const editedRecipients = edit && parseRecipients(edit.recipients);
+  const canSave = !!edit && !!instant && instant.getTime() > Date.now() && !!edit.subject.trim()
+    && !!editedRecipients && editedRecipients.valid.length > 0 && editedRecipients.invalid.length === 0;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+        <Clock className="mr-2 h-4 w-4 text-gray-500" />
+        Scheduled Sends
+      </h4>
+
+      <div className="space-y-3">
+        {scheduled.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-start justify-between gap-3 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 p-3 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-white">
+                {formatInTimeZone(entry.scheduledFor!, entry.timeZone || browserTimeZone)}
+              </p>
+              {entry.timeZone && entry.timeZone !== browserTimeZone && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatInTimeZone(entry.scheduledFor!, browserTimeZone)} your time
+                </p>
+              )}
+              <p className="mt-1 text-gray-700 dark:text-gray-300 truncate">{entry.subject}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 break-words">{entry.recipients.join(", ")}</p>
+            </div>
+            <div className="flex items-center shrink-0">
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Edit" onClick={() => startEdit(entry)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-400 hover:text-red-500"
+                title="Cancel this send"
+                onClick={() => cancelMutation.mutate(entry.id)}
+                disabled={cancelMutation.isPending}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit scheduled email</DialogTitle>
+            <DialogDescription>Changes apply until the email starts sending.</DialogDescription>
+          </DialogHeader>
+
+          {editing && edit && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="scheduled-recipients" className="text-sm font-medium mb-1 block">
+                  Recipients
+                </Label>
+                <Input
+                  id="scheduled-recipients"
+                  value={edit.recipients}
+                  onChange={(e) => setEdit({ ...edit, recipients: e.target.value })}
+                  className="bg-white dark:bg-gray-700"
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduled-subject" className="text-sm font-medium mb-1 block">
+                  Subject Line
+                </Label>
+                <Input
+                  id="scheduled-subject"
+                  value={edit.subject}
+                  onChange={(e) => setEdit({ ...edit, subject: e.target.value })}
+                  className="bg-white dark:bg-gray-700"
+                />
+              </div>
+              <SendTimePicker
+                value={edit.sendTime}
+                onChange={(sendTime) => setEdit({ ...edit, sendTime })}
+                idPrefix="scheduled"
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Close
+                </Button>
+                <Button
+                  onClick={() => updateMutation.mutate({ id: editing.id, edit })}
+                  disabled={!canSave || updateMutation.isPending}
+                >
+                  {updateMutation.isPending ? "Saving..." : "Save changes"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
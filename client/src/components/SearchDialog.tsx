@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { apiRequest } from "@/lib/api";
+import { statusLabels } from "@/lib/summaryStatus";
+import { splitHighlights } from "@shared/search";
+import { FileText } from "lucide-react";
+
+interface SearchResult {
+  id: string;
+  title: string;
+  status: string;
+  createdAt: string;
+  titleHighlight: string;
+  summarySnippet: string;
+  transcriptSnippet: string;
+}
+
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function Highlighted({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlights(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedQuery],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/search?q=${encodeURIComponent(debouncedQuery)}`);
+      return response.json();
+    },
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const handleSelect = (id: string) => {
+    onOpenChange(false);
+    setQuery("");
+    setLocation(`/summaries/${id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        <DialogTitle className="sr-only">Search summaries</DialogTitle>
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12">
+          <CommandInput
+            placeholder="Search meetings, summaries and transcripts..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[28rem]">
+            {debouncedQuery && !isFetching && (
+              <CommandEmpty>No meetings match "{debouncedQuery}"</CommandEmpty>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading="Meetings">
+                {results.map((result) => (
+                  <CommandItem
+                    key={result.id}
+                    value={result.id}
+                    onSelect={() => handleSelect(result.id)}
+                    className="flex flex-col items-start space-y-1 py-3"
+                  >
+                    <div className="flex items-center font-medium">
+                      <FileText className="mr-2 h-4 w-4 text-primary-600" />
+                      <Highlighted snippet={result.titleHighlight} />
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {new Date(result.createdAt).toLocaleDateString()} · {statusLabels[result.status] || result.status}
+                      </span>
+                    </div>
+                    {result.summarySnippet && (
+                      <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+                        <Highlighted snippet={result.summarySnippet} />
+                      </p>
+                    )}
+                    {result.transcriptSnippet && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 italic">
+                        Transcript: <Highlighted snippet={result.transcriptSnippet} />
+                      </p>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
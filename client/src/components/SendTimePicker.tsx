@@ -0,0 +1,79 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatInTimeZone, isValidTimeZone, zonedTimeToUtc } from "@shared/timezone";
+
+export interface SendTime {
+  sendAt: string; // wall-clock time in timeZone, e.g. "2025-01-31T09:00"
+  timeZone: string;
+}
+
+interface SendTimePickerProps {
+  value: SendTime;
+  onChange: (value: SendTime) => void;
+  idPrefix: string;
+}
+
+export const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const timeZones = Intl.supportedValuesOf("timeZone");
+
+// The moment the picked time happens, or null while it is incomplete
+export function sendTimeInstant(value: SendTime): Date | null {
+  if (!value.sendAt || !isValidTimeZone(value.timeZone)) return null;
+  try {
+    return zonedTimeToUtc(value.sendAt, value.timeZone);
+  } catch {
+    return null;
+  }
+}
+
+// A date and time plus the timezone it is meant in, which defaults to the
+// browser's but is usually set to the recipients'
+export default function SendTimePicker({ value, onChange, idPrefix }: SendTimePickerProps) {
+  const instant = sendTimeInstant(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor={`${idPrefix}-send-at`} className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">
+            Date and time
+          </Label>
+          <Input
+            id={`${idPrefix}-send-at`}
+            type="datetime-local"
+            value={value.sendAt}
+            onChange={(e) => onChange({ ...value, sendAt: e.target.value })}
+            className="bg-white dark:bg-gray-700"
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-time-zone`} className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">
+            Timezone
+          </Label>
+          <Input
+            id={`${idPrefix}-time-zone`}
+            list={`${idPrefix}-time-zones`}
+            value={value.timeZone}
+            onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+            className="bg-white dark:bg-gray-700"
+          />
+          <datalist id={`${idPrefix}-time-zones`}>
+            {timeZones.map((timeZone) => (
+              <option key={timeZone} value={timeZone} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+      {!isValidTimeZone(value.timeZone) ? (
+        <p className="text-xs text-red-600 dark:text-red-400">Pick a timezone from the list, e.g. America/New_York</p>
+      ) : (
+        instant && value.timeZone !== browserTimeZone && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            That is {formatInTimeZone(instant, browserTimeZone)} where you are.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
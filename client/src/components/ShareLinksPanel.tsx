@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Copy, Eye, FileText, Link2, Lock, X } from "lucide-react";
+
+interface ShareLink {
+  id: string;
+  token: string;
+  hasPassword: boolean;
+  allowTranscript: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  createdByName: string | null;
+}
+
+interface ShareLinksPanelProps {
+  summaryId: string;
+}
+
+const expiryOptions = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+];
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+function linkState(link: ShareLink): { label: string; className: string } {
+  if (link.revokedAt) return { label: "Revoked", className: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300" };
+  if (link.expiresAt && new Date(link.expiresAt).getTime() < Date.now()) {
+    return { label: "Expired", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300" };
+}
+
+export default function ShareLinksPanel({ summaryId }: ShareLinksPanelProps) {
+  const [expiry, setExpiry] = useState("7");
+  const [password, setPassword] = useState("");
+  const [allowTranscript, setAllowTranscript] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const linksKey = ["summaries", summaryId, "share-links"];
+
+  const { data: links = [] } = useQuery<ShareLink[]>({
+    queryKey: linksKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/share-links`);
+      return response.json();
+    },
+    enabled: !!summaryId,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link.token));
+    toast({ title: "Share link copied" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/share-links`, {
+        expiresInDays: expiry === "never" ? null : parseInt(expiry, 10),
+        password: password || undefined,
+        allowTranscript,
+      });
+      return response.json();
+    },
+    onSuccess: async (link: ShareLink) => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      await copyLink(link);
+    },
+    onError: onError("Failed to create share link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await apiRequest("DELETE", `/api/summaries/${summaryId}/share-links/${linkId}`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linksKey }),
+    onError: onError("Failed to revoke share link"),
+  });
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+          <Link2 className="text-primary-600 mr-2 h-5 w-5" />
+          Public Links
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Anyone with a link can read this summary without an account.
+        </p>
+
+        {/* New link */}
+        <div className="space-y-3 mb-6">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="h-9 text-sm bg-white dark:bg-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {expiryOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="password"
+            placeholder="Password (optional)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="h-9 text-sm bg-white dark:bg-gray-700"
+          />
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-transcript" className="text-sm text-gray-700 dark:text-gray-300">
+              Include transcript
+            </Label>
+            <Switch id="share-transcript" checked={allowTranscript} onCheckedChange={setAllowTranscript} />
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || (password.length > 0 && password.length < 4)}
+          >
+            {createMutation.isPending ? "Creating..." : "Create link"}
+          </Button>
+        </div>
+
+        {/* Existing links */}
+        {links.length > 0 && (
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+            {links.map((link) => {
+              const state = linkState(link);
+              const active = state.label === "Active";
+              return (
+                <div key={link.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={`border-0 ${state.className}`}>{state.label}</Badge>
+                      {link.hasPassword && <Lock className="h-3 w-3 text-gray-400" aria-label="Password protected" />}
+                      {link.allowTranscript && <FileText className="h-3 w-3 text-gray-400" aria-label="Includes transcript" />}
+                    </div>
+                    {active && (
+                      <div className="flex items-center">
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Copy link" onClick={() => copyLink(link)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-gray-400 hover:text-red-500"
+                          title="Revoke link"
+                          onClick={() => revokeMutation.mutate(link.id)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-1 flex items-center text-xs text-gray-500 dark:text-gray-400">
+                    <Eye className="mr-1 h-3 w-3" />
+                    {link.viewCount} {link.viewCount === 1 ? "view" : "views"}
+                    {link.lastViewedAt && <> · last {new Date(link.lastViewedAt).toLocaleDateString()}</>}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    Created {new Date(link.createdAt).toLocaleDateString()}
+                    {link.createdByName && <> by {link.createdByName}</>}
+                    {link.expiresAt && !link.revokedAt && <> · expires {new Date(link.expiresAt).toLocaleDateString()}</>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
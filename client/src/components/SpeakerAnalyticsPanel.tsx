@@ -0,0 +1,165 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { formatTimestamp } from "@shared/transcript";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3 } from "lucide-react";
+
+interface SpeakerStats {
+  name: string;
+  talkTimeMs: number;
+  talkTimeShare: number;
+  wordCount: number;
+  wordShare: number;
+  turns: number;
+  questions: number;
+  interruptions: number;
+}
+
+interface SilenceGap {
+  afterSpeaker: string | null;
+  startMs: number;
+  durationMs: number;
+}
+
+interface SpeakerAnalytics {
+  timed: boolean;
+  durationMs: number;
+  totalWords: number;
+  totalTurns: number;
+  speakers: SpeakerStats[];
+  silenceGaps: SilenceGap[];
+}
+
+interface SpeakerAnalyticsPanelProps {
+  summaryId: string;
+}
+
+const chartConfig = {
+  talkTime: { label: "Talk time", color: "var(--chart-1)" },
+  words: { label: "Words", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const MAX_GAPS_SHOWN = 5;
+
+function percent(share: number) {
+  return `${Math.round(share * 100)}%`;
+}
+
+export default function SpeakerAnalyticsPanel({ summaryId }: SpeakerAnalyticsPanelProps) {
+  const { data: analytics } = useQuery<SpeakerAnalytics>({
+    queryKey: ["summaries", summaryId, "analytics"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/analytics`);
+      return response.json();
+    },
+  });
+
+  if (!analytics || analytics.speakers.length === 0) return null;
+
+  const chartData = analytics.speakers.map((speaker) => ({
+    name: speaker.name,
+    talkTime: Math.round(speaker.talkTimeShare * 100),
+    words: Math.round(speaker.wordShare * 100),
+  }));
+  const longestGaps = [...analytics.silenceGaps]
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, MAX_GAPS_SHOWN);
+  const totalSilenceMs = analytics.silenceGaps.reduce((total, gap) => total + gap.durationMs, 0);
+
+  const overview = [
+    { label: analytics.timed ? "Duration" : "Duration (est.)", value: formatTimestamp(analytics.durationMs) },
+    { label: "Words", value: analytics.totalWords.toLocaleString() },
+    { label: "Turns", value: analytics.totalTurns.toLocaleString() },
+    { label: "Silence", value: analytics.timed ? formatTimestamp(totalSilenceMs) : "n/a" },
+  ];
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+          <BarChart3 className="text-primary-600 mr-3 h-5 w-5" />
+          Speaker Analytics
+        </h3>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+          {overview.map((item) => (
+            <div key={item.label} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400">{item.label}</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto w-full mb-6"
+          style={{ height: Math.max(160, chartData.length * 48) }}
+        >
+          <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" domain={[0, 100]} unit="%" tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${value}%`} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="talkTime" fill="var(--color-talkTime)" radius={3} />
+            <Bar dataKey="words" fill="var(--color-words)" radius={3} />
+          </BarChart>
+        </ChartContainer>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Speaker</TableHead>
+              <TableHead className="text-right">Talk time</TableHead>
+              <TableHead className="text-right">Words</TableHead>
+              <TableHead className="text-right">Turns</TableHead>
+              <TableHead className="text-right">Questions</TableHead>
+              <TableHead className="text-right">Interruptions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analytics.speakers.map((speaker) => (
+              <TableRow key={speaker.name}>
+                <TableCell className="font-medium">{speaker.name}</TableCell>
+                <TableCell className="text-right">
+                  {formatTimestamp(speaker.talkTimeMs)} ({percent(speaker.talkTimeShare)})
+                </TableCell>
+                <TableCell className="text-right">
+                  {speaker.wordCount.toLocaleString()} ({percent(speaker.wordShare)})
+                </TableCell>
+                <TableCell className="text-right">{speaker.turns}</TableCell>
+                <TableCell className="text-right">{speaker.questions}</TableCell>
+                <TableCell className="text-right">{speaker.interruptions}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!analytics.timed && (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            This transcript has no timestamps, so talk time is estimated from word counts and silence gaps cannot be measured.
+          </p>
+        )}
+
+        {longestGaps.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+              Longest silences ({analytics.silenceGaps.length} in total)
+            </h4>
+            <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-300">
+              {longestGaps.map((gap) => (
+                <li key={gap.startMs}>
+                  {formatTimestamp(gap.durationMs)} at {formatTimestamp(gap.startMs)}
+                  {gap.afterSpeaker && <span className="text-gray-500 dark:text-gray-400"> after {gap.afterSpeaker}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
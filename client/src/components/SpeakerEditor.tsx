@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Users } from "lucide-react";
+
+interface Speaker {
+  name: string;
+  segmentCount: number;
+}
+
+interface SpeakerEditorProps {
+  summaryId: string;
+  speakers: Speaker[];
+  readOnly?: boolean;
+}
+
+export default function SpeakerEditor({ summaryId, speakers, readOnly }: SpeakerEditorProps) {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Drop edits in progress once the list changes underneath them
+  useEffect(() => {
+    setNames({});
+  }, [speakers]);
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ from, to }: { from: string; to: string }) => {
+      const response = await apiRequest("PATCH", `/api/summaries/${summaryId}/transcript/speakers`, { from, to });
+      return response.json();
+    },
+    onSuccess: (transcript) => {
+      queryClient.setQueryData(["summaries", summaryId, "transcript"], transcript);
+      queryClient.invalidateQueries({ queryKey: ["summaries", summaryId, "analytics"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update speaker",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rename = (from: string) => {
+    const to = names[from]?.trim();
+    if (!to || to === from) {
+      setNames((current) => ({ ...current, [from]: from }));
+      return;
+    }
+    renameMutation.mutate({ from, to });
+  };
+
+  if (speakers.length === 0) return null;
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center">
+          <Users className="text-primary-600 mr-3 h-5 w-5" />
+          Speakers
+        </h3>
+        {!readOnly && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Rename speakers so the summary attributes statements to the right people. Renaming to an existing name merges the two.
+          </p>
+        )}
+        <div className="space-y-2">
+          {speakers.map((speaker) => (
+            <div key={speaker.name} className="flex items-center gap-3 text-sm">
+              {readOnly ? (
+                <span className="flex-1 text-gray-900 dark:text-white">{speaker.name}</span>
+              ) : (
+                <Input
+                  value={names[speaker.name] ?? speaker.name}
+                  onChange={(e) => setNames((current) => ({ ...current, [speaker.name]: e.target.value }))}
+                  onBlur={() => rename(speaker.name)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  disabled={renameMutation.isPending}
+                  className="h-8 flex-1 bg-white dark:bg-gray-700"
+                />
+              )}
+              <span className="w-16 text-right text-xs text-gray-500 dark:text-gray-400">
+                {speaker.segmentCount} {speaker.segmentCount === 1 ? "line" : "lines"}
+              </span>
+              {!readOnly && speakers.length > 1 && (
+                <Select
+                  value=""
+                  onValueChange={(to) => renameMutation.mutate({ from: speaker.name, to })}
+                  disabled={renameMutation.isPending}
+                >
+                  <SelectTrigger className="h-8 w-36 text-xs bg-white dark:bg-gray-700">
+                    <SelectValue placeholder="Merge into..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {speakers
+                      .filter((other) => other.name !== speaker.name)
+                      .map((other) => (
+                        <SelectItem key={other.name} value={other.name}>
+                          {other.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
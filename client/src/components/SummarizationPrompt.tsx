@@ -4,15 +4,20 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { describeProgress, useSummaryStream } from "@/hooks/useSummaryStream";
+import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest } from "@/lib/api";
-import { Sparkles, Zap } from "lucide-react";
+import type { TranscriptSegment } from "@shared/transcript";
+import { Sparkles, Square, Zap } from "lucide-react";
 
 interface SummarizationPromptProps {
   onPromptChange: (prompt: string, tone: string) => void;
   onGenerate: (summaryId: string) => void;
+  onStream?: (partialSummary: string) => void;
   transcript: string;
+  segments?: TranscriptSegment[] | null;
   prompt: string;
   tone: string;
 }
@@ -24,6 +29,26 @@ const promptTemplates = {
   custom: ""
 };
 
+interface ProviderOption {
+  name: string;
+  model: string;
+  configured: boolean;
+  isDefault: boolean;
+}
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  personal: boolean;
+  role: "owner" | "editor" | "viewer";
+}
+
+const providerLabels: Record<string, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible",
+  fixture: "Offline fixture",
+};
+
 const toneDescriptions = {
   professional: "Professional & Formal",
   casual: "Casual & Friendly", 
@@ -34,17 +59,58 @@ const toneDescriptions = {
 export default function SummarizationPrompt({ 
   onPromptChange, 
   onGenerate, 
+  onStream,
   transcript, 
+  segments,
   prompt, 
   tone 
 }: SummarizationPromptProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<keyof typeof promptTemplates>("custom");
+  const [workspaceId, setWorkspaceId] = useState("personal");
   const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: providers = [] } = useQuery<ProviderOption[]>({
+    queryKey: ["/api/providers"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/providers");
+      return response.json();
+    },
+  });
+
+  // Workspaces the user can add summaries to
+  const { data: workspaces = [] } = useQuery<WorkspaceOption[]>({
+    queryKey: ["/api/workspaces"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/workspaces");
+      return response.json();
+    },
+    select: (all) => all.filter((workspace) => workspace.role !== "viewer"),
+  });
+
+  const updateProviderMutation = useMutation({
+    mutationFn: async (llmProvider: string | null) => {
+      const response = await apiRequest("PATCH", "/api/auth/provider", { llmProvider });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to change AI provider",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
 
   const createSummaryMutation = useMutation({
-    mutationFn: async (data: { title: string; originalContent: string; prompt: string; tone: string }) => {
+    mutationFn: async (data: { title: string; originalContent: string; transcriptSegments?: TranscriptSegment[] | null; prompt: string; tone: string }) => {
       const response = await apiRequest("POST", "/api/summaries", {
         ...data,
+        workspaceId: workspaceId === "personal" ? undefined : workspaceId,
         summaryContent: "",
         wordCount: 0,
         status: "draft"
@@ -53,12 +119,7 @@ export default function SummarizationPrompt({
     },
   });
 
-  const generateSummaryMutation = useMutation({
-    mutationFn: async (summaryId: string) => {
-      const response = await apiRequest("POST", `/api/summaries/${summaryId}/generate`, {});
-      return response.json();
-    },
-  });
+  const summaryStream = useSummaryStream(onStream);
 
   const handleTemplateSelect = (template: keyof typeof promptTemplates) => {
     setSelectedTemplate(template);
@@ -92,12 +153,21 @@ export default function SummarizationPrompt({
       const summary = await createSummaryMutation.mutateAsync({
         title,
         originalContent: transcript,
+        transcriptSegments: segments,
         prompt,
         tone,
       });
 
-      // Then generate the AI summary
-      await generateSummaryMutation.mutateAsync(summary.id);
+      // Then stream the AI summary as it is generated
+      const generated = await summaryStream.start(summary.id);
+      if (!generated) {
+        onStream?.("");
+        toast({
+          title: "Generation cancelled",
+          description: "The summary was not generated",
+        });
+        return;
+      }
 
       toast({
         title: "Summary generated!",
@@ -114,7 +184,7 @@ export default function SummarizationPrompt({
     }
   };
 
-  const isLoading = createSummaryMutation.isPending || generateSummaryMutation.isPending;
+  const isLoading = createSummaryMutation.isPending || summaryStream.isStreaming;
 
   return (
     <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
@@ -185,15 +255,79 @@ export default function SummarizationPrompt({
           </Select>
         </div>
 
+        {/* Workspace Selection */}
+        {workspaces.length > 1 && (
+          <div className="mb-6">
+            <Label htmlFor="workspace-select" className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+              Workspace
+            </Label>
+            <Select value={workspaceId} onValueChange={setWorkspaceId}>
+              <SelectTrigger id="workspace-select" className="bg-white dark:bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace.id} value={workspace.personal ? "personal" : workspace.id}>
+                    {workspace.personal ? "Personal" : workspace.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Provider Selection */}
+        {providers.length > 0 && (
+          <div className="mb-6">
+            <Label htmlFor="provider-select" className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+              AI Provider
+            </Label>
+            <Select
+              value={user?.llmProvider || "default"}
+              onValueChange={(value) => updateProviderMutation.mutate(value === "default" ? null : value)}
+            >
+              <SelectTrigger id="provider-select" className="bg-white dark:bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">
+                  Deployment default ({providerLabels[providers.find(p => p.isDefault)?.name || ""] || "auto"})
+                </SelectItem>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.name} value={provider.name} disabled={!provider.configured}>
+                    {providerLabels[provider.name] || provider.name} · {provider.model}
+                    {!provider.configured && " (not configured)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Generate Button */}
-        <Button 
-          onClick={handleGenerate}
-          disabled={isLoading || !transcript.trim() || !prompt.trim()}
-          className="w-full bg-primary-600 hover:bg-primary-700 text-white font-medium py-3"
-        >
-          <Zap className="mr-2 h-4 w-4" />
-          {isLoading ? "Generating Summary..." : "Generate Summary"}
-        </Button>
+        {summaryStream.isStreaming ? (
+          <Button 
+            onClick={summaryStream.cancel}
+            variant="outline"
+            className="w-full border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 font-medium py-3"
+          >
+            <Square className="mr-2 h-4 w-4" />
+            Stop Generating (
+            {summaryStream.text
+              ? `${summaryStream.text.split(/\s+/).filter(Boolean).length} words so far`
+              : describeProgress(summaryStream.progress) || "waiting for model"}
+            )
+          </Button>
+        ) : (
+          <Button 
+            onClick={handleGenerate}
+            disabled={isLoading || !transcript.trim() || !prompt.trim()}
+            className="w-full bg-primary-600 hover:bg-primary-700 text-white font-medium py-3"
+          >
+            <Zap className="mr-2 h-4 w-4" />
+            {isLoading ? "Generating Summary..." : "Generate Summary"}
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import DiffView from "@/components/DiffView";
+import { diffLines } from "@shared/textDiff";
+import { GitMerge } from "lucide-react";
+
+export interface SummaryConflict {
+  mine: string;
+  theirs: {
+    summaryContent: string;
+    revision: number;
+    updatedAt: string;
+  };
+}
+
+interface SummaryConflictDialogProps {
+  conflict: SummaryConflict | null;
+  isSaving: boolean;
+  onKeepTheirs: () => void;
+  onSave: (content: string) => void;
+}
+
+export default function SummaryConflictDialog({ conflict, isSaving, onKeepTheirs, onSave }: SummaryConflictDialogProps) {
+  const lines = useMemo(
+    () => (conflict ? diffLines(conflict.theirs.summaryContent, conflict.mine) : []),
+    [conflict]
+  );
+  const [merged, setMerged] = useState("");
+
+  // Start the merge from every line of both versions, theirs before yours
+  // wherever they differ, so nothing is lost until the user deletes it
+  useEffect(() => {
+    setMerged(lines.map((line) => line.text).join("\n"));
+  }, [lines]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  return (
+    <Dialog open={true}>
+      <DialogContent className="max-w-6xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitMerge className="text-primary-600 mr-3 h-5 w-5" />
+            This summary was changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved a newer version at {new Date(conflict.theirs.updatedAt).toLocaleTimeString()} while you were
+            editing, in another tab or by a teammate. Your changes have not been saved yet. Choose a version or combine them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DiffView lines={lines} leftLabel="Saved version" rightLabel="Your version" className="max-h-[30vh]" />
+
+        <div>
+          <Label htmlFor="merged-summary" className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">
+            Merged result
+          </Label>
+          <Textarea
+            id="merged-summary"
+            value={merged}
+            onChange={(e) => setMerged(e.target.value)}
+            className="min-h-48 font-mono text-xs bg-white dark:bg-gray-700"
+          />
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-2">
+          <Button variant="outline" onClick={onKeepTheirs} disabled={isSaving}>
+            Discard mine, use saved
+          </Button>
+          <Button variant="outline" onClick={() => onSave(conflict.mine)} disabled={isSaving}>
+            Overwrite with mine
+          </Button>
+          <Button onClick={() => onSave(merged)} disabled={isSaving || !merged.trim()}>
+            Save merged
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,23 +1,35 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import VersionHistoryDialog from "@/components/VersionHistoryDialog";
+import SummaryConflictDialog, { type SummaryConflict } from "@/components/SummaryConflictDialog";
+import CollaboratorPresence from "@/components/CollaboratorPresence";
+import RemoteCursors from "@/components/RemoteCursors";
 import { useToast } from "@/hooks/use-toast";
 import { useAutosave } from "@/hooks/useAutosave";
-import { apiRequest } from "@/lib/api";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import { describeProgress, useSummaryStream } from "@/hooks/useSummaryStream";
+import { ApiError, apiRequest } from "@/lib/api";
+import { getCaretCoordinates } from "@/lib/caret";
+import { waitForJob } from "@/lib/jobs";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { transformSelection, type TextSelection } from "@shared/ot";
 import {
   Bold,
-  CheckCircle,
   Download,
   Edit3,
   FileText,
+  History,
   Italic,
   List,
   RefreshCw,
   Save,
+  Square,
 } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
 
 interface Summary {
   id: string;
@@ -27,21 +39,51 @@ interface Summary {
   tone: string;
   status: string;
   autoSaved: boolean;
+  revision: number;
+  updatedAt: string;
+  role: "owner" | "editor" | "viewer";
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
 }
 
 interface SummaryEditorProps {
   summaryId: string;
-  onApprove: () => void;
   onSummaryChange: (summary: string) => void;
+  // The selected passage, for anchoring comments to it
+  onSelectionChange?: (selection: (TextRange & { text: string }) | null) => void;
+  // Select and scroll to this passage (a new object each time it is requested)
+  focusRange?: TextRange | null;
+  // Offer to add speaker analytics to exports
+  hasSpeakers?: boolean;
 }
 
 export default function SummaryEditor({
   summaryId,
-  onApprove,
   onSummaryChange,
+  onSelectionChange,
+  focusRange,
+  hasSpeakers,
 }: SummaryEditorProps) {
   const [content, setContent] = useState("");
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [exportAnalytics, setExportAnalytics] = useState(false);
+  const [exporting, setExporting] = useState<"pdf" | "docx" | null>(null);
+  const [conflict, setConflict] = useState<SummaryConflict | null>(null);
+  // Revision and content of the last state known to match the server. Edits
+  // are sent with If-Match so a stale tab gets a conflict instead of overwriting.
+  const revisionRef = useRef<number | null>(null);
+  const syncedContentRef = useRef<string | null>(null);
+  const conflictRef = useRef(false);
+  conflictRef.current = !!conflict;
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelectionRef = useRef<TextSelection | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -55,30 +97,128 @@ export default function SummaryEditor({
     enabled: !!summaryId,
     retry: 2,
     staleTime: 30000,
+    refetchOnWindowFocus: true,
   });
 
+  const markSynced = useCallback((saved: Pick<Summary, "revision" | "summaryContent">) => {
+    revisionRef.current = saved.revision;
+    syncedContentRef.current = saved.summaryContent;
+  }, []);
+
+  // Live editing with everyone else who has this summary open. While
+  // connected, edits travel as operations and the server saves the merged
+  // document, so the REST autosave below stands down.
+  const textareaSelection = (): TextSelection | null => {
+    const textarea = textareaRef.current;
+    if (!textarea || document.activeElement !== textarea) return null;
+    return { anchor: textarea.selectionStart, head: textarea.selectionEnd };
+  };
+
+  const collaboration = useCollaboration(
+    summaryId,
+    {
+      onSync: (doc, saved) => {
+        if (saved) markSynced(saved);
+        if (isStreamingRef.current) return;
+        // Edits that were never saved (e.g. typed while disconnected) are
+        // replayed on top of the live document instead of being dropped
+        const local = contentRef.current;
+        if (!saved && local !== doc && local !== syncedContentRef.current) {
+          collaboration.edit(local, textareaSelection());
+          return;
+        }
+        setContent(doc);
+      },
+      onRemoteEdit: (doc, operation) => {
+        if (isStreamingRef.current) return;
+        const selection = textareaSelection();
+        pendingSelectionRef.current = selection && transformSelection(selection, operation);
+        setContent(doc);
+      },
+      onSaved: (saved) => {
+        markSynced(saved);
+        setLastSaved(new Date());
+        queryClient.setQueryData<Summary>(["summaries", summaryId], (current) => current && { ...current, ...saved } as Summary);
+      },
+    },
+    !!summary && summary.role !== "viewer"
+  );
+  const collaboratingRef = useRef(false);
+  collaboratingRef.current = collaboration.status === "connected";
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!focusRange || !textarea) return;
+    const end = Math.min(focusRange.end, textarea.value.length);
+    textarea.focus();
+    textarea.setSelectionRange(Math.min(focusRange.start, end), end);
+    textarea.scrollTop = Math.max(0, getCaretCoordinates(textarea, focusRange.start).top - textarea.clientHeight / 3);
+  }, [focusRange]);
+
+  // Keep the local caret in place when a remote edit replaces the text
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && textareaRef.current) {
+      textareaRef.current.setSelectionRange(
+        Math.min(selection.anchor, selection.head),
+        Math.max(selection.anchor, selection.head)
+      );
+    }
+    pendingSelectionRef.current = null;
+  }, [content]);
+
+  // Conditional PATCH. If the server copy changed only in metadata (e.g. its
+  // status) and still has the content this editor started from, there is
+  // nothing to merge, so the edit is retried against the new revision. During
+  // live editing the session has already merged everyone's changes.
+  const patchSummary = async (data: Record<string, unknown>): Promise<Summary> => {
+    const send = async () => {
+      const response = await apiRequest(
+        "PATCH",
+        `/api/summaries/${summaryId}`,
+        data,
+        revisionRef.current !== null && !collaboratingRef.current
+          ? { "If-Match": `"${revisionRef.current}"` }
+          : undefined
+      );
+      return response.json();
+    };
+
+    try {
+      return await send();
+    } catch (error) {
+      const current = error instanceof ApiError && error.status === 409 ? error.data.summary : null;
+      if (current && current.summaryContent === syncedContentRef.current) {
+        revisionRef.current = current.revision;
+        return await send();
+      }
+      throw error;
+    }
+  };
+
+  const onConflict = (error: unknown, mine: string) => {
+    if (error instanceof ApiError && error.status === 409) {
+      setConflict({ mine, theirs: error.data.summary });
+      return true;
+    }
+    return false;
+  };
+
   // Update summary mutation
   const updateSummaryMutation = useMutation({
     mutationFn: async (data: {
       summaryContent: string;
       wordCount: number;
       autoSaved: boolean;
-    }) => {
-      const response = await apiRequest(
-        "PATCH",
-        `/api/summaries/${summaryId}`,
-        data
-      );
-      if (!response.ok) {
-        throw new Error("Failed to update summary");
-      }
-      return response.json();
-    },
-    onSuccess: () => {
+    }) => patchSummary(data),
+    onSuccess: (saved: Summary) => {
+      markSynced(saved);
       setLastSaved(new Date());
       queryClient.invalidateQueries({ queryKey: ["summaries", summaryId] });
     },
     onError: (error: Error) => {
+      // Conflicts are resolved in the merge dialog rather than reported as failures
+      if (error instanceof ApiError && error.status === 409) return;
       toast({
         title: "Error saving summary",
         description: error.message,
@@ -87,56 +227,56 @@ export default function SummaryEditor({
     },
   });
 
-  // Approve summary mutation
-  const approveSummaryMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest(
-        "PATCH",
-        `/api/summaries/${summaryId}`,
-        {
-          status: "approved",
-        }
-      );
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Summary approved!",
-        description: "Your summary is ready to be shared",
-      });
-      onApprove();
-      queryClient.invalidateQueries({
-        queryKey: ["/api/summaries", summaryId],
-      });
-    },
-  });
+  // Regenerate summary via the streaming endpoint, rendering text as it arrives
+  const summaryStream = useSummaryStream(setContent);
+  const isStreamingRef = useRef(false);
+  isStreamingRef.current = summaryStream.isStreaming;
 
-  // Regenerate summary mutation
-  const regenerateMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest(
-        "POST",
-        `/api/summaries/${summaryId}/generate`
-      );
-      return response.json();
-    },
-    onSuccess: (data) => {
+  const handleRegenerate = async () => {
+    const previousContent = content;
+    try {
+      const data = await summaryStream.start(summaryId);
+      if (!data) {
+        setContent(previousContent);
+        toast({
+          title: "Regeneration cancelled",
+          description: "Your previous summary was kept",
+        });
+        return;
+      }
+
+      markSynced(data);
       setContent(data.summaryContent);
       toast({
         title: "Summary regenerated!",
         description: "A new AI summary has been generated",
       });
       queryClient.invalidateQueries({
-        queryKey: ["/api/summaries", summaryId],
+        queryKey: ["summaries", summaryId],
       });
-    },
-  });
+    } catch (error: any) {
+      setContent(previousContent);
+      toast({
+        title: "Regeneration failed",
+        description: error.message || "Failed to generate summary",
+        variant: "destructive",
+      });
+    }
+  };
 
   // File export handlers with error handling
+  // Rendering runs as a background job; the file is downloaded once it is done
   const handleExport = async (format: "pdf" | "docx") => {
+    setExporting(format);
     try {
+      const queued = await apiRequest("POST", `/api/summaries/${summaryId}/exports`, {
+        format,
+        analytics: !!hasSpeakers && exportAnalytics,
+      });
+      const job = await waitForJob(await queued.json());
+
       const response = await fetch(
-        `/api/summaries/${summaryId}/export/${format}`,
+        `/api/jobs/${job.id}/download`,
         {
           headers: {
             Authorization: `Bearer ${localStorage.getItem("auth-token")}`,
@@ -169,13 +309,19 @@ export default function SummaryEditor({
           error instanceof Error ? error.message : "Unknown error occurred",
         variant: "destructive",
       });
+    } finally {
+      setExporting(null);
     }
   };
 
   // Memoized save handler
   const saveContent = useCallback(
     async (contentToSave: string) => {
-      if (!contentToSave.trim()) return;
+      // Partial text from an in-flight generation is never autosaved, and
+      // nothing is saved while a conflict is waiting to be resolved or while
+      // the live session is saving on everyone's behalf
+      if (!contentToSave.trim() || isStreamingRef.current || conflictRef.current || collaboratingRef.current) return;
+      if (contentToSave === syncedContentRef.current) return;
 
       const wordCount = contentToSave
         .split(/\s+/)
@@ -187,7 +333,9 @@ export default function SummaryEditor({
           autoSaved: true,
         });
       } catch (error) {
-        console.error("Failed to save content:", error);
+        if (!onConflict(error, contentToSave)) {
+          console.error("Failed to save content:", error);
+        }
       }
     },
     [updateSummaryMutation]
@@ -196,6 +344,57 @@ export default function SummaryEditor({
   // Autosave setup
   useAutosave(content, saveContent, 2000);
 
+  // An explicit save is kept as its own entry in the version history
+  const handleSaveVersion = async () => {
+    const wordCount = content
+      .split(/\s+/)
+      .filter((word) => word.length > 0).length;
+    try {
+      await updateSummaryMutation.mutateAsync({
+        summaryContent: content,
+        wordCount,
+        autoSaved: false,
+      });
+      toast({
+        title: "Version saved",
+        description: "You can compare or restore it from the history",
+      });
+    } catch (error) {
+      if (!onConflict(error, content)) {
+        console.error("Failed to save version:", error);
+      }
+    }
+  };
+
+  const resolveWithTheirs = () => {
+    if (!conflict) return;
+    markSynced(conflict.theirs);
+    setContent(conflict.theirs.summaryContent);
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["summaries", summaryId] });
+  };
+
+  // Save the chosen or merged text on top of the revision the user just reviewed
+  const resolveWithContent = async (resolved: string) => {
+    if (!conflict) return;
+    markSynced(conflict.theirs);
+    const wordCount = resolved
+      .split(/\s+/)
+      .filter((word) => word.length > 0).length;
+    try {
+      await updateSummaryMutation.mutateAsync({
+        summaryContent: resolved,
+        wordCount,
+        autoSaved: false,
+      });
+      setConflict(null);
+      setContent(resolved);
+    } catch (error) {
+      // A further conflict replaces the dialog contents with the newest copy
+      onConflict(error, resolved);
+    }
+  };
+
   // Content initialization
   useEffect(() => {
     if (summary?.summaryContent && !content) {
@@ -203,6 +402,18 @@ export default function SummaryEditor({
     }
   }, [summary, content]);
 
+  // Track the server revision. A newer revision fetched while there are no
+  // unsaved local edits (e.g. after switching back to this tab) is adopted.
+  useEffect(() => {
+    if (!summary || collaboratingRef.current) return;
+    if (revisionRef.current === null) {
+      markSynced(summary);
+    } else if (summary.revision > revisionRef.current && content === syncedContentRef.current && !isStreamingRef.current) {
+      markSynced(summary);
+      setContent(summary.summaryContent);
+    }
+  }, [summary, content, markSynced]);
+
   // Parent notification
   useEffect(() => {
     onSummaryChange(content);
@@ -219,9 +430,14 @@ export default function SummaryEditor({
   const wordCount = content
     .split(/\s+/)
     .filter((word) => word.length > 0).length;
-  const isLoading_operations = updateSummaryMutation.isPending;
+  const isLoading_operations = updateSummaryMutation.isPending || summaryStream.isStreaming;
+  // Workspace viewers can read and export but not change the summary
+  const readOnly = summary?.role === "viewer";
 
   const getSaveStatus = () => {
+    if (summaryStream.isStreaming) {
+      return summaryStream.text ? "Generating..." : describeProgress(summaryStream.progress) || "Generating...";
+    }
     if (updateSummaryMutation.isPending) return "Saving...";
     if (lastSaved) return "Saved";
     return summary?.autoSaved ? "Saved" : "Not saved";
@@ -236,8 +452,31 @@ export default function SummaryEditor({
             3. Review & Edit Summary
           </h3>
           <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
-            <Save className="h-4 w-4" />
-            <span>{getSaveStatus()}</span>
+            <CollaboratorPresence status={collaboration.status} collaborators={collaboration.collaborators} />
+            {readOnly ? (
+              <Badge variant="outline" className="text-xs">View only</Badge>
+            ) : (
+              <>
+                <Save className="h-4 w-4" />
+                <span>{getSaveStatus()}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleSaveVersion}
+                  disabled={isLoading_operations || !content.trim()}
+                >
+                  Save version
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(true)}
+              title="Version history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
           </div>
         </div>
 
@@ -292,56 +531,122 @@ export default function SummaryEditor({
             </div>
           </div>
 
-          <Textarea
-            className="min-h-96 border-0 focus:ring-0 resize-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-none"
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Your AI-generated summary will appear here..."
-          />
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              className="min-h-96 border-0 focus:ring-0 resize-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-none"
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                collaboration.edit(e.target.value, {
+                  anchor: e.target.selectionStart,
+                  head: e.target.selectionEnd,
+                });
+              }}
+              onSelect={(e) => {
+                const { selectionStart, selectionEnd, value } = e.currentTarget;
+                collaboration.select({ anchor: selectionStart, head: selectionEnd });
+                onSelectionChange?.(
+                  selectionStart < selectionEnd
+                    ? { start: selectionStart, end: selectionEnd, text: value.slice(selectionStart, selectionEnd) }
+                    : null
+                );
+              }}
+              onBlur={() => collaboration.select(null)}
+              onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+              readOnly={summaryStream.isStreaming || readOnly}
+              placeholder="Your AI-generated summary will appear here..."
+            />
+            <RemoteCursors
+              textareaRef={textareaRef}
+              collaborators={collaboration.collaborators}
+              content={content}
+              scrollTop={scrollTop}
+            />
+          </div>
         </div>
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4">
-          <Button
-            onClick={() => approveSummaryMutation.mutate()}
-            disabled={isLoading_operations || !content.trim()}
-            className="flex-1 bg-green-600 hover:bg-green-700 text-white font-medium py-3"
-          >
-            <CheckCircle className="mr-2 h-4 w-4" />
-            Approve Summary
-          </Button>
-
-          <Button
-            onClick={() => regenerateMutation.mutate()}
-            disabled={isLoading_operations}
-            variant="outline"
-            className="flex-1 border-primary-600 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 font-medium py-3"
-          >
-            <RefreshCw className="mr-2 h-4 w-4" />
-            Regenerate
-          </Button>
+          {!readOnly && (
+            <>
+              {summaryStream.isStreaming ? (
+                <Button
+                  onClick={summaryStream.cancel}
+                  variant="outline"
+                  className="flex-1 border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 font-medium py-3"
+                >
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop Generating
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleRegenerate}
+                  disabled={isLoading_operations}
+                  variant="outline"
+                  className="flex-1 border-primary-600 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 font-medium py-3"
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Regenerate
+                </Button>
+              )}
+            </>
+          )}
 
           <div className="flex gap-2">
             <Button
               onClick={() => handleExport("pdf")}
               variant="outline"
               className="px-6 py-3"
-              disabled={isLoading_operations || !content.trim()}
+              disabled={isLoading_operations || !content.trim() || !!exporting}
             >
               <FileText className="mr-2 h-4 w-4" />
-              Export PDF
+              {exporting === "pdf" ? "Exporting..." : "Export PDF"}
             </Button>
             <Button
               onClick={() => handleExport("docx")}
               variant="outline"
               className="px-6 py-3"
-              disabled={isLoading_operations || !content.trim()}
+              disabled={isLoading_operations || !content.trim() || !!exporting}
             >
               <Download className="mr-2 h-4 w-4" />
-              Export DOCX
+              {exporting === "docx" ? "Exporting..." : "Export DOCX"}
             </Button>
           </div>
         </div>
+
+        {hasSpeakers && (
+          <div className="flex items-center justify-end space-x-2 mt-3">
+            <Checkbox
+              id="exportAnalytics"
+              checked={exportAnalytics}
+              onCheckedChange={(checked) => setExportAnalytics(checked as boolean)}
+            />
+            <Label
+              htmlFor="exportAnalytics"
+              className="text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+            >
+              Include speaker analytics in exports
+            </Label>
+          </div>
+        )}
+
+        <VersionHistoryDialog
+          summaryId={summaryId}
+          readOnly={readOnly}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestore={(restored) => {
+            markSynced(restored);
+            setContent(restored.summaryContent);
+          }}
+        />
+        <SummaryConflictDialog
+          conflict={conflict}
+          isSaving={updateSummaryMutation.isPending}
+          onKeepTheirs={resolveWithTheirs}
+          onSave={resolveWithContent}
+        />
       </CardContent>
     </Card>
   );
@@ -1,4 +1,5 @@
 import { Card, CardContent } from "@/components/ui/card";
+import { formatSummaryHtml } from "@/lib/formatSummary";
 import { Eye, FileText } from "lucide-react";
 
 interface SummaryPreviewProps {
@@ -9,9 +10,10 @@ interface SummaryPreviewProps {
     wordCount: number;
     tone: string;
   };
+  isStreaming?: boolean;
 }
 
-export default function SummaryPreview({ content, title, metadata }: SummaryPreviewProps) {
+export default function SummaryPreview({ content, title, metadata, isStreaming }: SummaryPreviewProps) {
   if (!content) {
     return (
       <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
@@ -29,24 +31,18 @@ export default function SummaryPreview({ content, title, metadata }: SummaryPrev
     );
   }
 
-  // Convert content for professional display
-  const formatContent = (text: string) => {
-    return text
-      .replace(/#{1,6}\s*(.*)/g, '<h3 class="text-lg font-semibold text-gray-800 dark:text-gray-200 mt-4 mb-2">$1</h3>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold text-gray-800 dark:text-gray-200">$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em class="italic text-gray-700 dark:text-gray-300">$1</em>')
-      .replace(/`([^`]+)`/g, '<code class="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
-      .replace(/^[-*+]\s+(.*)$/gm, '<li class="ml-4 mb-1">• $1</li>')
-      .replace(/\n\n/g, '</p><p class="mb-4 text-gray-700 dark:text-gray-300 leading-relaxed">')
-      .replace(/\n/g, '<br>');
-  };
-
   return (
     <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
       <CardContent className="p-6">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
           <Eye className="text-primary-600 mr-3 h-5 w-5" />
           Professional Preview
+          {isStreaming && (
+            <span className="ml-auto flex items-center text-xs font-normal text-primary-600">
+              <span className="w-2 h-2 bg-primary-600 rounded-full animate-pulse mr-2" />
+              Generating live...
+            </span>
+          )}
         </h3>
         
         {/* Preview Container with White Background */}
@@ -68,10 +64,11 @@ export default function SummaryPreview({ content, title, metadata }: SummaryPrev
           {/* Content */}
           <div 
             className="prose prose-sm max-w-none text-gray-700 leading-relaxed"
-            dangerouslySetInnerHTML={{ 
-              __html: `<p class="mb-4 text-gray-700 leading-relaxed">${formatContent(content)}</p>`
-            }}
+            dangerouslySetInnerHTML={{ __html: formatSummaryHtml(content) }}
           />
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle" />
+          )}
         </div>
         
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-3 text-center">
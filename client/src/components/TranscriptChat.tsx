@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Loader2, MessagesSquare, Send, Trash2 } from "lucide-react";
+
+interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  excerpts: { quote: string; line: number }[];
+  createdAt: string;
+}
+
+interface TranscriptChatProps {
+  summaryId: string;
+  readOnly?: boolean; // workspace viewers can ask but not clear the shared conversation
+}
+
+export default function TranscriptChat({ summaryId, readOnly = false }: TranscriptChatProps) {
+  const [message, setMessage] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const chatKey = ["summaries", summaryId, "chat"];
+
+  const { data: messages = [] } = useQuery<ChatMessage[]>({
+    queryKey: chatKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/chat`);
+      return response.json();
+    },
+    enabled: !!summaryId,
+  });
+
+  const askMutation = useMutation({
+    mutationFn: async (text: string): Promise<ChatMessage[]> => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/chat`, { message: text });
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      setMessage("");
+      queryClient.setQueryData<ChatMessage[]>(chatKey, (current = []) => [...current, ...saved]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't answer that",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/summaries/${summaryId}/chat`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<ChatMessage[]>(chatKey, []);
+    },
+  });
+
+  // Keep the latest exchange in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
+  }, [messages.length, askMutation.isPending]);
+
+  const send = () => {
+    const text = message.trim();
+    if (text && !askMutation.isPending) {
+      askMutation.mutate(text);
+    }
+  };
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <MessagesSquare className="text-primary-600 mr-3 h-5 w-5" />
+            Ask About This Meeting
+          </h3>
+          {messages.length > 0 && !readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending}
+              title="Clear conversation"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div ref={scrollRef} className="max-h-96 overflow-y-auto space-y-3 mb-4">
+          {messages.length === 0 && !askMutation.isPending && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Ask a follow-up question, like "what exactly did they say about the budget?"
+            </p>
+          )}
+
+          {messages.map((chatMessage) =>
+            chatMessage.role === "user" ? (
+              <div key={chatMessage.id} className="flex justify-end">
+                <div className="max-w-[85%] rounded-lg bg-primary-600 text-white px-3 py-2 text-sm">
+                  {chatMessage.content}
+                </div>
+              </div>
+            ) : (
+              <div key={chatMessage.id} className="max-w-[95%] rounded-lg bg-gray-50 dark:bg-gray-700 px-3 py-2 text-sm">
+                <p className="text-gray-900 dark:text-white whitespace-pre-wrap">{chatMessage.content}</p>
+                {chatMessage.excerpts.map((excerpt, index) => (
+                  <a
+                    key={index}
+                    href={`#line-${excerpt.line}`}
+                    className="mt-2 block border-l-2 border-primary-600 pl-2 text-xs italic text-gray-600 dark:text-gray-300 hover:text-primary-600"
+                    title={`Go to transcript line ${excerpt.line}`}
+                  >
+                    "{excerpt.quote}"
+                    <span className="not-italic text-gray-400 ml-1">line {excerpt.line}</span>
+                  </a>
+                ))}
+              </div>
+            )
+          )}
+
+          {askMutation.isPending && (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Reading the transcript...
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Input
+            placeholder="Ask a question..."
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && send()}
+            className="bg-white dark:bg-gray-700"
+          />
+          <Button onClick={send} disabled={!message.trim() || askMutation.isPending} title="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
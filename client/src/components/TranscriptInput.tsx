@@ -11,10 +11,29 @@ import {
   Trash2,
   Upload,
 } from "lucide-react";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import { waitForJob, type Job } from "@/lib/jobs";
+import type { TranscriptSegment } from "@shared/transcript";
+
+interface TranscribedFile {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+const documentExtensions = [".pdf", ".txt", ".docx", ".vtt", ".srt"];
+const mediaExtensions = [".mp3", ".m4a", ".wav", ".ogg", ".flac", ".webm", ".mp4", ".mov", ".mkv"];
+const DOCUMENT_SIZE_LIMIT = 10 * 1024 * 1024;
+const MEDIA_SIZE_LIMIT = 500 * 1024 * 1024;
+
+function describeTranscription(job: Job<TranscribedFile>) {
+  if (job.status === "queued") return job.attempts > 0 ? "Retrying..." : "Waiting for the transcriber...";
+  return `Transcribing... ${job.progress}%`;
+}
 
 interface TranscriptInputProps {
-  onTranscriptChange: (transcript: string, filename?: string) => void;
+  // Segments come with uploaded files and are dropped once the text is edited
+  onTranscriptChange: (transcript: string, filename?: string, segments?: TranscriptSegment[] | null) => void;
   transcript: string;
   filename: string;
 }
@@ -28,6 +47,11 @@ export default function TranscriptInput({
   const [dragActive, setDragActive] = useState(false);
   const { toast } = useToast();
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [transcription, setTranscription] = useState<Job<TranscribedFile> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop following the transcription job on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleFileUpload = useCallback(
     async (file: File) => {
@@ -36,27 +60,23 @@ export default function TranscriptInput({
       // Reset error state
       setUploadError(null);
 
-      // Validate file type with more robust checking
-      const allowedTypes = [
-        "application/pdf",
-        "text/plain",
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      ];
-      if (!allowedTypes.includes(file.type)) {
+      // Caption files have no reliable MIME type, so check the extension
+      const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      const isMedia = mediaExtensions.includes(extension);
+      if (!documentExtensions.includes(extension) && !isMedia) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF, TXT, or DOCX file",
+          description: "Please upload a PDF, TXT, DOCX, VTT or SRT file, or an audio/video recording",
           variant: "destructive",
         });
         return;
       }
 
-      // Validate file size (increased to 20MB for larger PDFs)
-      const maxSize = 20 * 1024 * 1024; // 20MB
+      const maxSize = isMedia ? MEDIA_SIZE_LIMIT : DOCUMENT_SIZE_LIMIT;
       if (file.size > maxSize) {
         toast({
           title: "File too large",
-          description: "Please upload a file smaller than 20MB",
+          description: `Please upload a file smaller than ${maxSize / (1024 * 1024)}MB`,
           variant: "destructive",
         });
         return;
@@ -81,20 +101,28 @@ export default function TranscriptInput({
           throw new Error(error.message || "Upload failed");
         }
 
-        const data = await response.json();
+        let data = await response.json();
+
+        // Recordings are transcribed in the background
+        if (response.status === 202) {
+          abortRef.current = new AbortController();
+          const job = await waitForJob<TranscribedFile>(data, {
+            onUpdate: setTranscription,
+            signal: abortRef.current.signal,
+          });
+          data = job.result;
+        }
 
         // Validate extracted text
         if (!data.text || data.text.trim().length === 0) {
           throw new Error("No text could be extracted from the file");
         }
 
-        onTranscriptChange(data.text, file.name);
+        onTranscriptChange(data.text, file.name, data.segments);
 
         toast({
           title: "File processed successfully",
-          description: `Extracted ${data.text.split(/\s+/).length} words from ${
-            file.name
-          }`,
+          description: `Extracted ${data.text.split(/\s+/).length} words from ${file.name}`,
         });
       } catch (error: any) {
         setUploadError(error.message);
@@ -105,6 +133,7 @@ export default function TranscriptInput({
         });
       } finally {
         setIsUploading(false);
+        setTranscription(null);
       }
     },
     [onTranscriptChange, toast]
@@ -203,24 +232,30 @@ export default function TranscriptInput({
                     <CloudUpload className="h-16 w-16 text-gray-400 dark:text-gray-500 mx-auto mb-4" />
                   )}
                   <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                    {isUploading
+                    {transcription
+                      ? describeTranscription(transcription)
+                      : isUploading
                       ? "Processing..."
                       : "Drop your transcript here"}
                   </p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                    {isUploading
-                      ? "Please wait while we process your file"
-                      : "Or click to browse files"}
-                  </p>
+                  {transcription ? (
+                    <Progress value={transcription.progress} className="mb-4" />
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                      {isUploading
+                        ? "Please wait while we process your file"
+                        : "Or click to browse files"}
+                    </p>
+                  )}
                   <p className="text-xs text-gray-400 dark:text-gray-500">
-                    Supports .pdf, .docx, .txt files up to 10MB
+                    Supports .pdf, .docx, .txt and .vtt/.srt caption files up to 10MB, and audio or video recordings up to 500MB
                   </p>
                 </div>
                 <input
                   id="file-upload"
                   type="file"
                   className="hidden"
-                  accept=".pdf,.docx,.txt"
+                  accept={[...documentExtensions, ...mediaExtensions].join(",")}
                   onChange={handleFileInput}
                   disabled={isUploading}
                 />
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatTimestamp, type TranscriptSegment } from "@shared/transcript";
+import { FileText } from "lucide-react";
+
+interface TranscriptViewerProps {
+  transcript: string;
+  highlightLine?: number | null;
+  // Segmented transcripts show each line's time and speaker as edited
+  segments?: TranscriptSegment[] | null;
+}
+
+export default function TranscriptViewer({ transcript, highlightLine, segments }: TranscriptViewerProps) {
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // Bring the referenced line into view when opened from an action item
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightLine]);
+
+  const lines = transcript.split(/\r?\n/);
+  const segmentsByLine = new Map((segments || []).map((segment) => [segment.line, segment]));
+  // Name the speaker where a turn starts, not on every line of it
+  const gutterWidth = segments?.some((segment) => segment.startMs !== null) ? "w-16" : "w-10";
+  const turnStarts = new Set(
+    (segments || [])
+      .filter((segment, index, all) => segment.speaker && segment.speaker !== all[index - 1]?.speaker)
+      .map((segment) => segment.line)
+  );
+
+  return (
+    <Card className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+          <FileText className="text-primary-600 mr-3 h-5 w-5" />
+          Transcript
+        </h3>
+        <div className="max-h-[32rem] overflow-y-auto bg-gray-50 dark:bg-gray-700 rounded-lg py-2 font-mono text-xs">
+          {lines.map((line, index) => {
+            const lineNumber = index + 1;
+            const isHighlighted = lineNumber === highlightLine;
+            const segment = segmentsByLine.get(lineNumber);
+            return (
+              <div
+                key={lineNumber}
+                id={`line-${lineNumber}`}
+                ref={isHighlighted ? highlightRef : undefined}
+                className={`flex px-2 ${
+                  isHighlighted ? "bg-yellow-100 dark:bg-yellow-900/40" : ""
+                }`}
+              >
+                {segment ? (
+                  <>
+                    <span className={`${gutterWidth} shrink-0 text-right pr-3 text-gray-400 select-none`} title={`Line ${lineNumber}`}>
+                      {segment.startMs !== null ? formatTimestamp(segment.startMs) : lineNumber}
+                    </span>
+                    <span className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                      {turnStarts.has(lineNumber) && (
+                        <span className="font-semibold text-gray-900 dark:text-white">{segment.speaker}: </span>
+                      )}
+                      {segment.text}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <span className={`${gutterWidth} shrink-0 text-right pr-3 text-gray-400 select-none`}>
+                      {lineNumber}
+                    </span>
+                    <span className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                      {line || " "}
+                    </span>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
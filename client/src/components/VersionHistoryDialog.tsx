@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DiffView from "@/components/DiffView";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { DiffLine } from "@shared/textDiff";
+import { History, RotateCcw } from "lucide-react";
+
+interface SummaryVersion {
+  id: string;
+  version: number;
+  wordCount: number;
+  source: "ai" | "manual" | "autosave";
+  authorName: string | null;
+  tone: string | null;
+  model: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface VersionHistoryDialogProps {
+  summaryId: string;
+  readOnly?: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (summary: { summaryContent: string; revision: number }) => void;
+}
+
+const sourceLabels = {
+  ai: "AI generation",
+  manual: "Saved",
+  autosave: "Autosave",
+};
+
+const sourceStyles = {
+  ai: "bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300",
+  manual: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  autosave: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+};
+
+export default function VersionHistoryDialog({ summaryId, readOnly = false, open, onOpenChange, onRestore }: VersionHistoryDialogProps) {
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("current");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [] } = useQuery<SummaryVersion[]>({
+    queryKey: ["summaries", summaryId, "versions"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/versions`);
+      return response.json();
+    },
+    enabled: open && !!summaryId,
+    staleTime: 0,
+  });
+
+  // Default to comparing the most recent version with the editor's content
+  useEffect(() => {
+    if (open && versions.length > 0 && !versions.some((version) => String(version.version) === from)) {
+      setFrom(String(versions[0].version));
+      setTo("current");
+    }
+  }, [open, versions, from]);
+
+  const { data: diff } = useQuery<{ lines: DiffLine[] }>({
+    queryKey: ["summaries", summaryId, "versions", "diff", from, to],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${summaryId}/versions/diff?from=${from}&to=${to}`);
+      return response.json();
+    },
+    enabled: open && !!from,
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/summaries/${summaryId}/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (summary, version) => {
+      queryClient.invalidateQueries({ queryKey: ["summaries", summaryId] });
+      onRestore(summary);
+      onOpenChange(false);
+      toast({
+        title: `Restored version ${version}`,
+        description: "The previous content is still available in the history",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore failed",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versionLabel = (value: string) => (value === "current" ? "Current" : `Version ${value}`);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="text-primary-600 mr-3 h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every AI generation and save is kept. Compare any two versions and restore one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+            No versions yet. Versions are recorded when the summary is generated or saved.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {/* Version list */}
+            <div className="max-h-[60vh] overflow-y-auto space-y-2 pr-1">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => setFrom(String(version.version))}
+                  className={`w-full text-left rounded-lg border p-3 text-sm ${
+                    from === String(version.version)
+                      ? "border-primary-600 bg-primary-50 dark:bg-primary-900/20"
+                      : "border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900 dark:text-white">v{version.version}</span>
+                    <Badge variant="outline" className={`text-xs border-0 ${sourceStyles[version.source]}`}>
+                      {sourceLabels[version.source]}
+                    </Badge>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(version.updatedAt).toLocaleString()}
+                    {version.authorName && ` · ${version.authorName}`}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {version.wordCount} words
+                    {version.source === "ai" && version.tone && ` · ${version.tone}`}
+                    {version.restoredFrom && ` · restored from v${version.restoredFrom}`}
+                  </div>
+                  {version.model && (
+                    <div className="text-xs text-gray-400 truncate">{version.model}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side comparison */}
+            <div className="md:col-span-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-gray-500 dark:text-gray-400">compared with</span>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current</SelectItem>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!readOnly && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="ml-auto"
+                    disabled={!from || restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate(parseInt(from, 10))}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore {versionLabel(from)}
+                  </Button>
+                )}
+              </div>
+
+              {diff && (
+                <DiffView lines={diff.lines} leftLabel={versionLabel(from)} rightLabel={versionLabel(to)} />
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ interface User {
   email: string;
   fullName: string;
   theme: string;
+  llmProvider: string | null;
 }
 
 interface AuthContextType {
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ACCESS_REVOKED_CLOSE_CODE,
+  COLLABORATION_PATH,
+  type Collaborator,
+  type CollaborationClientMessage,
+  type CollaborationServerMessage,
+  type PersistedSummary,
+} from "@shared/collaboration";
+import {
+  applyOperation,
+  compose,
+  isNoop,
+  operationFromDiff,
+  transform,
+  transformSelection,
+  type TextOperation,
+  type TextSelection,
+} from "@shared/ot";
+
+export type CollaborationStatus = "connecting" | "connected" | "offline";
+
+interface CollaborationHandlers {
+  // The whole document was (re)loaded from the server: on connect or after a reset
+  onSync: (doc: string, summary?: PersistedSummary) => void;
+  // Another editor's change, already transformed against local pending edits
+  onRemoteEdit: (doc: string, operation: TextOperation) => void;
+  // The merged document was written to summary storage
+  onSaved: (summary: PersistedSummary) => void;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+// Client half of the collaboration protocol. At most one local operation is
+// in flight; edits made while waiting for its acknowledgement are composed
+// into a buffer, and remote operations are transformed past both.
+export function useCollaboration(summaryId: string, handlers: CollaborationHandlers, enabled = true) {
+  const [status, setStatus] = useState<CollaborationStatus>("connecting");
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const docRef = useRef("");
+  const revisionRef = useRef(0);
+  const outstandingRef = useRef<TextOperation | null>(null);
+  const bufferRef = useRef<TextOperation | null>(null);
+  const selectionRef = useRef<TextSelection | null>(null);
+  const connectedRef = useRef(false);
+
+  const send = (message: CollaborationClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  const sendOperation = (operation: TextOperation) => {
+    outstandingRef.current = operation;
+    send({ type: "op", revision: revisionRef.current, operation, selection: selectionRef.current });
+  };
+
+  // Remote cursors are kept in local coordinates, so they move with every edit
+  const shiftSelections = (operation: TextOperation, exceptClientId?: string) => {
+    setCollaborators((current) =>
+      current.map((collaborator) =>
+        collaborator.selection && collaborator.clientId !== exceptClientId
+          ? { ...collaborator, selection: transformSelection(collaborator.selection, operation) }
+          : collaborator
+      )
+    );
+  };
+
+  // A position reported by the server, moved past edits it has not seen yet
+  const toLocal = (selection: TextSelection | null) => {
+    if (!selection) return null;
+    let local = selection;
+    if (outstandingRef.current) local = transformSelection(local, outstandingRef.current);
+    if (bufferRef.current) local = transformSelection(local, bufferRef.current);
+    return local;
+  };
+
+  const receive = (message: CollaborationServerMessage) => {
+    switch (message.type) {
+      case "init":
+      case "reset":
+        docRef.current = message.doc;
+        revisionRef.current = message.revision;
+        outstandingRef.current = null;
+        bufferRef.current = null;
+        if (message.type === "init") {
+          connectedRef.current = true;
+          setCollaborators(message.collaborators);
+          setStatus("connected");
+        }
+        handlersRef.current.onSync(message.doc, message.type === "reset" ? message.summary : undefined);
+        break;
+
+      case "ack":
+        revisionRef.current = message.revision;
+        outstandingRef.current = null;
+        if (bufferRef.current) {
+          const buffered = bufferRef.current;
+          bufferRef.current = null;
+          sendOperation(buffered);
+        }
+        break;
+
+      case "op": {
+        revisionRef.current = message.revision;
+        let operation = message.operation;
+        if (outstandingRef.current) {
+          [outstandingRef.current, operation] = transform(outstandingRef.current, operation);
+        }
+        if (bufferRef.current) {
+          [bufferRef.current, operation] = transform(bufferRef.current, operation);
+        }
+        docRef.current = applyOperation(docRef.current, operation);
+        shiftSelections(operation, message.clientId);
+        const selection = toLocal(message.selection);
+        setCollaborators((current) =>
+          current.map((collaborator) =>
+            collaborator.clientId === message.clientId ? { ...collaborator, selection } : collaborator
+          )
+        );
+        handlersRef.current.onRemoteEdit(docRef.current, operation);
+        break;
+      }
+
+      case "selection": {
+        const selection = toLocal(message.selection);
+        setCollaborators((current) =>
+          current.map((collaborator) =>
+            collaborator.clientId === message.clientId ? { ...collaborator, selection } : collaborator
+          )
+        );
+        break;
+      }
+
+      case "join":
+        setCollaborators((current) => [
+          ...current.filter((collaborator) => collaborator.clientId !== message.collaborator.clientId),
+          message.collaborator,
+        ]);
+        break;
+
+      case "leave":
+        setCollaborators((current) => current.filter((collaborator) => collaborator.clientId !== message.clientId));
+        break;
+
+      case "saved":
+        handlersRef.current.onSaved(message.summary);
+        break;
+
+      case "error":
+        console.error("Collaboration error:", message.message);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled || !summaryId) return;
+
+    let closed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const token = localStorage.getItem("auth-token") || "";
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const params = new URLSearchParams({ summaryId, token });
+      const socket = new WebSocket(`${protocol}//${window.location.host}${COLLABORATION_PATH}?${params}`);
+      socketRef.current = socket;
+      setStatus("connecting");
+
+      socket.onmessage = (event) => receive(JSON.parse(event.data));
+      // Unsent local edits are not replayed; the editor falls back to
+      // conditional REST saves until the session is re-established. Users
+      // whose edit access was revoked are not reconnected.
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        connectedRef.current = false;
+        outstandingRef.current = null;
+        bufferRef.current = null;
+        setCollaborators([]);
+        setStatus("offline");
+        if (!closed && event.code !== ACCESS_REVOKED_CLOSE_CODE) retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [summaryId, enabled]);
+
+  // Report a local change to the document (the full new text)
+  const edit = useCallback((text: string, selection: TextSelection | null) => {
+    if (!connectedRef.current) return;
+
+    const operation = operationFromDiff(docRef.current, text);
+    selectionRef.current = selection;
+    if (isNoop(operation)) return;
+
+    docRef.current = text;
+    shiftSelections(operation);
+    if (outstandingRef.current) {
+      bufferRef.current = bufferRef.current ? compose(bufferRef.current, operation) : operation;
+    } else {
+      sendOperation(operation);
+    }
+  }, []);
+
+  const select = useCallback((selection: TextSelection | null) => {
+    const previous = selectionRef.current;
+    if (previous?.anchor === selection?.anchor && previous?.head === selection?.head) return;
+    selectionRef.current = selection;
+    send({ type: "selection", selection });
+  }, []);
+
+  return { status, collaborators, edit, select };
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest, streamRequest } from "@/lib/api";
+import { waitForJob, type Job } from "@/lib/jobs";
+import type { Summary } from "@shared/schema";
+
+export interface SummaryProgress {
+  stage: "map" | "reduce" | "final";
+  completed: number;
+  total: number;
+}
+
+// Human-readable status for long transcripts that are summarized in parts
+export function describeProgress(progress: SummaryProgress | null): string | null {
+  if (!progress) return null;
+  if (progress.stage === "map") {
+    return `Summarizing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}`;
+  }
+  if (progress.stage === "reduce") {
+    return `Merging notes (${progress.completed + 1} of ${progress.total})`;
+  }
+  return "Writing final summary";
+}
+
+interface GeneratedSummary {
+  summaryId: string;
+  revision: number;
+}
+
+// A job that finished meanwhile answers 409; its summary is already saved
+function cancelJob(jobId: string) {
+  apiRequest("POST", `/api/jobs/${jobId}/cancel`).catch(() => undefined);
+}
+
+// Generate a summary on a background job, rendering the text as the job's
+// events stream it. Cancelling stops the job; unmounting only stops watching.
+export function useSummaryStream(onChunk?: (text: string) => void) {
+  const [text, setText] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  // Cancel was pressed before the job was queued
+  const cancelPendingRef = useRef(false);
+
+  // Resolves with the persisted summary, or null if generation was cancelled
+  const start = useCallback(
+    async (summaryId: string): Promise<Summary | null> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      cancelPendingRef.current = false;
+
+      let partial = "";
+      setText("");
+      setProgress(null);
+      setIsStreaming(true);
+
+      try {
+        const response = await apiRequest("POST", `/api/summaries/${summaryId}/generate`);
+        let job: Job<GeneratedSummary> = await response.json();
+        jobIdRef.current = job.id;
+        if (cancelPendingRef.current) {
+          cancelJob(job.id);
+          return null;
+        }
+
+        await streamRequest(
+          `/api/jobs/${job.id}/events`,
+          ({ event, data }) => {
+            if (event === "job") {
+              // A retried attempt writes the summary from the start again
+              if (data.attempts !== job.attempts) {
+                partial = "";
+                setText("");
+              }
+              job = data;
+            } else if (event === "progress") {
+              setProgress(data);
+            } else if (event === "chunk") {
+              partial += data.text;
+              setText(partial);
+              onChunk?.(partial);
+            }
+          },
+          controller.signal
+        );
+
+        // The event stream ends early if the server restarts; poll from there
+        await waitForJob(job, { signal: controller.signal });
+        const summaryResponse = await apiRequest("GET", `/api/summaries/${summaryId}`);
+        return await summaryResponse.json();
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          jobIdRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    [onChunk]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    if (jobIdRef.current) {
+      cancelJob(jobIdRef.current);
+    } else {
+      cancelPendingRef.current = true;
+    }
+  }, []);
+
+  // Stop watching when the component unmounts; the job still saves the summary
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { text, isStreaming, progress, start, cancel };
+}
@@ -1,5 +1,14 @@
 import { queryClient } from "./queryClient";
 
+// Non-2xx response; keeps the status and parsed body so callers can act on
+// structured errors such as a 409 conflict carrying the server's copy
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: any) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 class ApiClient {
   private baseURL: string;
   public defaults: { headers?: Record<string, string> };
@@ -9,13 +18,20 @@ class ApiClient {
     this.defaults = {};
   }
 
-  async request(method: string, url: string, data?: unknown): Promise<Response> {
+  async request(
+    method: string,
+    url: string,
+    data?: unknown,
+    signal?: AbortSignal,
+    extraHeaders?: Record<string, string>
+  ): Promise<Response> {
     const fullUrl = this.baseURL + url;
     const token = localStorage.getItem("auth-token");
     
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
       ...this.defaults.headers,
+      ...extraHeaders,
     };
 
     if (token) {
@@ -26,6 +42,7 @@ class ApiClient {
       method,
       headers,
       credentials: "include",
+      signal,
     };
 
     if (data && method !== "GET") {
@@ -44,14 +61,58 @@ class ApiClient {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
-      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+      throw new ApiError(errorData.message || `HTTP ${response.status}: ${response.statusText}`, response.status, errorData);
     }
 
     return response;
   }
 }
 
-export const apiRequest = (method: string, url: string, data?: unknown) => {
+export const apiRequest = (method: string, url: string, data?: unknown, headers?: Record<string, string>) => {
+  const client = new ApiClient();
+  return client.request(method, url, data, undefined, headers);
+};
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+// Read a Server-Sent Events endpoint and dispatch each event as it arrives.
+// EventSource cannot send the Authorization header, so the stream is read via fetch.
+export const streamRequest = async (
+  url: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+) => {
   const client = new ApiClient();
-  return client.request(method, url, data);
+  const response = await client.request("GET", url, undefined, signal);
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+
+    for (const message of messages) {
+      let event = "message";
+      let payload = "";
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) payload += line.slice(5).trim();
+      }
+      if (payload) {
+        onEvent({ event, data: JSON.parse(payload) });
+      }
+    }
+  }
 };
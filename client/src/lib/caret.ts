@@ -0,0 +1,64 @@
+// Styles that affect where text wraps inside a textarea
+const mirroredProperties = [
+  "boxSizing",
+  "width",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "fontStyle",
+  "fontVariant",
+  "fontWeight",
+  "fontSize",
+  "lineHeight",
+  "fontFamily",
+  "letterSpacing",
+  "textTransform",
+  "textIndent",
+  "tabSize",
+  "wordSpacing",
+] as const;
+
+export interface CaretCoordinates {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Pixel position of a character offset inside a textarea, relative to its
+// border box and ignoring scroll. Textareas expose no layout for their text,
+// so the content up to the offset is laid out in an invisible copy.
+export function getCaretCoordinates(textarea: HTMLTextAreaElement, position: number): CaretCoordinates {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement("div");
+  for (const property of mirroredProperties) {
+    mirror.style[property] = style[property];
+  }
+  mirror.style.position = "absolute";
+  mirror.style.visibility = "hidden";
+  mirror.style.top = "0";
+  mirror.style.left = "-9999px";
+  mirror.style.whiteSpace = "pre-wrap";
+  mirror.style.overflowWrap = "break-word";
+  mirror.style.overflow = "hidden";
+
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement("span");
+  // A non-empty marker keeps a caret at the end of a line on that line
+  marker.textContent = textarea.value.slice(position) || ".";
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+  const coordinates = {
+    top: marker.offsetTop + parseFloat(style.borderTopWidth),
+    left: marker.offsetLeft + parseFloat(style.borderLeftWidth),
+    height: lineHeight,
+  };
+  document.body.removeChild(mirror);
+  return coordinates;
+}
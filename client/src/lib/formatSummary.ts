@@ -0,0 +1,21 @@
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Light markdown-to-HTML used by the preview and the public share page.
+// The text is escaped first, so only the markup added here is rendered.
+export function formatSummaryHtml(text: string) {
+  const html = escapeHtml(text)
+    .replace(/#{1,6}\s*(.*)/g, '<h3 class="text-lg font-semibold text-gray-800 dark:text-gray-200 mt-4 mb-2">$1</h3>')
+    .replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold text-gray-800 dark:text-gray-200">$1</strong>')
+    .replace(/\*(.*?)\*/g, '<em class="italic text-gray-700 dark:text-gray-300">$1</em>')
+    .replace(/`([^`]+)`/g, '<code class="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
+    .replace(/^[-*+]\s+(.*)$/gm, '<li class="ml-4 mb-1">• $1</li>')
+    .replace(/\n\n/g, '</p><p class="mb-4 text-gray-700 dark:text-gray-300 leading-relaxed">')
+    .replace(/\n/g, '<br>');
+  return `<p class="mb-4 text-gray-700 leading-relaxed">${html}</p>`;
+}
@@ -0,0 +1,38 @@
+import { apiRequest } from "./api";
+
+// A background job as /api/jobs/:jobId reports it
+export interface Job<R = unknown> {
+  id: string;
+  type: string;
+  status: "queued" | "running" | "completed" | "dead";
+  progress: number;
+  result: R | null;
+  lastError: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+// Poll a job until it finishes. Resolves with the completed job and rejects
+// with its last error once it has used up its retries.
+export async function waitForJob<R>(
+  job: Job<R>,
+  options: { onUpdate?: (job: Job<R>) => void; signal?: AbortSignal } = {}
+): Promise<Job<R>> {
+  while (job.status === "queued" || job.status === "running") {
+    options.onUpdate?.(job);
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    options.signal?.throwIfAborted();
+    const response = await apiRequest("GET", `/api/jobs/${job.id}`);
+    job = await response.json();
+  }
+  if (job.status === "dead") {
+    throw new Error(job.lastError || "The job failed");
+  }
+  return job;
+}
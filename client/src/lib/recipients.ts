@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// The same check the server applies to recipients, rather than a looser regex
+const emailAddress = z.string().email();
+
+export function isEmailAddress(value: string): boolean {
+  return emailAddress.safeParse(value).success;
+}
+
+// Addresses typed or pasted as a list ("a@x.com, b@x.com; c@x.com"),
+// lowercased, with anything that is not an address set aside
+export function parseRecipients(text: string): { valid: string[]; invalid: string[] } {
+  const entries = text.split(/[\s,;]+/).filter(Boolean);
+  return {
+    valid: entries.filter(isEmailAddress).map((entry) => entry.toLowerCase()),
+    invalid: entries.filter((entry) => !isEmailAddress(entry)),
+  };
+}
@@ -0,0 +1,21 @@
+// Display names and badge colors for the review workflow's summary statuses
+export const statusLabels: Record<string, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  sent: "Sent",
+};
+
+export const statusStyles: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  in_review: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  changes_requested: "bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300",
+  approved: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  rejected: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  sent: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+};
+
+// Statuses in which a summary may be emailed
+export const sendableStatuses = ["approved", "sent"];
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { CalendarClock, CheckSquare, ExternalLink } from "lucide-react";
+
+interface TrackedActionItem {
+  id: string;
+  summaryId: string;
+  description: string;
+  owner: string | null;
+  dueDate: string | null;
+  priority: "low" | "medium" | "high";
+  status: "open" | "done";
+  transcriptLine: number | null;
+  summaryTitle: string;
+  summaryCreatedAt: string | null;
+}
+
+interface SummaryOption {
+  id: string;
+  title: string;
+  createdAt: string;
+}
+
+type DueFilter = "all" | "overdue" | "week" | "none";
+
+const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Translate the due date preset into the API's dueFrom/dueTo/noDueDate params
+function dueParams(due: DueFilter): Record<string, string> {
+  const today = new Date();
+  switch (due) {
+    case "overdue": {
+      const yesterday = new Date(today);
+      yesterday.setDate(today.getDate() - 1);
+      return { dueTo: toISODate(yesterday) };
+    }
+    case "week": {
+      const nextWeek = new Date(today);
+      nextWeek.setDate(today.getDate() + 7);
+      return { dueFrom: toISODate(today), dueTo: toISODate(nextWeek) };
+    }
+    case "none":
+      return { noDueDate: "true" };
+    default:
+      return {};
+  }
+}
+
+export default function ActionItemsPage() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [owner, setOwner] = useState("");
+  const [status, setStatus] = useState<"all" | "open" | "done">("open");
+  const [due, setDue] = useState<DueFilter>("all");
+  const [summaryId, setSummaryId] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const params = new URLSearchParams({
+    ...(owner.trim() ? { owner: owner.trim() } : {}),
+    ...(status !== "all" ? { status } : {}),
+    ...(summaryId !== "all" ? { summaryId } : {}),
+    ...dueParams(due),
+  }).toString();
+
+  const { data: items = [], isFetching } = useQuery<TrackedActionItem[]>({
+    queryKey: ["/api/action-items", params],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/action-items${params ? `?${params}` : ""}`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    staleTime: 0,
+  });
+
+  // Most recent meetings for the meeting filter
+  const { data: summaries = [] } = useQuery<SummaryOption[]>({
+    queryKey: ["/api/summaries", "options"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/summaries?pageSize=100&sort=createdAt");
+      const data = await response.json();
+      return data.items;
+    },
+    enabled: isAuthenticated,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; status?: string; owner?: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/action-items/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: (item: TrackedActionItem) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/action-items"] });
+      queryClient.invalidateQueries({ queryKey: ["summaries", item.summaryId, "insights"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update action item",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const today = toISODate(new Date());
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center">
+            <CheckSquare className="text-primary-600 mr-3 h-6 w-6" />
+            Action Items
+          </h2>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {isFetching ? "Loading..." : `${items.length} item${items.length === 1 ? "" : "s"}`}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <CardContent className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="owner-filter" className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">
+                Owner
+              </Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="owner-filter"
+                  placeholder="Anyone"
+                  value={owner}
+                  onChange={(e) => setOwner(e.target.value)}
+                  className="bg-white dark:bg-gray-700"
+                />
+                {user && (
+                  <Button variant="outline" size="sm" className="h-10" onClick={() => setOwner(user.fullName)}>
+                    Me
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Status</Label>
+              <Select value={status} onValueChange={(value: typeof status) => setStatus(value)}>
+                <SelectTrigger className="bg-white dark:bg-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="done">Done</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Due date</Label>
+              <Select value={due} onValueChange={(value: DueFilter) => setDue(value)}>
+                <SelectTrigger className="bg-white dark:bg-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any time</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="week">Due in the next 7 days</SelectItem>
+                  <SelectItem value="none">No due date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Meeting</Label>
+              <Select value={summaryId} onValueChange={setSummaryId}>
+                <SelectTrigger className="bg-white dark:bg-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All meetings</SelectItem>
+                  {summaries.map((summary) => (
+                    <SelectItem key={summary.id} value={summary.id}>
+                      {summary.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Items */}
+        <div className="space-y-3">
+          {items.map((item) => {
+            const isOverdue = item.status === "open" && !!item.dueDate && item.dueDate < today;
+            const href = `/summaries/${item.summaryId}${item.transcriptLine ? `#line-${item.transcriptLine}` : ""}`;
+
+            return (
+              <Card key={item.id} className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex items-start space-x-3 flex-1">
+                    <Checkbox
+                      className="mt-1"
+                      checked={item.status === "done"}
+                      onCheckedChange={(checked) =>
+                        updateItemMutation.mutate({ id: item.id, status: checked ? "done" : "open" })
+                      }
+                    />
+                    <div>
+                      <p className={item.status === "done" ? "line-through text-gray-400" : "text-gray-900 dark:text-white"}>
+                        {item.description}
+                      </p>
+                      <div className="mt-1 flex flex-wrap gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <Link href={href} className="flex items-center text-primary-600 hover:underline">
+                          <ExternalLink className="mr-1 h-3 w-3" />
+                          {item.summaryTitle}
+                          {item.transcriptLine && ` · line ${item.transcriptLine}`}
+                        </Link>
+                        <Badge variant="outline" className="text-xs">{item.priority}</Badge>
+                        {item.dueDate && (
+                          <span className={`flex items-center ${isOverdue ? "text-red-600" : ""}`}>
+                            <CalendarClock className="mr-1 h-3 w-3" />
+                            {new Date(`${item.dueDate}T00:00:00`).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <Input
+                    key={`${item.id}-${item.owner}`}
+                    placeholder="Unassigned"
+                    defaultValue={item.owner ?? ""}
+                    onBlur={(e) => {
+                      const newOwner = e.target.value.trim() || null;
+                      if (newOwner !== item.owner) {
+                        updateItemMutation.mutate({ id: item.id, owner: newOwner });
+                      }
+                    }}
+                    className="md:w-48 bg-white dark:bg-gray-700"
+                    title="Reassign"
+                  />
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {!isFetching && items.length === 0 && (
+            <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+              <CheckSquare className="h-12 w-12 mx-auto mb-2 text-gray-300 dark:text-gray-600" />
+              <p>No action items match these filters</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Link, useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { ExternalLink, Loader2, MessageCircleQuestion } from "lucide-react";
+
+interface Citation {
+  ref: number;
+  summaryId: string;
+  summaryTitle: string;
+  summaryCreatedAt: string | null;
+  source: "transcript" | "summary";
+  content: string;
+  startLine: number | null;
+  endLine: number | null;
+}
+
+interface MeetingAnswer {
+  answer: string;
+  citations: Citation[];
+}
+
+const examples = [
+  "What did we decide about vendor onboarding last month?",
+  "Which action items are still waiting on the design team?",
+  "What risks came up around the launch date?",
+];
+
+const citationHref = (citation: Citation) =>
+  `/summaries/${citation.summaryId}${citation.startLine ? `#line-${citation.startLine}` : ""}`;
+
+// Render the answer with its [n] markers turned into links to the cited passage
+function AnswerText({ answer, citations }: MeetingAnswer) {
+  const byRef = new Map(citations.map((citation) => [citation.ref, citation]));
+
+  return (
+    <p className="whitespace-pre-wrap text-gray-900 dark:text-white leading-relaxed">
+      {answer.split(/(\[\d+\])/).map((part, index) => {
+        const citation = byRef.get(parseInt(part.slice(1, -1), 10));
+        if (!/^\[\d+\]$/.test(part) || !citation) {
+          return <span key={index}>{part}</span>;
+        }
+        return (
+          <Link
+            key={index}
+            href={citationHref(citation)}
+            title={citation.summaryTitle}
+            className="align-super text-xs font-medium text-primary-600 hover:underline"
+          >
+            {part}
+          </Link>
+        );
+      })}
+    </p>
+  );
+}
+
+export default function AskPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [question, setQuestion] = useState("");
+  const { toast } = useToast();
+
+  const askMutation = useMutation({
+    mutationFn: async (question: string): Promise<MeetingAnswer> => {
+      const response = await apiRequest("POST", "/api/ask", { question });
+      return response.json();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't answer that",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const ask = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed.length >= 3) {
+      setQuestion(trimmed);
+      askMutation.mutate(trimmed);
+    }
+  };
+
+  const result = askMutation.data;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center mb-6">
+          <MessageCircleQuestion className="text-primary-600 mr-3 h-6 w-6" />
+          Ask Your Meetings
+        </h2>
+
+        <Card className="mb-6 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <CardContent className="p-4 space-y-3">
+            <Textarea
+              placeholder="Ask a question about any of your meetings..."
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  ask(question);
+                }
+              }}
+              rows={3}
+              className="resize-none bg-white dark:bg-gray-700"
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex flex-wrap gap-2">
+                {examples.map((example) => (
+                  <button
+                    key={example}
+                    onClick={() => ask(example)}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary-600"
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+              <Button onClick={() => ask(question)} disabled={askMutation.isPending || question.trim().length < 3}>
+                {askMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ask
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <div className="space-y-6">
+            <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+              <CardContent className="p-6">
+                <AnswerText {...result} />
+              </CardContent>
+            </Card>
+
+            {result.citations.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Sources</h3>
+                <div className="space-y-3">
+                  {result.citations.map((citation) => (
+                    <Card key={citation.ref} className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                      <CardContent className="p-4">
+                        <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+                          <span className="font-medium text-primary-600">[{citation.ref}]</span>
+                          <Link href={citationHref(citation)} className="flex items-center font-medium text-gray-900 dark:text-white hover:text-primary-600">
+                            {citation.summaryTitle}
+                            <ExternalLink className="ml-1 h-3 w-3" />
+                          </Link>
+                          {citation.summaryCreatedAt && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {new Date(citation.summaryCreatedAt).toLocaleDateString()}
+                            </span>
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {citation.source === "transcript"
+                              ? `Transcript lines ${citation.startLine}–${citation.endLine}`
+                              : "Summary"}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap line-clamp-6">
+                          {citation.content}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
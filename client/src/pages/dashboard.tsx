@@ -7,8 +7,12 @@ import SummarizationPrompt from "@/components/SummarizationPrompt";
 import SummaryEditor from "@/components/SummaryEditor";
 import EmailShare from "@/components/EmailShare";
 import SummaryPreview from "@/components/SummaryPreview";
+import ActionItemsPanel from "@/components/ActionItemsPanel";
+import ReviewPanel from "@/components/ReviewPanel";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { sendableStatuses } from "@/lib/summaryStatus";
+import type { TranscriptSegment } from "@shared/transcript";
 import { Eye, Cog, CheckCircle } from "lucide-react";
 
 export default function Dashboard() {
@@ -18,6 +22,7 @@ export default function Dashboard() {
   const [workflowData, setWorkflowData] = useState({
     transcript: "",
     filename: "",
+    segments: null as TranscriptSegment[] | null,
     prompt: "",
     tone: "professional",
     summaryId: "",
@@ -109,8 +114,8 @@ export default function Dashboard() {
             {/* Step 1: Transcript Input */}
             {currentStep >= 1 && (
               <TranscriptInput
-                onTranscriptChange={(transcript, filename) => {
-                  setWorkflowData(prev => ({ ...prev, transcript, filename: filename || "" }));
+                onTranscriptChange={(transcript, filename, segments) => {
+                  setWorkflowData(prev => ({ ...prev, transcript, filename: filename || "", segments: segments || null }));
                   if (transcript && currentStep === 1) {
                     setCurrentStep(2);
                   }
@@ -130,7 +135,11 @@ export default function Dashboard() {
                   setWorkflowData(prev => ({ ...prev, summaryId }));
                   setCurrentStep(4); // Skip to edit step after generation
                 }}
+                onStream={(summary) => {
+                  setWorkflowData(prev => ({ ...prev, summary }));
+                }}
                 transcript={workflowData.transcript}
+                segments={workflowData.segments}
                 prompt={workflowData.prompt}
                 tone={workflowData.tone}
               />
@@ -179,6 +188,7 @@ export default function Dashboard() {
                   wordCount: workflowData.summary.split(' ').filter(word => word.length > 0).length,
                   tone: workflowData.tone
                 }}
+                isStreaming={currentStep < 4}
               />
             )}
             
@@ -219,17 +229,26 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {/* Step 4: Summary Editor */}
+        {/* Step 4: Summary Editor & Action Items */}
         {currentStep >= 4 && workflowData.summaryId && (
-          <SummaryEditor
-            summaryId={workflowData.summaryId}
-            onApprove={() => {
-              setCurrentStep(5);
-            }}
-            onSummaryChange={(summary) => {
-              setWorkflowData(prev => ({ ...prev, summary }));
-            }}
-          />
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              <SummaryEditor
+                summaryId={workflowData.summaryId}
+                onSummaryChange={(summary) => {
+                  setWorkflowData(prev => ({ ...prev, summary }));
+                }}
+              />
+            </div>
+            <div>
+              {/* Sharing opens up once the summary is approved */}
+              <ReviewPanel
+                summaryId={workflowData.summaryId}
+                onStatusChange={(status) => setCurrentStep(sendableStatuses.includes(status) ? 5 : 4)}
+              />
+              <ActionItemsPanel summaryId={workflowData.summaryId} />
+            </div>
+          </div>
         )}
 
         {/* Step 5: Email Share */}
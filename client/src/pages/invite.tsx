@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Users } from "lucide-react";
+
+interface Invite {
+  email: string;
+  role: "owner" | "editor" | "viewer";
+  workspaceName: string;
+  invitedByName: string | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+export default function InvitePage() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invite, isLoading: inviteLoading, error } = useQuery<Invite>({
+    queryKey: ["/api/invites", token],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/invites/${token}`);
+      return response.json();
+    },
+    enabled: isAuthenticated && !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invites/${token}/accept`);
+      return response.json();
+    },
+    onSuccess: ({ workspaceId }: { workspaceId: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+      queryClient.invalidateQueries({ queryKey: ["summaries"] });
+      toast({ title: `You joined ${invite?.workspaceName}` });
+      setLocation(`/workspaces?workspace=${workspaceId}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not accept invite",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const expired = invite && new Date(invite.expiresAt).getTime() < Date.now();
+  const wrongAccount = invite && user && invite.email !== user.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <CardContent className="p-8 text-center">
+            <Users className="mx-auto text-primary-600 h-10 w-10 mb-4" />
+            {inviteLoading ? (
+              <p className="text-gray-500 dark:text-gray-400">Loading invite...</p>
+            ) : error || !invite ? (
+              <p className="text-gray-500 dark:text-gray-400">This invite link is not valid.</p>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                  Join {invite.workspaceName}
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  {invite.invitedByName || "A workspace owner"} invited {invite.email} to join as {invite.role === "editor" ? "an editor" : "a viewer"}.
+                </p>
+                {invite.acceptedAt ? (
+                  <p className="text-gray-500 dark:text-gray-400">This invite has already been used.</p>
+                ) : expired ? (
+                  <p className="text-gray-500 dark:text-gray-400">This invite has expired. Ask the owner for a new one.</p>
+                ) : wrongAccount ? (
+                  <p className="text-gray-500 dark:text-gray-400">
+                    You are signed in as {user!.email}. Sign in as {invite.email} to accept.
+                  </p>
+                ) : (
+                  <Button onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+                    {acceptMutation.isPending ? "Joining..." : "Accept invite"}
+                  </Button>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
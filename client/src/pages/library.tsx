@@ -0,0 +1,312 @@
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/api";
+import { statusLabels, statusStyles } from "@/lib/summaryStatus";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Library } from "lucide-react";
+
+interface SummaryListItem {
+  id: string;
+  title: string;
+  tone: string;
+  status: string;
+  wordCount: number;
+  excerpt: string;
+  workspaceName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  personal: boolean;
+}
+
+interface SummaryPage {
+  items: SummaryListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+type SortField = "updatedAt" | "createdAt" | "title" | "wordCount";
+
+const PAGE_SIZE = 20;
+
+export default function LibraryPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+
+  // Filters live in the query string so a filtered view can be bookmarked
+  const params = new URLSearchParams(search);
+  const page = Math.max(1, parseInt(params.get("page") || "1", 10) || 1);
+  const sort = (params.get("sort") as SortField) || "updatedAt";
+  const order = params.get("order") === "asc" ? "asc" : "desc";
+  const status = params.get("status") || "all";
+  const tone = params.get("tone") || "all";
+  const from = params.get("from") || "";
+  const to = params.get("to") || "";
+  const workspace = params.get("workspace") || "all";
+
+  const updateParams = (updates: Record<string, string | null>, resetPage = true) => {
+    const next = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === null || value === "" || value === "all") next.delete(key);
+      else next.set(key, value);
+    }
+    if (resetPage) next.delete("page");
+    const query = next.toString();
+    setLocation(`/summaries${query ? `?${query}` : ""}`, { replace: true });
+  };
+
+  const apiParams = new URLSearchParams({
+    page: String(page),
+    pageSize: String(PAGE_SIZE),
+    sort,
+    order,
+    ...(workspace !== "all" ? { workspaceId: workspace } : {}),
+    ...(status !== "all" ? { status } : {}),
+    ...(tone !== "all" ? { tone } : {}),
+    ...(from ? { from: new Date(`${from}T00:00:00`).toISOString() } : {}),
+    ...(to ? { to: new Date(`${to}T23:59:59.999`).toISOString() } : {}),
+  }).toString();
+
+  const { data, isFetching } = useQuery<SummaryPage>({
+    queryKey: ["/api/summaries", apiParams],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries?${apiParams}`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    staleTime: 0,
+  });
+
+  const { data: workspaces = [] } = useQuery<WorkspaceOption[]>({
+    queryKey: ["/api/workspaces"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/workspaces");
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const toggleSort = (field: SortField) => {
+    if (sort === field) {
+      updateParams({ order: order === "asc" ? "desc" : "asc" }, false);
+    } else {
+      updateParams({ sort: field, order: field === "title" ? "asc" : "desc" }, false);
+    }
+  };
+
+  const SortHeader = ({ field, label }: { field: SortField; label: string }) => (
+    <button onClick={() => toggleSort(field)} className="flex items-center font-medium">
+      {label}
+      {sort === field && (order === "asc" ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />)}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center">
+            <Library className="text-primary-600 mr-3 h-6 w-6" />
+            Summary Library
+          </h2>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {data ? `${data.total} summar${data.total === 1 ? "y" : "ies"}` : "Loading..."}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <CardContent className={`p-4 grid grid-cols-1 gap-4 ${workspaces.length > 1 ? "md:grid-cols-5" : "md:grid-cols-4"}`}>
+            {workspaces.length > 1 && (
+              <div>
+                <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Workspace</Label>
+                <Select value={workspace} onValueChange={(value) => updateParams({ workspace: value })}>
+                  <SelectTrigger className="bg-white dark:bg-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All workspaces</SelectItem>
+                    {workspaces.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.personal ? "Personal" : option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Status</Label>
+              <Select value={status} onValueChange={(value) => updateParams({ status: value })}>
+                <SelectTrigger className="bg-white dark:bg-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(statusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Tone</Label>
+              <Select value={tone} onValueChange={(value) => updateParams({ tone: value })}>
+                <SelectTrigger className="bg-white dark:bg-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tones</SelectItem>
+                  <SelectItem value="professional">Professional</SelectItem>
+                  <SelectItem value="casual">Casual</SelectItem>
+                  <SelectItem value="concise">Concise</SelectItem>
+                  <SelectItem value="detailed">Detailed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="from-filter" className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">From</Label>
+              <Input
+                id="from-filter"
+                type="date"
+                value={from}
+                onChange={(e) => updateParams({ from: e.target.value })}
+                className="bg-white dark:bg-gray-700"
+              />
+            </div>
+            <div>
+              <Label htmlFor="to-filter" className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">To</Label>
+              <Input
+                id="to-filter"
+                type="date"
+                value={to}
+                onChange={(e) => updateParams({ to: e.target.value })}
+                className="bg-white dark:bg-gray-700"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead><SortHeader field="title" label="Title" /></TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Tone</TableHead>
+                  <TableHead><SortHeader field="wordCount" label="Words" /></TableHead>
+                  <TableHead><SortHeader field="createdAt" label="Created" /></TableHead>
+                  <TableHead><SortHeader field="updatedAt" label="Updated" /></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.items.map((summary) => (
+                  <TableRow key={summary.id}>
+                    <TableCell className="max-w-md">
+                      <Link href={`/summaries/${summary.id}`} className="font-medium text-gray-900 dark:text-white hover:text-primary-600">
+                        {summary.title}
+                      </Link>
+                      {summary.excerpt && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{summary.excerpt}</p>
+                      )}
+                      {workspaces.length > 1 && summary.workspaceName && (
+                        <p className="text-xs text-primary-600">{summary.workspaceName}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs border-0 ${statusStyles[summary.status] || ""}`}>
+                        {statusLabels[summary.status] || summary.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-600 dark:text-gray-400">{summary.tone}</TableCell>
+                    <TableCell className="text-gray-600 dark:text-gray-400">{summary.wordCount}</TableCell>
+                    <TableCell className="text-gray-600 dark:text-gray-400">
+                      {new Date(summary.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-gray-600 dark:text-gray-400">
+                      {new Date(summary.updatedAt).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {!isFetching && data?.items.length === 0 && (
+              <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+                <Library className="h-12 w-12 mx-auto mb-2 text-gray-300 dark:text-gray-600" />
+                <p>No summaries match these filters</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pagination */}
+        <div className="mt-6 flex items-center justify-between">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Page {page} of {totalPages}
+          </span>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => updateParams({ page: String(page - 1) }, false)}
+            >
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => updateParams({ page: String(page + 1) }, false)}
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import TranscriptViewer from "@/components/TranscriptViewer";
+import { apiRequest } from "@/lib/api";
+import { formatSummaryHtml } from "@/lib/formatSummary";
+import type { TranscriptSegment } from "@shared/transcript";
+import { Lock } from "lucide-react";
+
+interface SharedLink {
+  title: string;
+  requiresPassword: boolean;
+  expiresAt: string | null;
+}
+
+interface SharedSummary {
+  title: string;
+  summaryContent: string;
+  wordCount: number;
+  tone: string;
+  createdAt: string;
+  updatedAt: string;
+  transcript: string | null;
+  transcriptSegments: TranscriptSegment[] | null;
+}
+
+// Read-only page behind a public share link; works without signing in
+export default function SharedSummaryPage() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+
+  const { data: link, isLoading, error } = useQuery<SharedLink>({
+    queryKey: ["/api/shared", token],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/shared/${token}`);
+      return response.json();
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Each successful open counts as a view
+  const openSummary = async (password?: string): Promise<SharedSummary> => {
+    const response = await apiRequest("POST", `/api/shared/${token}/view`, { password });
+    return response.json();
+  };
+
+  // Links without a password open straight away
+  const { data: openedSummary, error: openError } = useQuery<SharedSummary>({
+    queryKey: ["/api/shared", token, "view"],
+    queryFn: () => openSummary(),
+    enabled: !!link && !link.requiresPassword,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const unlockMutation = useMutation({ mutationFn: openSummary });
+
+  const summary = openedSummary || unlockMutation.data;
+
+  const renderMessage = (message: string) => (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-8 text-center text-gray-500 dark:text-gray-400">{message}</CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {isLoading ? (
+          renderMessage("Loading...")
+        ) : error || !link ? (
+          renderMessage(error?.message || "This link is not valid.")
+        ) : summary ? (
+          <>
+            <div className="bg-white border border-gray-200 rounded-lg p-8 shadow-sm">
+              {/* Document Header */}
+              <div className="border-b border-gray-200 pb-4 mb-6">
+                <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                  {summary.title || "Meeting Summary"}
+                </h1>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                  <span>📅 {new Date(summary.createdAt).toLocaleDateString()}</span>
+                  <span>📝 {summary.wordCount} words</span>
+                  <span>🎯 {summary.tone}</span>
+                </div>
+              </div>
+
+              {/* Content */}
+              <div
+                className="prose prose-sm max-w-none text-gray-700 leading-relaxed"
+                dangerouslySetInnerHTML={{ __html: formatSummaryHtml(summary.summaryContent) }}
+              />
+            </div>
+
+            {summary.transcript && (
+              <TranscriptViewer transcript={summary.transcript} segments={summary.transcriptSegments} />
+            )}
+
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-6 text-center">
+              Shared read-only copy, last updated {new Date(summary.updatedAt).toLocaleString()}
+            </p>
+          </>
+        ) : link.requiresPassword ? (
+          <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+            <CardContent className="p-8 text-center">
+              <Lock className="mx-auto text-primary-600 h-10 w-10 mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{link.title}</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">Enter the password to read this summary.</p>
+              <form
+                className="flex gap-2 max-w-sm mx-auto"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  unlockMutation.mutate(password);
+                }}
+              >
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  autoFocus
+                />
+                <Button type="submit" disabled={unlockMutation.isPending || !password}>
+                  Open
+                </Button>
+              </form>
+              {unlockMutation.error && (
+                <p className="mt-3 text-sm text-red-600">{unlockMutation.error.message}</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : openError ? (
+          renderMessage(openError.message)
+        ) : (
+          renderMessage("Loading...")
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import SummaryEditor, { type TextRange } from "@/components/SummaryEditor";
+import ActionItemsPanel from "@/components/ActionItemsPanel";
+import TranscriptViewer from "@/components/TranscriptViewer";
+import SpeakerEditor from "@/components/SpeakerEditor";
+import SpeakerAnalyticsPanel from "@/components/SpeakerAnalyticsPanel";
+import TranscriptChat from "@/components/TranscriptChat";
+import EmailShare from "@/components/EmailShare";
+import ReviewPanel from "@/components/ReviewPanel";
+import CommentsPanel from "@/components/CommentsPanel";
+import ShareLinksPanel from "@/components/ShareLinksPanel";
+import { apiRequest } from "@/lib/api";
+import { sendableStatuses } from "@/lib/summaryStatus";
+import type { TranscriptSegment } from "@shared/transcript";
+import { ChevronLeft } from "lucide-react";
+
+interface Summary {
+  id: string;
+  title: string;
+  originalContent: string;
+  status: string;
+  role: "owner" | "editor" | "viewer";
+}
+
+interface Transcript {
+  segments: TranscriptSegment[];
+  speakers: { name: string; segmentCount: number }[];
+}
+
+// Reads "#line-42" style anchors used by links from the action item tracker
+function getHashLine(): number | null {
+  const match = window.location.hash.match(/^#line-(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export default function SummaryPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const [highlightLine, setHighlightLine] = useState<number | null>(getHashLine);
+  const [selection, setSelection] = useState<(TextRange & { text: string }) | null>(null);
+  const [focusRange, setFocusRange] = useState<TextRange | null>(null);
+
+  const { data: summary } = useQuery<Summary>({
+    queryKey: ["summaries", id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${id}`);
+      return response.json();
+    },
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: transcript } = useQuery<Transcript>({
+    queryKey: ["summaries", id, "transcript"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/summaries/${id}/transcript`);
+      return response.json();
+    },
+    enabled: isAuthenticated && !!id,
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  useEffect(() => {
+    const onHashChange = () => setHighlightLine(getHashLine());
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const isViewer = summary?.role === "viewer";
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/summaries" className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white mb-2">
+          <ChevronLeft className="mr-1 h-4 w-4" />
+          Library
+        </Link>
+        <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">
+          {summary?.title || "Summary"}
+        </h2>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <SummaryEditor
+              summaryId={id}
+              onSummaryChange={() => {}}
+              onSelectionChange={setSelection}
+              focusRange={focusRange}
+              hasSpeakers={!!transcript && transcript.speakers.length > 0}
+            />
+          </div>
+          <div>
+            <ReviewPanel summaryId={id} />
+            <CommentsPanel
+              summaryId={id}
+              role={summary?.role}
+              selection={selection}
+              onFocusRange={setFocusRange}
+            />
+            <ActionItemsPanel summaryId={id} readOnly={isViewer} />
+            <TranscriptChat summaryId={id} readOnly={isViewer} />
+            {summary && !isViewer && <ShareLinksPanel summaryId={id} />}
+          </div>
+        </div>
+
+        {/* Only approved summaries can be sent */}
+        {!isViewer && summary && sendableStatuses.includes(summary.status) && (
+          <EmailShare summaryId={id} onSuccess={() => {}} />
+        )}
+
+        {transcript && (
+          <SpeakerEditor summaryId={id} speakers={transcript.speakers} readOnly={isViewer} />
+        )}
+
+        {transcript && transcript.speakers.length > 0 && <SpeakerAnalyticsPanel summaryId={id} />}
+
+        {summary && (
+          <TranscriptViewer
+            transcript={summary.originalContent}
+            segments={transcript?.segments}
+            highlightLine={highlightLine}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocation, useSearch } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Copy, LogOut, Mail, Plus, Trash2, Users } from "lucide-react";
+
+type WorkspaceRole = "owner" | "editor" | "viewer";
+
+interface Workspace {
+  id: string;
+  name: string;
+  personal: boolean;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+interface WorkspaceMember {
+  userId: string;
+  email: string;
+  fullName: string;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  token: string;
+  expiresAt: string;
+}
+
+interface WorkspaceDetails {
+  id: string;
+  name: string;
+  personal: boolean;
+  createdById: string | null;
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+  invites: WorkspaceInvite[];
+}
+
+interface PendingInvite {
+  id: string;
+  workspaceName: string;
+  invitedByName: string | null;
+  role: WorkspaceRole;
+  token: string;
+}
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const roleDescriptions: Record<WorkspaceRole, string> = {
+  owner: "Manages members and settings",
+  editor: "Creates, edits and shares summaries",
+  viewer: "Reads and exports summaries",
+};
+
+const inviteLink = (token: string) => `${window.location.origin}/invites/${token}`;
+
+export default function WorkspacesPage() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const selectedId = new URLSearchParams(search).get("workspace");
+  const [newName, setNewName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"editor" | "viewer">("editor");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: workspaces = [] } = useQuery<Workspace[]>({
+    queryKey: ["/api/workspaces"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/workspaces");
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const { data: pendingInvites = [] } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/invites"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/invites");
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const activeId = selectedId || workspaces[0]?.id;
+  const { data: workspace } = useQuery<WorkspaceDetails>({
+    queryKey: ["/api/workspaces", activeId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/workspaces/${activeId}`);
+      return response.json();
+    },
+    enabled: isAuthenticated && !!activeId,
+  });
+
+  const select = (id: string) => setLocation(`/workspaces?workspace=${id}`, { replace: true });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/workspaces", { name });
+      return response.json();
+    },
+    onSuccess: (created: Workspace) => {
+      setNewName("");
+      refresh();
+      select(created.id);
+    },
+    onError: onError("Failed to create workspace"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      const response = await apiRequest("PATCH", `/api/workspaces/${activeId}/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `/api/workspaces/${activeId}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: (_, userId) => {
+      refresh();
+      if (userId === user?.id) {
+        setLocation("/workspaces", { replace: true });
+        toast({ title: `You left ${workspace?.name}` });
+      }
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { email: string; role: "editor" | "viewer" }) => {
+      const response = await apiRequest("POST", `/api/workspaces/${activeId}/invites`, data);
+      return response.json();
+    },
+    onSuccess: (invite: WorkspaceInvite & { emailQueued: boolean }) => {
+      setInviteEmail("");
+      refresh();
+      toast({
+        title: invite.emailQueued ? `Invitation sent to ${invite.email}` : "Invitation created",
+        description: invite.emailQueued ? undefined : "The email could not be sent; copy the link and share it instead",
+      });
+    },
+    onError: onError("Failed to invite"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("PATCH", `/api/workspaces/${activeId}`, { name });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to rename workspace"),
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      const response = await apiRequest("DELETE", `/api/workspaces/${activeId}/invites/${inviteId}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to revoke invite"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/workspaces/${activeId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setLocation("/workspaces", { replace: true });
+    },
+    onError: onError("Failed to delete workspace"),
+  });
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      setLocation("/auth");
+    }
+  }, [isAuthenticated, isLoading, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const isOwner = workspace?.role === "owner";
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center mb-6">
+          <Users className="text-primary-600 mr-3 h-6 w-6" />
+          Workspaces
+        </h2>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Workspace list */}
+          <div className="space-y-4">
+            {pendingInvites.length > 0 && (
+              <Card className="bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800">
+                <CardContent className="p-4 space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center">
+                    <Mail className="mr-2 h-4 w-4" />
+                    Invitations
+                  </h3>
+                  {pendingInvites.map((invite) => (
+                    <div key={invite.id} className="text-sm text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">{invite.workspaceName}</span> as {roleLabels[invite.role].toLowerCase()}
+                      {invite.invitedByName && ` · from ${invite.invitedByName}`}
+                      <Button size="sm" variant="link" className="px-2" onClick={() => setLocation(`/invites/${invite.token}`)}>
+                        Review
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+              <CardContent className="p-2">
+                {workspaces.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => select(option.id)}
+                    className={`w-full text-left rounded-lg p-3 text-sm ${
+                      option.id === activeId
+                        ? "bg-primary-50 dark:bg-primary-900/20"
+                        : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {option.personal ? "Personal" : option.name}
+                      </span>
+                      <Badge variant="outline" className="text-xs">{roleLabels[option.role]}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {option.memberCount} member{option.memberCount === 1 ? "" : "s"}
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <form
+              className="flex space-x-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newName.trim()) createMutation.mutate(newName.trim());
+              }}
+            >
+              <Input
+                placeholder="New team workspace"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className="bg-white dark:bg-gray-700"
+              />
+              <Button type="submit" disabled={!newName.trim() || createMutation.isPending}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+
+          {/* Selected workspace */}
+          {workspace && (
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    {isOwner && !workspace.personal ? (
+                      <Input
+                        key={workspace.id}
+                        defaultValue={workspace.name}
+                        aria-label="Workspace name"
+                        className="max-w-sm text-lg font-semibold bg-white dark:bg-gray-700"
+                        onBlur={(e) => {
+                          const name = e.target.value.trim();
+                          if (name && name !== workspace.name) renameMutation.mutate(name);
+                        }}
+                      />
+                    ) : (
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {workspace.personal ? "Personal workspace" : workspace.name}
+                      </h3>
+                    )}
+                    {isOwner && !workspace.personal && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Delete ${workspace.name} and all of its summaries?`)) {
+                            deleteMutation.mutate();
+                          }
+                        }}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete workspace
+                      </Button>
+                    )}
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workspace.members.map((member) => (
+                        <TableRow key={member.userId}>
+                          <TableCell>
+                            <div className="font-medium text-gray-900 dark:text-white">
+                              {member.fullName}
+                              {member.userId === user?.id && " (you)"}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{member.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            {isOwner && !(workspace.personal && member.userId === workspace.createdById) ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(role: WorkspaceRole) => updateRoleMutation.mutate({ userId: member.userId, role })}
+                              >
+                                <SelectTrigger className="w-32 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(roleLabels) as WorkspaceRole[]).map((role) => (
+                                    <SelectItem key={role} value={role} title={roleDescriptions[role]}>
+                                      {roleLabels[role]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-sm text-gray-600 dark:text-gray-400">{roleLabels[member.role]}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {member.userId === user?.id ? (
+                              !workspace.personal && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeMemberMutation.mutate(member.userId)}
+                                  disabled={removeMemberMutation.isPending}
+                                >
+                                  <LogOut className="mr-2 h-4 w-4" />
+                                  Leave
+                                </Button>
+                              )
+                            ) : (
+                              isOwner && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-red-500 hover:text-red-700"
+                                  onClick={() => removeMemberMutation.mutate(member.userId)}
+                                  disabled={removeMemberMutation.isPending}
+                                  title="Remove from workspace"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {isOwner && (
+                <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                  <CardContent className="p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Invite people</h3>
+                    <form
+                      className="flex flex-col sm:flex-row gap-2 mb-4"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (inviteEmail.trim()) inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole });
+                      }}
+                    >
+                      <div className="flex-1">
+                        <Label htmlFor="invite-email" className="sr-only">Email</Label>
+                        <Input
+                          id="invite-email"
+                          type="email"
+                          placeholder="colleague@company.com"
+                          value={inviteEmail}
+                          onChange={(e) => setInviteEmail(e.target.value)}
+                          className="bg-white dark:bg-gray-700"
+                        />
+                      </div>
+                      <Select value={inviteRole} onValueChange={(role: "editor" | "viewer") => setInviteRole(role)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button type="submit" disabled={!inviteEmail.trim() || inviteMutation.isPending}>
+                        <Mail className="mr-2 h-4 w-4" />
+                        Send invite
+                      </Button>
+                    </form>
+
+                    {workspace.invites.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Pending</h4>
+                        {workspace.invites.map((invite) => (
+                          <div key={invite.id} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700 dark:text-gray-300">
+                              {invite.email} · {roleLabels[invite.role].toLowerCase()}
+                              <span className="text-xs text-gray-400">
+                                {" "}· expires {new Date(invite.expiresAt).toLocaleDateString()}
+                              </span>
+                            </span>
+                            <div className="flex">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Copy invite link"
+                                onClick={async () => {
+                                  await navigator.clipboard.writeText(inviteLink(invite.token));
+                                  toast({ title: "Invite link copied" });
+                                }}
+                              >
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-500 hover:text-red-700"
+                                title="Revoke invite"
+                                onClick={() => revokeInviteMutation.mutate(invite.id)}
+                                disabled={revokeInviteMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
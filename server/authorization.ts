@@ -0,0 +1,101 @@
+import type { Request, Response, NextFunction } from "express";
+import { workspaceRoles, type ActionItem, type Summary, type WorkspaceRole } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every route that touches a summary, action item or workspace authorizes
+// through these middlewares. Someone with no access at all gets a 404, so
+// the existence of other teams' data is not revealed; a member whose role is
+// too low gets a 403.
+
+export function hasRole(role: WorkspaceRole | undefined, required: WorkspaceRole): boolean {
+  return !!role && workspaceRoles.indexOf(role) >= workspaceRoles.indexOf(required);
+}
+
+// The user's role on a summary: through its workspace, or as the creator of
+// a summary that predates workspaces
+export async function getSummaryRole(summary: Summary, userId: string): Promise<WorkspaceRole | undefined> {
+  if (!summary.workspaceId) {
+    return summary.userId === userId ? "owner" : undefined;
+  }
+  return storage.getWorkspaceRole(summary.workspaceId, userId);
+}
+
+function forbidden(res: Response, required: WorkspaceRole) {
+  return res.status(403).json({ message: `This requires ${required} access to the workspace` });
+}
+
+// Loads the summary in req.params.id into req.summary
+export function requireSummaryRole(required: WorkspaceRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const summary = await storage.getSummary(req.params.id);
+      const role = summary && await getSummaryRole(summary, req.userId!);
+      if (!summary || !role) {
+        return res.status(404).json({ message: "Summary not found" });
+      }
+      if (!hasRole(role, required)) {
+        return forbidden(res, required);
+      }
+
+      req.summary = summary;
+      req.workspaceRole = role;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// Loads the action item in req.params.id and its summary
+export function requireActionItemRole(required: WorkspaceRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await storage.getActionItem(req.params.id);
+      const summary = item && await storage.getSummary(item.summaryId);
+      const role = summary && await getSummaryRole(summary, req.userId!);
+      if (!item || !summary || !role) {
+        return res.status(404).json({ message: "Action item not found" });
+      }
+      if (!hasRole(role, required)) {
+        return forbidden(res, required);
+      }
+
+      req.actionItem = item;
+      req.summary = summary;
+      req.workspaceRole = role;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// Checks membership of the workspace in req.params.id
+export function requireWorkspaceRole(required: WorkspaceRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = await storage.getWorkspaceRole(req.params.id, req.userId!);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!hasRole(role, required)) {
+        return forbidden(res, required);
+      }
+
+      req.workspaceRole = role;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      summary?: Summary;
+      actionItem?: ActionItem;
+      workspaceRole?: WorkspaceRole;
+    }
+  }
+}
@@ -1,27 +1,646 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertSummarySchema, insertEmailLogSchema } from "@shared/schema";
-import { authMiddleware, generateToken, hashPassword, verifyPassword } from "./services/auth";
-import { generateSummary } from "./services/gemini";
-import { processFile } from "./services/fileProcessor";
-import { sendSummaryEmail } from "./services/emailService";
+import { insertUserSchema, insertSummarySchema, insertEmailLogSchema, insertActionItemSchema, actionItemFields, actionItemStatuses, summaryStatuses, summaryTones, llmProviders, workspaceRoles, reviewActions, type Summary, type SummaryStatus, type SummaryReviewer, type WorkspaceRole, type SummaryVersionSource, type InsertSummaryVersion, type ShareLink, type Job, transcriptSegmentSchema } from "@shared/schema";
+import { diffLines } from "@shared/textDiff";
+import { segmentsMatchTranscript } from "@shared/transcript";
+import { isValidTimeZone, zonedTimeToUtc } from "@shared/timezone";
+import { authMiddleware, generateLinkToken, generateToken, hashPassword, verifyPassword } from "./services/auth";
+import { getSummaryRole, hasRole, requireActionItemRole, requireSummaryRole, requireWorkspaceRole } from "./authorization";
+import { streamSummary } from "./services/summarizer";
+import { getDefaultProvider, getProvider, listProviders, type ILLMProvider } from "./services/llmProvider";
+import { extractInsights } from "./services/insightExtractor";
+import { answerQuestion, buildSummaryEmbeddings, rankChunks } from "./services/semanticIndex";
+import { embedderKey, getEmbedder, type IEmbedder } from "./services/embedder";
+import { answerTranscriptQuestion, transcriptFitsContext } from "./services/transcriptChat";
+import { isMediaFile, isSupportedFileType, processFile } from "./services/fileProcessor";
+import { cancelJob, enqueueJob, isFinished, PermanentJobError, registerJobHandler, startJobQueue, subscribeToJob, subscribeToJobOutput } from "./services/jobQueue";
+import { listSpeakers, renderTranscript, renderTranscriptLines, segmentTranscript } from "./services/transcriptSegmenter";
+import { analyzeSpeakers } from "./services/speakerAnalytics";
+import { EmailDeliveryError, sendMentionEmail, sendReviewRequestEmail, sendSummaryEmail, sendWorkspaceInviteEmail } from "./services/emailService";
 import { generatePDF, generateDOCX } from "./services/exportService";
+import { openEventStream } from "./services/sse";
+import { attachCollaboration, publishSummaryContent } from "./services/collaboration";
+import {
+  availableReviewActions,
+  nextReviewStatus,
+  reviewActionError,
+  reviewDecisionFor,
+  reviewedStatuses,
+  reviewerEditableStatuses,
+  sendableStatuses,
+  type ReviewState,
+} from "./services/reviewWorkflow";
+import { findMentions, locateQuote, rebaseAnchors } from "./services/comments";
 import multer from "multer";
+import fs from "fs";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// Documents are capped well below recordings, which the upload route checks
+const DOCUMENT_SIZE_LIMIT = 10 * 1024 * 1024; // 10MB
+const MEDIA_SIZE_LIMIT = parseInt(process.env.MAX_MEDIA_UPLOAD_MB || "500", 10) * 1024 * 1024;
+
 const upload = multer({ 
   dest: 'uploads/',
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  limits: { fileSize: MEDIA_SIZE_LIMIT },
   fileFilter: (req: any, file: any, cb: any) => {
-    const allowedTypes = ['.txt', '.pdf', '.docx'];
-    const fileExt = '.' + file.originalname.split('.').pop()?.toLowerCase();
-    cb(null, allowedTypes.includes(fileExt));
+    cb(null, isSupportedFileType(file.originalname));
+  }
+});
+
+// Re-extract structured insights after a generation. Failures are logged but
+// never fail the generation itself; the markdown summary is already saved.
+async function refreshInsights(summary: Summary, provider: ILLMProvider, signal?: AbortSignal) {
+  try {
+    const insights = await extractInsights(await citableTranscript(summary), summary.summaryContent, provider, signal);
+    return await storage.replaceSummaryInsights(summary.id, insights);
+  } catch (error: any) {
+    console.error(`Failed to extract insights for summary ${summary.id}:`, error.message);
+    return null;
+  }
+}
+
+// Workspace invitations expire after this long
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Summaries carry their revision as a strong ETag, e.g. "7"
+function summaryETag(summary: Summary) {
+  return `"${summary.revision}"`;
+}
+
+// Revision expected by an If-Match header, or null for an unconditional
+// update (no header, or "*"). Unparseable tags never match.
+function parseIfMatch(header: string | undefined): number | null {
+  if (!header || header.trim() === "*") return null;
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1], 10) : -1;
+}
+
+// Autosaves within this window of the previous autosave extend that version
+// instead of adding one, so history holds edit sessions rather than keystrokes
+const AUTOSAVE_VERSION_WINDOW_MS = 10 * 60 * 1000;
+
+type VersionDetails = Pick<InsertSummaryVersion, "prompt" | "tone" | "model" | "restoredFrom">;
+
+// Record the summary's current content in its version history. Identical
+// content is not recorded twice; an explicit save of an autosaved state
+// promotes that version to a manual one instead.
+async function recordVersion(summary: Summary, source: SummaryVersionSource, authorId: string, details: VersionDetails = {}) {
+  if (!summary.summaryContent.trim()) return;
+
+  try {
+    const latest = await storage.getLatestSummaryVersion(summary.id);
+
+    if (latest && latest.content === summary.summaryContent) {
+      if (latest.source === "autosave" && source !== "autosave") {
+        await storage.updateSummaryVersion(latest.id, { source, authorId, ...details });
+      }
+      return;
+    }
+
+    const extendsLatest = source === "autosave" &&
+      latest?.source === "autosave" &&
+      latest.authorId === authorId &&
+      Date.now() - (latest.updatedAt?.getTime() ?? 0) < AUTOSAVE_VERSION_WINDOW_MS;
+
+    if (latest && extendsLatest) {
+      await storage.updateSummaryVersion(latest.id, {
+        content: summary.summaryContent,
+        wordCount: summary.wordCount,
+      });
+    } else {
+      await storage.createSummaryVersion({
+        summaryId: summary.id,
+        content: summary.summaryContent,
+        wordCount: summary.wordCount,
+        source,
+        authorId,
+        ...details,
+      });
+    }
+  } catch (error: any) {
+    console.error(`Failed to record version for summary ${summary.id}:`, error.message);
+  }
+}
+
+// Summaries saved before version history existed have no versions; keep
+// their content as version 1 before anything overwrites it
+async function ensureBaselineVersion(summary: Summary, authorId: string) {
+  try {
+    if (summary.summaryContent.trim() && !(await storage.getLatestSummaryVersion(summary.id))) {
+      await storage.createSummaryVersion({
+        summaryId: summary.id,
+        content: summary.summaryContent,
+        wordCount: summary.wordCount,
+        source: "manual",
+        authorId,
+      });
+    }
+  } catch (error: any) {
+    console.error(`Failed to record baseline version for summary ${summary.id}:`, error.message);
+  }
+}
+
+// Re-embed a meeting for semantic search. Like insights, indexing is best
+// effort and never fails the request that triggered it.
+async function refreshEmbeddings(summary: Summary, embedder: IEmbedder = getEmbedder()) {
+  try {
+    const chunks = await buildSummaryEmbeddings(summary, embedder);
+    await storage.replaceSummaryEmbeddings(summary.id, embedderKey(embedder), chunks);
+  } catch (error: any) {
+    console.error(`Failed to index summary ${summary.id}:`, error.message);
+    await storage.markSummaryIndexed(summary.id, embedderKey(embedder)).catch(() => undefined);
+  }
+}
+
+// The editor autosaves every few seconds; coalesce those edits into a single
+// re-index once the summary has been quiet for a while.
+const pendingReindexes = new Map<string, NodeJS.Timeout>();
+
+function scheduleReindex(summary: Summary, delayMs = 30000) {
+  clearTimeout(pendingReindexes.get(summary.id));
+  pendingReindexes.set(summary.id, setTimeout(async () => {
+    pendingReindexes.delete(summary.id);
+    const latest = await storage.getSummary(summary.id).catch(() => undefined);
+    if (latest) {
+      await refreshEmbeddings(latest);
+    }
+  }, delayMs));
+}
+
+function reviewState(summary: Summary, userId: string, role: WorkspaceRole, reviewers: SummaryReviewer[]): ReviewState {
+  return {
+    status: summary.status as SummaryStatus,
+    userId,
+    canEdit: hasRole(role, "editor"),
+    isOwner: hasRole(role, "owner"),
+    reviewers,
+  };
+}
+
+// Reviewers, audit trail and the actions open to this user. Editors also get
+// the workspace members who could be added as reviewers.
+async function loadReview(summary: Summary, userId: string, role: WorkspaceRole) {
+  const [reviewers, events, members] = await Promise.all([
+    storage.getSummaryReviewers(summary.id),
+    storage.getReviewEvents(summary.id),
+    hasRole(role, "editor") && summary.workspaceId ? storage.getWorkspaceMembers(summary.workspaceId) : Promise.resolve([])
+  ]);
+  const candidates = members
+    .filter((member) => member.userId !== summary.userId && !reviewers.some((reviewer) => reviewer.userId === member.userId))
+    .map(({ userId, fullName, email }) => ({ userId, fullName, email }));
+  return {
+    status: summary.status,
+    revision: summary.revision,
+    reviewers,
+    candidates,
+    canManageReviewers: hasRole(role, "editor") && reviewerEditableStatuses.includes(summary.status as SummaryStatus),
+    events,
+    actions: availableReviewActions(reviewState(summary, userId, role, reviewers)),
+  };
+}
+
+// Reviewers signed off on the text as it was, so editing a summary that is
+// in review, approved or sent puts it back to draft. Returns the summary as
+// it stands afterwards.
+async function withdrawSignOff(summary: Summary, userId: string): Promise<Summary> {
+  if (!reviewedStatuses.includes(summary.status as SummaryStatus)) return summary;
+
+  const reopened = await storage.updateSummaryStatus(summary.id, reviewedStatuses, "draft");
+  if (!reopened) return summary;
+  await storage.clearReviewerDecisions(summary.id);
+  await storage.createReviewEvent({
+    summaryId: summary.id,
+    actorId: userId,
+    action: "edit",
+    fromStatus: summary.status,
+    toStatus: reopened.status,
+    revision: reopened.revision,
+  });
+  return reopened;
+}
+
+// Move comment anchors along with an edit to summaryContent. Best effort: a
+// failure leaves anchors where they were rather than failing the save.
+async function rebaseComments(summaryId: string, oldContent: string, newContent: string) {
+  try {
+    const comments = await storage.getAnchoredComments(summaryId);
+    await storage.updateCommentAnchors(rebaseAnchors(comments, oldContent, newContent));
+  } catch (error: any) {
+    console.error(`Failed to move comment anchors for summary ${summaryId}:`, error.message);
+  }
+}
+
+// Bookkeeping after any change to summaryContent: comments follow the text
+// and review sign-off is withdrawn
+async function afterContentEdit(previous: Summary, updated: Summary, userId: string): Promise<Summary> {
+  if (previous.summaryContent === updated.summaryContent) return updated;
+  await rebaseComments(updated.id, previous.summaryContent, updated.summaryContent);
+  return withdrawSignOff(updated, userId);
+}
+
+// Let reviewers know a summary is waiting for them; a failed email does not
+// undo the submission
+async function requestReviews(summary: Summary, reviewers: SummaryReviewer[], requesterId: string, reviewUrl: string) {
+  try {
+    for (const reviewer of reviewers) {
+      await enqueueEmail(
+        { kind: "review-request", summaryId: summary.id, reviewerId: reviewer.userId, requesterId, reviewUrl },
+        requesterId
+      );
+    }
+  } catch (error: any) {
+    console.error(`Failed to queue review requests for summary ${summary.id}:`, error.message);
+  }
+}
+
+// Email everyone in the summary's workspace mentioned in a comment. Like
+// review requests, a failed email does not fail the comment.
+async function notifyMentions(summary: Summary, body: string, authorId: string, commentUrl: string) {
+  if (!summary.workspaceId) return;
+  try {
+    const members = await storage.getWorkspaceMembers(summary.workspaceId);
+    const mentioned = findMentions(body, members).filter((member) => member.userId !== authorId);
+    for (const member of mentioned) {
+      await enqueueEmail(
+        {
+          kind: "mention",
+          summaryId: summary.id,
+          recipient: { email: member.email, fullName: member.fullName },
+          authorId,
+          comment: body,
+          commentUrl
+        },
+        authorId
+      );
+    }
+  } catch (error: any) {
+    console.error(`Failed to queue mention emails for summary ${summary.id}:`, error.message);
+  }
+}
+
+// Why a public share link no longer opens, or null if it does. Revoked and
+// unknown links look the same to the visitor.
+function shareLinkError(link: ShareLink | undefined): { status: 404 | 410; message: string } | null {
+  if (!link || link.revokedAt) return { status: 404, message: "This link is not valid" };
+  if (link.expiresAt && link.expiresAt.getTime() < Date.now()) return { status: 410, message: "This link has expired" };
+  return null;
+}
+
+// The summary's transcript segments. Summaries created before transcripts
+// were segmented get theirs on first use.
+async function loadTranscriptSegments(summary: Summary) {
+  const segments = await storage.getTranscriptSegments(summary.id);
+  if (segments.length > 0 || !summary.originalContent.trim()) {
+    return segments;
+  }
+  return await storage.replaceTranscriptSegments(summary.id, segmentTranscript(summary.originalContent));
+}
+
+// What the summarizer reads: the transcript with speaker names as edited,
+// or the text as ingested when nobody is named in it
+async function promptTranscript(summary: Summary) {
+  const segments = await loadTranscriptSegments(summary);
+  const speakers = listSpeakers(segments).map((speaker) => speaker.name);
+  return {
+    transcript: speakers.length > 0 ? renderTranscript(segments) : summary.originalContent,
+    speakers
+  };
+}
+
+// What insight extraction and transcript chat read: speaker names as edited,
+// on the same lines as originalContent so the lines they cite still match
+async function citableTranscript(summary: Summary) {
+  const segments = await loadTranscriptSegments(summary);
+  return renderTranscriptLines(summary.originalContent, segments);
+}
+
+// Speaker analytics for an export that asked for them; transcripts without
+// named speakers have none to show
+async function exportAnalytics(summary: Summary, requested: boolean) {
+  if (!requested) return undefined;
+  const analytics = analyzeSpeakers(await loadTranscriptSegments(summary));
+  return analytics.speakers.length > 0 ? analytics : undefined;
+}
+
+// Background jobs (see services/jobQueue.ts). Payloads are what each
+// handler needs to redo the work from scratch, since a job can be retried
+// long after the request that queued it.
+interface GenerateSummaryJob {
+  summaryId: string;
+  userId: string;
+}
+
+interface ExportSummaryJob {
+  summaryId: string;
+  format: "pdf" | "docx";
+  analytics: boolean;
+}
+
+// The rendered file is kept in the job until it is downloaded or expires
+interface ExportSummaryResult {
+  filename: string;
+  contentType: string;
+  data: string; // base64
+}
+
+type EmailJob =
+  // Recipients, subject and format are read from the email log entry. A
+  // scheduled email's job carries the send time it was queued for, so a job
+  // left behind by rescheduling can tell it is stale.
+  | { kind: "summary"; emailLogId: string; scheduledFor?: string }
+  | { kind: "review-request"; summaryId: string; reviewerId: string; requesterId: string; reviewUrl: string }
+  | {
+      kind: "mention";
+      summaryId: string;
+      recipient: { email: string; fullName: string };
+      authorId: string;
+      comment: string;
+      commentUrl: string;
+    }
+  | { kind: "workspace-invite"; email: string; workspaceName: string; role: string; acceptUrl: string; senderId: string };
+
+interface TranscribeUploadJob {
+  path: string;
+  filename: string;
+}
+
+const exportContentTypes = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+};
+
+function enqueueEmail(email: EmailJob, userId: string, runAt?: Date) {
+  return enqueueJob("send-email", email, { userId, runAt });
+}
+
+const MAX_SCHEDULE_DAYS = 90;
+
+// When to send a summary email: straight away, after a delay, or at a
+// wall-clock time in a timezone (usually the recipients', not the sender's)
+const emailScheduleSchema = z.object({
+  sendAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, "sendAt must look like 2025-01-31T09:00").optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  delayMinutes: z.number().int().positive().optional()
+});
+
+type EmailSchedule = z.infer<typeof emailScheduleSchema>;
+
+function hasSchedule(schedule: EmailSchedule) {
+  return schedule.sendAt !== undefined || schedule.delayMinutes !== undefined;
+}
+
+function scheduledTime(schedule: EmailSchedule): Date | null {
+  if (schedule.delayMinutes !== undefined) return new Date(Date.now() + schedule.delayMinutes * 60 * 1000);
+  if (schedule.sendAt !== undefined) return zonedTimeToUtc(schedule.sendAt, schedule.timeZone || "UTC");
+  return null;
+}
+
+function scheduleError(schedule: EmailSchedule, scheduledFor: Date): string | null {
+  if (schedule.sendAt !== undefined && schedule.delayMinutes !== undefined) {
+    return "Give either sendAt or delayMinutes, not both";
+  }
+  if (scheduledFor.getTime() <= Date.now()) return "The send time has already passed";
+  if (scheduledFor.getTime() > Date.now() + MAX_SCHEDULE_DAYS * DAY_MS) {
+    return `Emails can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`;
+  }
+  return null;
+}
+
+async function requireUser(id: string) {
+  const user = await storage.getUser(id);
+  if (!user) throw new PermanentJobError("The user who queued this job no longer exists");
+  return user;
+}
+
+async function requireSummary(id: string) {
+  const summary = await storage.getSummary(id);
+  if (!summary) throw new PermanentJobError("The summary was deleted");
+  return summary;
+}
+
+// A job as the user who queued it sees it. Exported files are fetched from
+// the download route rather than sent with every status update.
+function jobResponse(job: Job) {
+  const { payload, lockedBy, lockedAt, ...visible } = job;
+  if (job.type === "export-summary" && job.result) {
+    const { data, ...file } = job.result as ExportSummaryResult;
+    return { ...visible, result: file };
   }
+  return visible;
+}
+
+const RECIPIENT_SUGGESTION_LIMIT = 8;
+
+// Contacts are matched by address, so they are kept lowercased
+const contactEmailSchema = z.string().trim().email().transform((value) => value.toLowerCase());
+
+const contactGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  contactIds: z.array(z.string()).default([]),
+  emails: z.array(contactEmailSchema).default([])
 });
 
+// The ids of a group's members, saving any new addresses as contacts, or
+// an error message if a contact id is not the user's
+async function resolveGroupMembers(ownerId: string, contactIds: string[], emails: string[]): Promise<string[] | string> {
+  let contacts = await storage.getContacts(ownerId);
+  if (contactIds.some((id) => !contacts.some((contact) => contact.id === id))) {
+    return "Groups can only include your own contacts";
+  }
+
+  const newEmails = emails.filter((email) => !contacts.some((contact) => contact.email === email));
+  if (newEmails.length > 0) {
+    await Promise.all(newEmails.map((email) => storage.createContact({ ownerId, email })));
+    contacts = await storage.getContacts(ownerId);
+  }
+
+  const ids = new Set(contactIds);
+  contacts.filter((contact) => emails.includes(contact.email)).forEach((contact) => ids.add(contact.id));
+  return Array.from(ids);
+}
+
+// Send a summary email and record the outcome on its log entry. The entry
+// stays pending while a transient failure is retried and becomes failed once
+// the mail server rejects the message outright or the retries run out.
+async function deliverSummaryEmail({ emailLogId, scheduledFor }: { emailLogId: string; scheduledFor?: string }, lastAttempt: boolean) {
+  let emailLog = await storage.getEmailLog(emailLogId);
+  if (!emailLog) throw new PermanentJobError("The email log entry was deleted");
+  // Sent by an earlier attempt whose job did not finish cleanly, or cancelled
+  if (emailLog.status === "sent" || emailLog.status === "cancelled") return;
+  if (emailLog.status === "scheduled") {
+    // Rescheduled after this job was queued; the job for the new time sends it
+    if (scheduledFor !== emailLog.scheduledFor?.toISOString()) return;
+    const dueLog = await storage.transitionEmailLog(emailLog.id, ["scheduled"], { status: "pending" });
+    // Cancelled a moment ago
+    if (!dueLog) return;
+    emailLog = dueLog;
+  }
+
+  const attempt = { attempts: emailLog.attempts + 1, lastAttemptAt: new Date() };
+  let summary: Summary;
+  let senderId: string;
+  let smtpResponse: string;
+  try {
+    if (!emailLog.sentById) throw new PermanentJobError("The user who sent this email no longer exists");
+    const [loggedSummary, sender] = await Promise.all([requireSummary(emailLog.summaryId), requireUser(emailLog.sentById)]);
+    if (!sendableStatuses.includes(loggedSummary.status as SummaryStatus)) {
+      throw new PermanentJobError("Only approved summaries can be emailed");
+    }
+    summary = loggedSummary;
+    senderId = sender.id;
+    smtpResponse = await sendSummaryEmail(
+      summary,
+      emailLog.recipients as string[],
+      emailLog.subject,
+      emailLog.format as "html" | "pdf" | "both",
+      sender,
+      emailLog.ccSelf
+    );
+  } catch (error: any) {
+    const permanent = error instanceof PermanentJobError || (error instanceof EmailDeliveryError && error.permanent);
+    await storage.updateEmailLog(emailLog.id, {
+      ...attempt,
+      status: permanent || lastAttempt ? "failed" : "pending",
+      error: error.message
+    });
+    throw permanent && !(error instanceof PermanentJobError) ? new PermanentJobError(error.message) : error;
+  }
+
+  await storage.updateEmailLog(emailLog.id, { ...attempt, status: "sent", smtpResponse, error: null, sentAt: new Date() });
+  const sentSummary = await storage.updateSummaryStatus(summary.id, ["approved"], "sent");
+  await storage.createReviewEvent({
+    summaryId: summary.id,
+    actorId: senderId,
+    action: "send",
+    fromStatus: summary.status,
+    toStatus: sentSummary?.status ?? summary.status,
+    revision: sentSummary?.revision ?? summary.revision,
+  });
+}
+
+function registerJobHandlers() {
+  // The summary is streamed as it is written: "progress" and "chunk" output
+  // reaches clients following the job's events. A cancelled job stops the
+  // provider request and leaves the summary untouched.
+  registerJobHandler<GenerateSummaryJob>("generate-summary", {
+    concurrency: 2,
+    maxAttempts: 3,
+    run: async ({ summaryId, userId }, context) => {
+      const [summary, user] = await Promise.all([requireSummary(summaryId), requireUser(userId)]);
+      const provider = getProvider(user.llmProvider);
+      const { transcript, speakers } = await promptTranscript(summary);
+      const chunks = streamSummary(transcript, summary.prompt, summary.tone, {
+        provider,
+        speakers,
+        signal: context.signal,
+        onProgress: (progress) => context.emit("progress", progress)
+      });
+      
+      let aiSummary = "";
+      for await (const chunk of chunks) {
+        aiSummary += chunk;
+        context.emit("chunk", { text: chunk });
+      }
+      context.signal.throwIfAborted();
+      
+      await ensureBaselineVersion(summary, userId);
+      const updatedSummary = await afterContentEdit(summary, await storage.updateSummary(summaryId, {
+        summaryContent: aiSummary,
+        wordCount: aiSummary.split(' ').length
+      }), userId);
+      await recordVersion(updatedSummary, "ai", userId, {
+        prompt: summary.prompt,
+        tone: summary.tone,
+        model: `${provider.name}:${provider.model}`
+      });
+      publishSummaryContent(updatedSummary.id, updatedSummary);
+      await refreshInsights(updatedSummary, provider);
+      void refreshEmbeddings(updatedSummary);
+      return { summaryId, revision: updatedSummary.revision };
+    }
+  });
+
+  registerJobHandler<ExportSummaryJob>("export-summary", {
+    concurrency: 2,
+    maxAttempts: 3,
+    run: async ({ summaryId, format, analytics }): Promise<ExportSummaryResult> => {
+      const summary = await requireSummary(summaryId);
+      const options = { analytics: await exportAnalytics(summary, analytics) };
+      const buffer = format === "pdf" ? await generatePDF(summary, options) : await generateDOCX(summary, options);
+      return {
+        filename: `${summary.title}.${format}`,
+        contentType: exportContentTypes[format],
+        data: buffer.toString("base64")
+      };
+    }
+  });
+
+  registerJobHandler<EmailJob>("send-email", {
+    concurrency: 2,
+    maxAttempts: 5,
+    run: async (email, context) => {
+      switch (email.kind) {
+        case "summary": {
+          await deliverSummaryEmail(email, context.lastAttempt);
+          break;
+        }
+        case "review-request": {
+          const [summary, reviewer, requester] = await Promise.all([
+            requireSummary(email.summaryId),
+            requireUser(email.reviewerId),
+            requireUser(email.requesterId)
+          ]);
+          await sendReviewRequestEmail(reviewer, summary.title, email.reviewUrl, requester);
+          break;
+        }
+        case "mention": {
+          const [summary, author] = await Promise.all([requireSummary(email.summaryId), requireUser(email.authorId)]);
+          await sendMentionEmail(email.recipient, summary.title, email.comment, email.commentUrl, author);
+          break;
+        }
+        case "workspace-invite": {
+          const sender = await requireUser(email.senderId);
+          await sendWorkspaceInviteEmail(email.email, email.workspaceName, email.role, email.acceptUrl, sender);
+          break;
+        }
+      }
+      return null;
+    }
+  });
+
+  // Speech-to-text keeps every core busy, so recordings go one at a time.
+  // processFile deletes the upload once it has been read, so there is
+  // nothing to retry with: the job gets a single attempt. Cancelling it
+  // stops ffmpeg and whisper.cpp.
+  registerJobHandler<TranscribeUploadJob>("transcribe-upload", {
+    concurrency: 1,
+    maxAttempts: 1,
+    run: async ({ path, filename }, context) => {
+      return await processFile(path, filename, {
+        signal: context.signal,
+        onProgress: (_stage, percent) => context.setProgress(percent)
+      });
+    }
+  });
+}
+
+// Index summaries created before semantic search existed (or before the
+// embedder changed) the first time the user queries, a batch at a time.
+async function indexMissingSummaries(userId: string, embedder: IEmbedder) {
+  const missing = await storage.getUnindexedSummaries(userId, embedderKey(embedder), 20);
+  for (const summary of missing) {
+    await refreshEmbeddings(summary, embedder);
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Fail at startup, not on the first summary, if LLM_PROVIDER is misconfigured
+  getDefaultProvider();
+  registerJobHandlers();
+  startJobQueue(storage);
   
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
@@ -40,6 +659,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...validatedData,
         password: hashedPassword
       });
+      await storage.ensurePersonalWorkspace(user);
       
       // Generate JWT token
       const token = generateToken(user.id);
@@ -49,7 +669,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: user.id, 
           email: user.email, 
           fullName: user.fullName,
-          theme: user.theme 
+          theme: user.theme,
+          llmProvider: user.llmProvider
         }, 
         token 
       });
@@ -80,6 +701,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!isValid) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
+      await storage.ensurePersonalWorkspace(user);
       
       // Generate JWT token
       const token = generateToken(user.id);
@@ -89,7 +711,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: user.id, 
           email: user.email, 
           fullName: user.fullName,
-          theme: user.theme 
+          theme: user.theme,
+          llmProvider: user.llmProvider
         }, 
         token 
       });
@@ -107,13 +730,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
+    // Accounts from before workspaces get theirs on their next visit
+    await storage.ensurePersonalWorkspace(user);
     
     res.json({ 
       user: { 
         id: user.id, 
         email: user.email, 
         fullName: user.fullName,
-        theme: user.theme 
+        theme: user.theme,
+        llmProvider: user.llmProvider
       } 
     });
   });
@@ -131,6 +757,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/auth/provider", authMiddleware, async (req, res) => {
+    try {
+      const { llmProvider } = z.object({
+        llmProvider: z.enum(llmProviders).nullable()
+      }).parse(req.body);
+      
+      await storage.updateUserProvider(req.userId!, llmProvider);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid provider value" });
+    }
+  });
+
+  // LLM provider routes
+  app.get("/api/providers", authMiddleware, async (req, res) => {
+    res.json(listProviders());
+  });
+
   // File upload route
   app.post("/api/upload", authMiddleware, upload.single('file'), async (req, res) => {
     try {
@@ -138,10 +782,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
-      const extractedText = await processFile(req.file.path, req.file.mimetype);
+      // Recordings are transcribed in the background; the client follows the job
+      if (isMediaFile(req.file.originalname)) {
+        const job = await enqueueJob("transcribe-upload", { path: req.file.path, filename: req.file.originalname }, { userId: req.userId! });
+        return res.status(202).json(jobResponse(job));
+      }
+      
+      if (req.file.size > DOCUMENT_SIZE_LIMIT) {
+        await fs.promises.unlink(req.file.path);
+        return res.status(413).json({ message: "Documents must be smaller than 10MB" });
+      }
+      
+      const { text, segments } = await processFile(req.file.path, req.file.originalname);
       
       res.json({
-        text: extractedText,
+        text,
+        segments,
         filename: req.file.originalname,
         size: req.file.size
       });
@@ -150,163 +806,1712 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Summary routes
-  app.post("/api/summaries", authMiddleware, async (req, res) => {
+  // Job status routes. Only the user who queued a job can see it; the events
+  // route streams each change until the job finishes, along with any output
+  // the job emits while it runs in this process.
+  app.get("/api/jobs/:jobId", authMiddleware, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.userId !== req.userId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(jobResponse(job));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  app.get("/api/jobs/:jobId/events", authMiddleware, async (req, res) => {
     try {
-      const data = insertSummarySchema.parse(req.body);
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.userId !== req.userId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
       
-      const summary = await storage.createSummary({
-        ...data,
-        userId: req.userId!
-      });
+      const stream = openEventStream(res);
+      stream.send("job", jobResponse(job));
+      if (isFinished(job)) {
+        return stream.close();
+      }
       
-      res.json(summary);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        const validationError = fromZodError(error);
-        return res.status(400).json({ message: validationError.toString() });
+      const unsubscribe = subscribeToJob(job.id, (update) => {
+        stream.send("job", jobResponse(update));
+        if (isFinished(update)) stream.close();
+      });
+      const unsubscribeOutput = subscribeToJobOutput(job.id, ({ event, data }) => stream.send(event, data));
+      const stop = () => {
+        unsubscribe();
+        unsubscribeOutput();
+      };
+      stream.signal.addEventListener("abort", stop);
+      res.on("close", stop);
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to follow job" });
       }
-      res.status(500).json({ message: "Failed to create summary" });
     }
   });
 
-  app.get("/api/summaries", authMiddleware, async (req, res) => {
+  app.get("/api/jobs/:jobId/download", authMiddleware, async (req, res) => {
     try {
-      const summaries = await storage.getUserSummaries(req.userId!);
-      res.json(summaries);
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.userId !== req.userId || job.type !== "export-summary") {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      if (job.status !== "completed") {
+        return res.status(409).json({ message: "The export is not ready" });
+      }
+      
+      const file = job.result as ExportSummaryResult;
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(Buffer.from(file.data, "base64"));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch summaries" });
+      res.status(500).json({ message: "Failed to download export" });
     }
   });
 
-  app.get("/api/summaries/:id", authMiddleware, async (req, res) => {
+  // Dead jobs get a fresh set of attempts
+  app.post("/api/jobs/:jobId/retry", authMiddleware, async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.userId !== req.userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
       
-      res.json(summary);
+      const retried = await storage.retryDeadJob(job.id);
+      if (!retried) {
+        return res.status(409).json({ message: "Only failed jobs can be retried" });
+      }
+      res.json(jobResponse(retried));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch summary" });
+      res.status(500).json({ message: "Failed to retry job" });
     }
   });
 
-  app.patch("/api/summaries/:id", authMiddleware, async (req, res) => {
+  app.post("/api/jobs/:jobId/cancel", authMiddleware, async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.userId !== req.userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
       
-      const updates = z.object({
-        summaryContent: z.string().optional(),
-        status: z.string().optional(),
-        autoSaved: z.boolean().optional(),
-        wordCount: z.number().optional()
+      const cancelled = await cancelJob(job.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "This job has already finished" });
+      }
+      res.json(jobResponse(cancelled));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+
+  // Workspace routes
+  app.get("/api/workspaces", authMiddleware, async (req, res) => {
+    try {
+      const workspaces = await storage.getUserWorkspaces(req.userId!);
+      res.json(workspaces);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", authMiddleware, async (req, res) => {
+    try {
+      const { name } = z.object({
+        name: z.string().trim().min(1).max(100)
       }).parse(req.body);
       
-      const updatedSummary = await storage.updateSummary(req.params.id, updates);
-      res.json(updatedSummary);
+      const workspace = await storage.createWorkspace(name, req.userId!);
+      res.json(workspace);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.toString() });
       }
-      res.status(500).json({ message: "Failed to update summary" });
+      res.status(500).json({ message: "Failed to create workspace" });
     }
   });
 
-  // AI generate summary route
-  app.post("/api/summaries/:id/generate", authMiddleware, async (req, res) => {
+  // Members are visible to everyone in the workspace; pending invites only to owners
+  app.get("/api/workspaces/:id", authMiddleware, requireWorkspaceRole("viewer"), async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
-      }
+      const [workspace, members, invites] = await Promise.all([
+        storage.getWorkspace(req.params.id),
+        storage.getWorkspaceMembers(req.params.id),
+        req.workspaceRole === "owner" ? storage.getWorkspaceInvites(req.params.id) : Promise.resolve([])
+      ]);
       
-      const aiSummary = await generateSummary(summary.originalContent, summary.prompt, summary.tone);
-      
-      const updatedSummary = await storage.updateSummary(req.params.id, {
-        summaryContent: aiSummary,
-        wordCount: aiSummary.split(' ').length
-      });
+      res.json({ ...workspace, role: req.workspaceRole, members, invites });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch workspace" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", authMiddleware, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const { name } = z.object({
+        name: z.string().trim().min(1).max(100)
+      }).parse(req.body);
       
-      res.json(updatedSummary);
+      const workspace = await storage.updateWorkspace(req.params.id, { name });
+      res.json(workspace);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to generate summary: " + error.message });
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update workspace" });
     }
   });
 
-  // Export routes
-  app.get("/api/summaries/:id/export/pdf", authMiddleware, async (req, res) => {
+  // Deleting a workspace deletes its summaries
+  app.delete("/api/workspaces/:id", authMiddleware, requireWorkspaceRole("owner"), async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
+      const workspace = await storage.getWorkspace(req.params.id);
+      if (workspace?.personal) {
+        return res.status(400).json({ message: "Your personal workspace cannot be deleted" });
       }
       
-      const pdfBuffer = await generatePDF(summary);
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${summary.title}.pdf"`);
-      res.send(pdfBuffer);
-    } catch (error: any) {
-      res.status(500).json({ message: "Failed to generate PDF: " + error.message });
+      await storage.deleteWorkspace(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete workspace" });
     }
   });
 
-  app.get("/api/summaries/:id/export/docx", authMiddleware, async (req, res) => {
+  app.patch("/api/workspaces/:id/members/:userId", authMiddleware, requireWorkspaceRole("owner"), async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
-      }
+      const { role } = z.object({
+        role: z.enum(workspaceRoles)
+      }).parse(req.body);
       
-      const docxBuffer = await generateDOCX(summary);
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      const member = members.find((m) => m.userId === req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.role === "owner" && role !== "owner" && members.filter((m) => m.role === "owner").length === 1) {
+        return res.status(400).json({ message: "A workspace needs at least one owner" });
+      }
       
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-      res.setHeader('Content-Disposition', `attachment; filename="${summary.title}.docx"`);
-      res.send(docxBuffer);
+      await storage.updateWorkspaceMemberRole(req.params.id, req.params.userId, role);
+      res.json({ success: true });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to generate DOCX: " + error.message });
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update member" });
     }
   });
 
-  // Email route
-  app.post("/api/summaries/:id/email", authMiddleware, async (req, res) => {
+  // Owners can remove anyone; every member can remove themselves (leave)
+  app.delete("/api/workspaces/:id/members/:userId", authMiddleware, requireWorkspaceRole("viewer"), async (req, res) => {
     try {
-      const summary = await storage.getSummary(req.params.id);
-      if (!summary || summary.userId !== req.userId!) {
-        return res.status(404).json({ message: "Summary not found" });
+      if (req.params.userId !== req.userId! && req.workspaceRole !== "owner") {
+        return res.status(403).json({ message: "This requires owner access to the workspace" });
       }
       
-      const { recipients, subject, format, ccSelf } = z.object({
-        recipients: z.array(z.string().email()),
-        subject: z.string(),
-        format: z.enum(["html", "pdf", "both"]),
-        ccSelf: z.boolean().optional()
-      }).parse(req.body);
+      const [workspace, members] = await Promise.all([
+        storage.getWorkspace(req.params.id),
+        storage.getWorkspaceMembers(req.params.id)
+      ]);
+      const member = members.find((m) => m.userId === req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (workspace?.personal && member.userId === workspace.createdById) {
+        return res.status(400).json({ message: "You cannot leave your personal workspace" });
+      }
+      if (member.role === "owner" && members.filter((m) => m.role === "owner").length === 1) {
+        return res.status(400).json({ message: "A workspace needs at least one owner" });
+      }
       
-      const user = await storage.getUser(req.userId!);
+      await storage.removeWorkspaceMember(req.params.id, req.params.userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/invites", authMiddleware, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const { email, role } = z.object({
+        email: z.string().email().transform((value) => value.toLowerCase()),
+        role: z.enum(["editor", "viewer"])
+      }).parse(req.body);
       
-      await sendSummaryEmail(summary, recipients, subject, format, user!, ccSelf);
+      const [workspace, members] = await Promise.all([
+        storage.getWorkspace(req.params.id),
+        storage.getWorkspaceMembers(req.params.id)
+      ]);
+      if (members.some((m) => m.email.toLowerCase() === email)) {
+        return res.status(409).json({ message: "That person is already a member" });
+      }
       
-      // Log the email
-      await storage.createEmailLog({
-        summaryId: summary.id,
-        recipients,
-        subject,
-        format,
-        status: "sent"
+      const invite = await storage.createWorkspaceInvite({
+        workspaceId: req.params.id,
+        email,
+        role,
+        token: generateLinkToken(),
+        invitedById: req.userId!,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS)
       });
       
-      res.json({ success: true, message: "Email sent successfully" });
+      // The invite stands even if the email cannot be queued; owners can copy the link instead
+      let emailQueued = true;
+      try {
+        const acceptUrl = `${req.protocol}://${req.get("host")}/invites/${invite.token}`;
+        await enqueueEmail({ kind: "workspace-invite", email, workspaceName: workspace!.name, role, acceptUrl, senderId: req.userId! }, req.userId!);
+      } catch (error: any) {
+        console.error(`Failed to queue the email for invite ${invite.id}:`, error.message);
+        emailQueued = false;
+      }
+      
+      res.json({ ...invite, emailQueued });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/invites/:inviteId", authMiddleware, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const invites = await storage.getWorkspaceInvites(req.params.id);
+      if (!invites.some((invite) => invite.id === req.params.inviteId)) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      
+      await storage.deleteWorkspaceInvite(req.params.inviteId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  // Invitations addressed to the signed-in user's email
+  app.get("/api/invites", authMiddleware, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      const invites = await storage.getPendingInvitesForEmail(user!.email);
+      res.json(invites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.get("/api/invites/:token", authMiddleware, async (req, res) => {
+    try {
+      const invite = await storage.getWorkspaceInviteByToken(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      res.json(invite);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  // The link only works for the account the invite was addressed to
+  app.post("/api/invites/:token/accept", authMiddleware, async (req, res) => {
+    try {
+      const [invite, user] = await Promise.all([
+        storage.getWorkspaceInviteByToken(req.params.token),
+        storage.getUser(req.userId!)
+      ]);
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      if (invite.email !== user!.email.toLowerCase()) {
+        return res.status(403).json({ message: `This invite was sent to ${invite.email}` });
+      }
+      if (invite.acceptedAt) {
+        return res.status(410).json({ message: "This invite has already been used" });
+      }
+      if (invite.expiresAt.getTime() < Date.now()) {
+        return res.status(410).json({ message: "This invite has expired" });
+      }
+      
+      await storage.acceptWorkspaceInvite(invite.id, req.userId!);
+      res.json({ workspaceId: invite.workspaceId });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
+  // Summary routes
+  app.post("/api/summaries", authMiddleware, async (req, res) => {
+    try {
+      const { transcriptSegments, ...data } = insertSummarySchema.extend({
+        transcriptSegments: z.array(transcriptSegmentSchema).nullish()
+      }).parse(req.body);
+      
+      // New summaries go to the user's personal workspace unless another is chosen
+      if (data.workspaceId) {
+        const role = await storage.getWorkspaceRole(data.workspaceId, req.userId!);
+        if (!role) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!hasRole(role, "editor")) {
+          return res.status(403).json({ message: "This requires editor access to the workspace" });
+        }
+      } else {
+        const user = await storage.getUser(req.userId!);
+        data.workspaceId = (await storage.ensurePersonalWorkspace(user!)).id;
+      }
+      
+      const summary = await storage.createSummary({
+        ...data,
+        status: "draft",
+        userId: req.userId!
+      });
+      // Segments from an uploaded file are kept as parsed (captions carry cue
+      // times the text alone does not); anything else is segmented here
+      const segments = transcriptSegments && segmentsMatchTranscript(data.originalContent, transcriptSegments)
+        ? transcriptSegments
+        : segmentTranscript(data.originalContent);
+      await storage.replaceTranscriptSegments(summary.id, segments);
+      void refreshEmbeddings(summary);
+      
+      res.json(summary);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to create summary" });
+    }
+  });
+
+  app.get("/api/summaries", authMiddleware, async (req, res) => {
+    try {
+      const query = z.object({
+        workspaceId: z.string().optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        pageSize: z.coerce.number().int().min(1).max(100).default(20),
+        sort: z.enum(["updatedAt", "createdAt", "title", "wordCount"]).default("updatedAt"),
+        order: z.enum(["asc", "desc"]).default("desc"),
+        status: z.enum(summaryStatuses).optional(),
+        tone: z.enum(summaryTones).optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional()
+      }).parse(req.query);
+      
+      const summaries = await storage.listUserSummaries(req.userId!, query);
+      res.json(summaries);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to fetch summaries" });
+    }
+  });
+
+  // Full-text search over titles, summaries and transcripts
+  app.get("/api/search", authMiddleware, async (req, res) => {
+    try {
+      const { q, limit } = z.object({
+        q: z.string().trim().min(1).max(200),
+        limit: z.coerce.number().int().min(1).max(50).default(20)
+      }).parse(req.query);
+      
+      const results = await storage.searchSummaries(req.userId!, q, limit);
+      res.json(results);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to search summaries" });
+    }
+  });
+
+  // Semantic search over embedded transcript passages and summary sections
+  app.get("/api/semantic-search", authMiddleware, async (req, res) => {
+    try {
+      const { q, limit } = z.object({
+        q: z.string().trim().min(1).max(500),
+        limit: z.coerce.number().int().min(1).max(50).default(10)
+      }).parse(req.query);
+      
+      const embedder = getEmbedder();
+      await indexMissingSummaries(req.userId!, embedder);
+      const chunks = await storage.getUserEmbeddingChunks(req.userId!, embedderKey(embedder));
+      const results = await rankChunks(q, chunks, limit, embedder);
+      res.json(results);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to search summaries" });
+    }
+  });
+
+  // Answer a question across all of the user's meetings, citing the passages used
+  app.post("/api/ask", authMiddleware, async (req, res) => {
+    try {
+      const { question, limit } = z.object({
+        question: z.string().trim().min(3).max(500),
+        limit: z.number().int().min(1).max(20).default(8)
+      }).parse(req.body);
+      
+      const embedder = getEmbedder();
+      await indexMissingSummaries(req.userId!, embedder);
+      const chunks = await storage.getUserEmbeddingChunks(req.userId!, embedderKey(embedder));
+      const passages = await rankChunks(question, chunks, limit, embedder);
+      
+      const user = await storage.getUser(req.userId!);
+      const answer = await answerQuestion(question, passages, getProvider(user?.llmProvider));
+      res.json(answer);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to answer question: " + error.message });
+    }
+  });
+
+  app.get("/api/summaries/:id", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      res.set("ETag", summaryETag(summary));
+      res.json({ ...summary, role: req.workspaceRole });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch summary" });
+    }
+  });
+
+  app.patch("/api/summaries/:id", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      // Status is changed only through the review workflow
+      const updates = z.object({
+        summaryContent: z.string().optional(),
+        autoSaved: z.boolean().optional(),
+        wordCount: z.number().optional()
+      }).parse(req.body);
+      
+      if (updates.summaryContent !== undefined) {
+        await ensureBaselineVersion(summary, req.userId!);
+      }
+      
+      // With If-Match the edit only applies to the revision the client last saw;
+      // otherwise it would silently overwrite changes from another tab or teammate
+      const expectedRevision = parseIfMatch(req.get("If-Match"));
+      let updatedSummary = expectedRevision === null
+        ? await storage.updateSummary(req.params.id, updates)
+        : await storage.updateSummaryIfRevision(req.params.id, expectedRevision, updates);
+      
+      if (!updatedSummary) {
+        const current = await storage.getSummary(req.params.id);
+        if (!current) {
+          return res.status(404).json({ message: "Summary not found" });
+        }
+        res.set("ETag", summaryETag(current));
+        return res.status(409).json({
+          message: "This summary was changed elsewhere since you last loaded it",
+          summary: current
+        });
+      }
+      
+      updatedSummary = await afterContentEdit(summary, updatedSummary, req.userId!);
+      if (updates.summaryContent !== undefined) {
+        await recordVersion(updatedSummary, updates.autoSaved === false ? "manual" : "autosave", req.userId!);
+        scheduleReindex(updatedSummary);
+        publishSummaryContent(updatedSummary.id, updatedSummary);
+      }
+      res.set("ETag", summaryETag(updatedSummary));
+      res.json(updatedSummary);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update summary" });
+    }
+  });
+
+  // AI generate summary route. Generation runs as a job; the response is
+  // the queued job, whose result names the new revision. Its events route
+  // streams the text as it is written.
+  app.post("/api/summaries/:id/generate", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const job = await enqueueJob("generate-summary", { summaryId: req.summary!.id, userId: req.userId! }, { userId: req.userId! });
+      res.status(202).json(jobResponse(job));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to queue summary generation: " + error.message });
+    }
+  });
+
+  app.post("/api/summaries/:id/index", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const embedder = getEmbedder();
+      const chunks = await buildSummaryEmbeddings(summary, embedder);
+      await storage.replaceSummaryEmbeddings(summary.id, embedderKey(embedder), chunks);
+      res.json({ chunks: chunks.length });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to index summary: " + error.message });
+    }
+  });
+
+  // Version history routes
+  app.get("/api/summaries/:id/versions", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const versions = await storage.getSummaryVersions(summary.id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch versions" });
+    }
+  });
+
+  // Line diff between two versions; "current" compares against the live summary
+  app.get("/api/summaries/:id/versions/diff", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const versionParam = z.union([z.literal("current"), z.coerce.number().int().min(1)]);
+      const { from, to } = z.object({ from: versionParam, to: versionParam.default("current") }).parse(req.query);
+      
+      const resolve = async (version: number | "current") =>
+        version === "current" ? summary.summaryContent : (await storage.getSummaryVersion(summary.id, version))?.content;
+      const [fromContent, toContent] = await Promise.all([resolve(from), resolve(to)]);
+      if (fromContent === undefined || toContent === undefined) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      res.json({ from, to, lines: diffLines(fromContent, toContent) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to diff versions" });
+    }
+  });
+
+  app.get("/api/summaries/:id/versions/:version", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const version = await storage.getSummaryVersion(summary.id, parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch version" });
+    }
+  });
+
+  // Restoring never rewrites history: it records the old content as a new version
+  app.post("/api/summaries/:id/versions/:version/restore", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const version = await storage.getSummaryVersion(summary.id, parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      await ensureBaselineVersion(summary, req.userId!);
+      const updatedSummary = await afterContentEdit(summary, await storage.updateSummary(summary.id, {
+        summaryContent: version.content,
+        wordCount: version.wordCount
+      }), req.userId!);
+      await recordVersion(updatedSummary, "manual", req.userId!, { restoredFrom: version.version });
+      scheduleReindex(updatedSummary);
+      publishSummaryContent(updatedSummary.id, updatedSummary);
+      
+      res.set("ETag", summaryETag(updatedSummary));
+      res.json(updatedSummary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore version" });
+    }
+  });
+
+  // Review workflow routes (approval before a summary can be sent)
+  app.get("/api/summaries/:id/review", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      res.json(await loadReview(req.summary!, req.userId!, req.workspaceRole!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review" });
+    }
+  });
+
+  // Reviewers act here too, and a reviewer may only have viewer access
+  app.post("/api/summaries/:id/review", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const { action, comment } = z.object({
+        action: z.enum(reviewActions),
+        comment: z.string().trim().max(2000).optional()
+      }).parse(req.body);
+      
+      const reviewers = await storage.getSummaryReviewers(summary.id);
+      const state = reviewState(summary, req.userId!, req.workspaceRole!, reviewers);
+      const actionError = reviewActionError(action, state);
+      if (actionError) {
+        return res.status(actionError.status).json({ message: actionError.message });
+      }
+      
+      const updatedSummary = await storage.recordReviewAction(summary.id, {
+        actorId: req.userId!,
+        action,
+        comment: comment || null,
+        fromStatus: state.status,
+        decision: action === "submit" ? null : reviewDecisionFor(action),
+      }, (decided) => nextReviewStatus(action, { ...state, reviewers: decided }));
+      if (!updatedSummary) {
+        return res.status(409).json({ message: "This summary's status changed in the meantime; reload and try again" });
+      }
+      
+      if (action === "submit") {
+        void requestReviews(updatedSummary, reviewers, req.userId!, `${req.protocol}://${req.get("host")}/summaries/${summary.id}`);
+      }
+      
+      res.set("ETag", summaryETag(updatedSummary));
+      res.json(await loadReview(updatedSummary, req.userId!, req.workspaceRole!));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update review" });
+    }
+  });
+
+  app.post("/api/summaries/:id/review/comments", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const { comment } = z.object({
+        comment: z.string().trim().min(1).max(2000)
+      }).parse(req.body);
+      
+      await storage.createReviewEvent({
+        summaryId: summary.id,
+        actorId: req.userId!,
+        action: "comment",
+        comment,
+        revision: summary.revision,
+      });
+      res.json(await loadReview(summary, req.userId!, req.workspaceRole!));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  app.post("/api/summaries/:id/reviewers", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const { userId } = z.object({
+        userId: z.string()
+      }).parse(req.body);
+      
+      if (!reviewerEditableStatuses.includes(summary.status as SummaryStatus)) {
+        return res.status(409).json({ message: "Reviewers cannot be changed while the summary is in review or approved" });
+      }
+      if (userId === summary.userId) {
+        return res.status(400).json({ message: "The author cannot review their own summary" });
+      }
+      if (!summary.workspaceId || !(await storage.getWorkspaceRole(summary.workspaceId, userId))) {
+        return res.status(400).json({ message: "Reviewers must be members of the summary's workspace" });
+      }
+      const reviewers = await storage.getSummaryReviewers(summary.id);
+      if (reviewers.some((reviewer) => reviewer.userId === userId)) {
+        return res.status(409).json({ message: "Already a reviewer" });
+      }
+      
+      await storage.addSummaryReviewer(summary.id, userId, req.userId!);
+      await storage.createReviewEvent({
+        summaryId: summary.id,
+        actorId: req.userId!,
+        action: "add_reviewer",
+        subjectUserId: userId,
+        revision: summary.revision,
+      });
+      res.json(await loadReview(summary, req.userId!, req.workspaceRole!));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to add reviewer" });
+    }
+  });
+
+  app.delete("/api/summaries/:id/reviewers/:userId", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      if (!reviewerEditableStatuses.includes(summary.status as SummaryStatus)) {
+        return res.status(409).json({ message: "Reviewers cannot be changed while the summary is in review or approved" });
+      }
+      const reviewers = await storage.getSummaryReviewers(summary.id);
+      if (!reviewers.some((reviewer) => reviewer.userId === req.params.userId)) {
+        return res.status(404).json({ message: "Reviewer not found" });
+      }
+      
+      await storage.removeSummaryReviewer(summary.id, req.params.userId);
+      await storage.createReviewEvent({
+        summaryId: summary.id,
+        actorId: req.userId!,
+        action: "remove_reviewer",
+        subjectUserId: req.params.userId,
+        revision: summary.revision,
+      });
+      res.json(await loadReview(summary, req.userId!, req.workspaceRole!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove reviewer" });
+    }
+  });
+
+  // Inline comment routes. Anyone who can read a summary can comment on it
+  // and suggest edits; editors accept or reject the suggestions.
+  app.get("/api/summaries/:id/comments", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const threads = await storage.getCommentThreads(req.summary!.id);
+      res.json(threads);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/summaries/:id/comments", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const data = z.object({
+        body: z.string().trim().max(5000).default(""),
+        parentId: z.string().optional(),
+        anchor: z.object({
+          start: z.number().int().min(0),
+          quote: z.string().min(1)
+        }).optional(),
+        suggestion: z.string().max(5000).optional()
+      }).parse(req.body);
+      
+      if (!data.body && data.suggestion === undefined) {
+        return res.status(400).json({ message: "Write a comment or suggest an edit" });
+      }
+      
+      let anchorStart: number | null = null;
+      if (data.parentId) {
+        const parent = await storage.getSummaryComment(data.parentId);
+        if (!parent || parent.summaryId !== summary.id || parent.parentId) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        if (data.anchor || data.suggestion !== undefined) {
+          return res.status(400).json({ message: "Replies cannot have their own passage or suggestion" });
+        }
+        // Replying to a resolved thread reopens it
+        if (parent.resolvedAt) {
+          await storage.updateSummaryComment(parent.id, { resolvedAt: null, resolvedById: null });
+        }
+      } else {
+        if (data.suggestion !== undefined && !data.anchor) {
+          return res.status(400).json({ message: "A suggestion needs a selected passage to replace" });
+        }
+        if (data.anchor) {
+          anchorStart = locateQuote(summary.summaryContent, data.anchor.quote, data.anchor.start);
+          if (anchorStart === null) {
+            return res.status(409).json({ message: "The selected passage is no longer in the summary; save your changes and try again" });
+          }
+        }
+      }
+      
+      const comment = await storage.createSummaryComment({
+        summaryId: summary.id,
+        authorId: req.userId!,
+        parentId: data.parentId ?? null,
+        body: data.body,
+        anchorStart,
+        anchorEnd: anchorStart !== null ? anchorStart + data.anchor!.quote.length : null,
+        quote: data.anchor?.quote ?? null,
+        suggestion: data.suggestion ?? null,
+        suggestionStatus: data.suggestion !== undefined ? "pending" : null
+      });
+      
+      if (data.body) {
+        const commentUrl = `${req.protocol}://${req.get("host")}/summaries/${summary.id}#comment-${data.parentId ?? comment.id}`;
+        void notifyMentions(summary, data.body, req.userId!, commentUrl);
+      }
+      res.json(comment);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  app.patch("/api/summaries/:id/comments/:commentId", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const comment = await storage.getSummaryComment(req.params.commentId);
+      if (!comment || comment.summaryId !== summary.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      const { body, resolved } = z.object({
+        body: z.string().trim().min(1).max(5000).optional(),
+        resolved: z.boolean().optional()
+      }).parse(req.body);
+      
+      const isAuthor = comment.authorId === req.userId;
+      if (body !== undefined && !isAuthor) {
+        return res.status(403).json({ message: "Only the author can edit this comment" });
+      }
+      if (resolved !== undefined) {
+        if (comment.parentId) {
+          return res.status(400).json({ message: "Only whole threads can be resolved" });
+        }
+        if (!isAuthor && !hasRole(req.workspaceRole, "editor")) {
+          return res.status(403).json({ message: "Only the author or an editor can resolve this thread" });
+        }
+      }
+      
+      const updatedComment = await storage.updateSummaryComment(comment.id, {
+        ...(body !== undefined ? { body } : {}),
+        ...(resolved !== undefined
+          ? { resolvedAt: resolved ? new Date() : null, resolvedById: resolved ? req.userId! : null }
+          : {})
+      });
+      res.json(updatedComment);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  app.delete("/api/summaries/:id/comments/:commentId", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const comment = await storage.getSummaryComment(req.params.commentId);
+      if (!comment || comment.summaryId !== req.summary!.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== req.userId && !hasRole(req.workspaceRole, "editor")) {
+        return res.status(403).json({ message: "Only the author or an editor can delete this comment" });
+      }
+      
+      await storage.deleteSummaryComment(comment.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Replace the passage with the suggested text, as long as the passage still
+  // reads the way it did when the suggestion was made
+  app.post("/api/summaries/:id/comments/:commentId/accept", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const comment = await storage.getSummaryComment(req.params.commentId);
+      if (!comment || comment.summaryId !== summary.id || comment.suggestion === null) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      if (comment.suggestionStatus !== "pending") {
+        return res.status(409).json({ message: `This suggestion was already ${comment.suggestionStatus}` });
+      }
+      if (comment.anchorStart === null || comment.anchorEnd === null) {
+        return res.status(409).json({ message: "The passage this suggestion replaces has been deleted" });
+      }
+      if (summary.summaryContent.slice(comment.anchorStart, comment.anchorEnd) !== comment.quote) {
+        return res.status(409).json({ message: "The passage has changed since this suggestion was made" });
+      }
+      
+      const content = summary.summaryContent.slice(0, comment.anchorStart) +
+        comment.suggestion +
+        summary.summaryContent.slice(comment.anchorEnd);
+      
+      // Only applies to the revision the passage was checked against, so an
+      // edit landing in between is not overwritten with stale content
+      await ensureBaselineVersion(summary, req.userId!);
+      const replacedSummary = await storage.updateSummaryIfRevision(summary.id, summary.revision, {
+        summaryContent: content,
+        wordCount: content.trim() ? content.trim().split(/\s+/).length : 0
+      });
+      if (!replacedSummary) {
+        return res.status(409).json({ message: "This summary was changed elsewhere; reload and try again" });
+      }
+      const updatedSummary = await afterContentEdit(summary, replacedSummary, req.userId!);
+      await recordVersion(updatedSummary, "manual", req.userId!);
+      scheduleReindex(updatedSummary);
+      publishSummaryContent(updatedSummary.id, updatedSummary);
+      
+      // The thread now points at the replacement text
+      await storage.updateSummaryComment(comment.id, {
+        suggestionStatus: "accepted",
+        resolvedAt: new Date(),
+        resolvedById: req.userId!,
+        anchorStart: comment.suggestion ? comment.anchorStart : null,
+        anchorEnd: comment.suggestion ? comment.anchorStart + comment.suggestion.length : null
+      });
+      
+      res.set("ETag", summaryETag(updatedSummary));
+      res.json(updatedSummary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept suggestion" });
+    }
+  });
+
+  app.post("/api/summaries/:id/comments/:commentId/reject", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const comment = await storage.getSummaryComment(req.params.commentId);
+      if (!comment || comment.summaryId !== req.summary!.id || comment.suggestion === null) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      if (comment.suggestionStatus !== "pending") {
+        return res.status(409).json({ message: `This suggestion was already ${comment.suggestionStatus}` });
+      }
+      
+      const updatedComment = await storage.updateSummaryComment(comment.id, {
+        suggestionStatus: "rejected",
+        resolvedAt: new Date(),
+        resolvedById: req.userId!
+      });
+      res.json(updatedComment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject suggestion" });
+    }
+  });
+
+  // Transcript routes. Speakers are renamed or merged on the segments; the
+  // ingested text in originalContent stays as it was.
+  app.get("/api/summaries/:id/transcript", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const segments = await loadTranscriptSegments(req.summary!);
+      res.json({ segments, speakers: listSpeakers(segments) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transcript" });
+    }
+  });
+
+  // Renaming to a name another speaker already has merges the two
+  app.patch("/api/summaries/:id/transcript/speakers", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const { from, to } = z.object({
+        from: z.string().min(1),
+        to: z.string().trim().min(1).max(80)
+      }).parse(req.body);
+      
+      const current = await loadTranscriptSegments(summary);
+      if (!current.some((segment) => segment.speaker === from)) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      
+      await storage.renameTranscriptSpeaker(summary.id, from, to);
+      const segments = await storage.getTranscriptSegments(summary.id);
+      res.json({ segments, speakers: listSpeakers(segments) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to rename speaker" });
+    }
+  });
+
+  app.get("/api/summaries/:id/analytics", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const segments = await loadTranscriptSegments(req.summary!);
+      res.json(analyzeSpeakers(segments));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compute speaker analytics" });
+    }
+  });
+
+  // Share link routes. Editors create read-only links for people outside
+  // the workspace; the links open without an account.
+  app.get("/api/summaries/:id/share-links", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const links = await storage.getShareLinks(req.summary!.id);
+      res.json(links);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/summaries/:id/share-links", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const { expiresInDays, password, allowTranscript } = z.object({
+        expiresInDays: z.number().int().min(1).max(365).nullable().default(null),
+        password: z.string().min(4).max(200).optional(),
+        allowTranscript: z.boolean().default(false)
+      }).parse(req.body);
+      
+      const link = await storage.createShareLink({
+        summaryId: req.summary!.id,
+        token: generateLinkToken(),
+        createdById: req.userId!,
+        passwordHash: password ? await hashPassword(password) : null,
+        allowTranscript,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null
+      });
+      
+      res.json(await storage.getShareLinkDetails(link.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  // Revoked links are kept so their view counts remain visible
+  app.delete("/api/summaries/:id/share-links/:linkId", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const link = await storage.getShareLinkDetails(req.params.linkId);
+      if (!link || link.summaryId !== req.summary!.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      
+      await storage.revokeShareLink(link.id);
+      res.json(await storage.getShareLinkDetails(link.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // Public share routes (no authentication). Only what the read-only page
+  // renders is returned, and the transcript only when the link allows it.
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+      const linkError = shareLinkError(link);
+      if (linkError) {
+        return res.status(linkError.status).json({ message: linkError.message });
+      }
+      
+      const summary = await storage.getSummary(link!.summaryId);
+      res.json({
+        title: summary!.title,
+        requiresPassword: !!link!.passwordHash,
+        expiresAt: link!.expiresAt
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open shared summary" });
+    }
+  });
+
+  // POST so the password travels in the body; each successful open counts
+  // as a view. A missing or wrong password answers 403, not 401, since the
+  // visitor has no session to renew.
+  app.post("/api/shared/:token/view", async (req, res) => {
+    try {
+      const { password } = z.object({
+        password: z.string().max(200).optional()
+      }).parse(req.body);
+      
+      const link = await storage.getShareLinkByToken(req.params.token);
+      const linkError = shareLinkError(link);
+      if (linkError) {
+        return res.status(linkError.status).json({ message: linkError.message });
+      }
+      if (link!.passwordHash) {
+        if (!password) {
+          return res.status(403).json({ message: "This link needs a password", requiresPassword: true });
+        }
+        if (!await verifyPassword(password, link!.passwordHash)) {
+          return res.status(403).json({ message: "Incorrect password", requiresPassword: true });
+        }
+      }
+      
+      const summary = await storage.getSummary(link!.summaryId);
+      await storage.recordShareLinkView(link!.id);
+      res.json({
+        title: summary!.title,
+        summaryContent: summary!.summaryContent,
+        wordCount: summary!.wordCount,
+        tone: summary!.tone,
+        createdAt: summary!.createdAt,
+        updatedAt: summary!.updatedAt,
+        transcript: link!.allowTranscript ? summary!.originalContent : null,
+        transcriptSegments: link!.allowTranscript ? await loadTranscriptSegments(summary!) : null
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to open shared summary" });
+    }
+  });
+
+  // Transcript chat routes (follow-up questions about a single meeting)
+  app.get("/api/summaries/:id/chat", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const messages = await storage.getChatMessages(summary.id);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.post("/api/summaries/:id/chat", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const { message } = z.object({
+        message: z.string().trim().min(1).max(2000)
+      }).parse(req.body);
+      const askedAt = new Date();
+      
+      const user = await storage.getUser(req.userId!);
+      const provider = getProvider(user?.llmProvider);
+      
+      // Long transcripts: answer from the passages the semantic index ranks highest
+      const transcript = await citableTranscript(summary);
+      let passages;
+      if (!transcriptFitsContext(transcript, provider)) {
+        const embedder = getEmbedder();
+        let chunks = await storage.getUserEmbeddingChunks(req.userId!, embedderKey(embedder), summary.id);
+        if (chunks.length === 0) {
+          await refreshEmbeddings(summary, embedder);
+          chunks = await storage.getUserEmbeddingChunks(req.userId!, embedderKey(embedder), summary.id);
+        }
+        const transcriptChunks = chunks.filter((chunk) => chunk.source === "transcript");
+        passages = (await rankChunks(message, transcriptChunks, 8, embedder)).flatMap(({ startLine, endLine }) =>
+          startLine && endLine ? [{ startLine, endLine }] : []
+        );
+      }
+      
+      const history = await storage.getChatMessages(summary.id);
+      const reply = await answerTranscriptQuestion(transcript, history, message, { provider, passages });
+      
+      const saved = await storage.createChatMessages([
+        { summaryId: summary.id, role: "user", content: message, createdAt: askedAt },
+        { summaryId: summary.id, role: "assistant", content: reply.answer, excerpts: reply.excerpts, createdAt: new Date() },
+      ]);
+      res.json(saved);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to answer question: " + error.message });
+    }
+  });
+
+  app.delete("/api/summaries/:id/chat", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      await storage.clearChatMessages(summary.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear conversation" });
+    }
+  });
+
+  // Insight routes (action items, decisions, open questions, risks)
+  app.get("/api/summaries/:id/insights", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const insights = await storage.getSummaryInsights(summary.id);
+      res.json(insights);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch insights" });
+    }
+  });
+
+  app.post("/api/summaries/:id/insights/extract", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const user = await storage.getUser(req.userId!);
+      const extracted = await extractInsights(await citableTranscript(summary), summary.summaryContent, getProvider(user?.llmProvider));
+      const insights = await storage.replaceSummaryInsights(summary.id, extracted);
+      res.json(insights);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to extract insights: " + error.message });
+    }
+  });
+
+  app.post("/api/summaries/:id/action-items", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      
+      const data = insertActionItemSchema.parse(req.body);
+      const item = await storage.createActionItem(summary.id, data);
+      res.json(item);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to create action item" });
+    }
+  });
+
+  app.get("/api/action-items", authMiddleware, async (req, res) => {
+    try {
+      const filters = z.object({
+        owner: z.string().optional(),
+        status: z.enum(actionItemStatuses).optional(),
+        summaryId: z.string().optional(),
+        dueFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        dueTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        noDueDate: z.enum(["true", "false"]).transform((value) => value === "true").optional()
+      }).parse(req.query);
+      
+      const items = await storage.getUserActionItems(req.userId!, filters);
+      res.json(items);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to fetch action items" });
+    }
+  });
+
+  app.patch("/api/action-items/:id", authMiddleware, requireActionItemRole("editor"), async (req, res) => {
+    try {
+      const item = req.actionItem!;
+      
+      const updates = insertActionItemSchema.partial().parse(req.body);
+      // Remember what the user changed so re-extraction does not undo it
+      const changed = actionItemFields.filter((field) => updates[field] !== undefined && updates[field] !== item[field]);
+      const editedFields = Array.from(new Set([...item.editedFields, ...changed]));
+      const updatedItem = await storage.updateActionItem(item.id, { ...updates, editedFields });
+      res.json(updatedItem);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update action item" });
+    }
+  });
+
+  app.delete("/api/action-items/:id", authMiddleware, requireActionItemRole("editor"), async (req, res) => {
+    try {
+      const item = req.actionItem!;
+      
+      await storage.deleteActionItem(item.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete action item" });
+    }
+  });
+
+  // Export routes. Rendering runs as a job; the file is downloaded from
+  // /api/jobs/:jobId/download once it is done.
+  app.post("/api/summaries/:id/exports", authMiddleware, requireSummaryRole("viewer"), async (req, res) => {
+    try {
+      const { format, analytics } = z.object({
+        format: z.enum(["pdf", "docx"]),
+        analytics: z.boolean().default(false)
+      }).parse(req.body);
+      
+      const job = await enqueueJob("export-summary", { summaryId: req.summary!.id, format, analytics }, { userId: req.userId! });
+      res.status(202).json(jobResponse(job));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to queue export: " + error.message });
+    }
+  });
+
+  // Email route. The log entry is written before anything is sent, so every
+  // attempt shows up in the summary's email history. Scheduled emails wait
+  // as queued jobs due at their send time.
+  app.post("/api/summaries/:id/email", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      if (!sendableStatuses.includes(summary.status as SummaryStatus)) {
+        return res.status(409).json({ message: "Only approved summaries can be emailed" });
+      }
+      
+      const { recipients, subject, format, ccSelf, ...schedule } = z.object({
+        recipients: z.array(z.string().email()).min(1),
+        subject: z.string(),
+        format: z.enum(["html", "pdf", "both"]),
+        ccSelf: z.boolean().optional()
+      }).merge(emailScheduleSchema).parse(req.body);
+      
+      const scheduledFor = scheduledTime(schedule);
+      const error = scheduledFor && scheduleError(schedule, scheduledFor);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const emailLog = await storage.createEmailLog({
+        summaryId: summary.id,
+        sentById: req.userId!,
+        recipients,
+        subject,
+        format,
+        ccSelf: !!ccSelf,
+        status: scheduledFor ? "scheduled" : "pending",
+        scheduledFor,
+        timeZone: scheduledFor ? schedule.timeZone || null : null
+      });
+      const job = await enqueueEmail(
+        { kind: "summary", emailLogId: emailLog.id, scheduledFor: scheduledFor?.toISOString() },
+        req.userId!,
+        scheduledFor ?? undefined
+      );
+      res.status(202).json({ emailLog: await storage.updateEmailLog(emailLog.id, { jobId: job.id }), job: jobResponse(job) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to queue email: " + error.message });
+    }
+  });
+
+  // Every email of this summary, newest first, with who sent it
+  app.get("/api/summaries/:id/emails", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const emailLogs = await storage.getSummaryEmailLogs(req.summary!.id);
+      res.json(emailLogs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email history" });
+    }
+  });
+
+  // Change a scheduled email before it goes out. A new send time queues a
+  // new job; the old one finds the entry rescheduled and does nothing.
+  app.patch("/api/summaries/:id/emails/:emailLogId", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      const emailLog = await storage.getEmailLog(req.params.emailLogId);
+      if (!emailLog || emailLog.summaryId !== summary.id) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      
+      const { recipients, subject, format, ccSelf, ...schedule } = z.object({
+        recipients: z.array(z.string().email()).min(1).optional(),
+        subject: z.string().optional(),
+        format: z.enum(["html", "pdf", "both"]).optional(),
+        ccSelf: z.boolean().optional()
+      }).merge(emailScheduleSchema).parse(req.body);
+      
+      const scheduledFor = scheduledTime(schedule);
+      const error = scheduledFor && scheduleError(schedule, scheduledFor);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const updates = hasSchedule(schedule)
+        ? { recipients, subject, format, ccSelf, scheduledFor, timeZone: schedule.timeZone || null }
+        : { recipients, subject, format, ccSelf };
+      const updatedLog = await storage.transitionEmailLog(emailLog.id, ["scheduled"], updates);
+      if (!updatedLog) {
+        return res.status(409).json({ message: "Only emails that are still scheduled can be changed" });
+      }
+      if (!scheduledFor) {
+        return res.json(updatedLog);
+      }
+      
+      const job = await enqueueEmail(
+        { kind: "summary", emailLogId: updatedLog.id, scheduledFor: scheduledFor.toISOString() },
+        req.userId!,
+        scheduledFor
+      );
+      res.json(await storage.updateEmailLog(updatedLog.id, { jobId: job.id }));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update email: " + error.message });
+    }
+  });
+
+  app.post("/api/summaries/:id/emails/:emailLogId/cancel", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const emailLog = await storage.getEmailLog(req.params.emailLogId);
+      if (!emailLog || emailLog.summaryId !== req.summary!.id) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      
+      // Its job still comes due, finds the entry cancelled and does nothing
+      const cancelledLog = await storage.transitionEmailLog(emailLog.id, ["scheduled"], { status: "cancelled" });
+      if (!cancelledLog) {
+        return res.status(409).json({ message: "Only emails that are still scheduled can be cancelled" });
+      }
+      res.json(cancelledLog);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to cancel email: " + error.message });
+    }
+  });
+
+  // Send a failed email again to the same recipients, on a fresh job
+  app.post("/api/summaries/:id/emails/:emailLogId/resend", authMiddleware, requireSummaryRole("editor"), async (req, res) => {
+    try {
+      const summary = req.summary!;
+      const emailLog = await storage.getEmailLog(req.params.emailLogId);
+      if (!emailLog || emailLog.summaryId !== summary.id) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      if (!sendableStatuses.includes(summary.status as SummaryStatus)) {
+        return res.status(409).json({ message: "Only approved summaries can be emailed" });
+      }
+      
+      // Pending before the job exists, so a fast worker's outcome is not
+      // overwritten; only one of two simultaneous resends gets past this
+      const pendingLog = await storage.transitionEmailLog(emailLog.id, ["failed"], { status: "pending" });
+      if (!pendingLog) {
+        return res.status(409).json({ message: "Only failed emails can be resent" });
+      }
+      const job = await enqueueEmail({ kind: "summary", emailLogId: emailLog.id }, req.userId!);
+      res.status(202).json({ emailLog: await storage.updateEmailLog(emailLog.id, { jobId: job.id }), job: jobResponse(job) });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to resend email: " + error.message });
+    }
+  });
+
+  // Address book: contacts and named groups of them, private to each user
+  app.get("/api/contacts", authMiddleware, async (req, res) => {
+    try {
+      const contacts = await storage.getContacts(req.userId!);
+      res.json(contacts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch contacts" });
+    }
+  });
+
+  // Recipients matching what has been typed so far, from contacts and
+  // earlier emails
+  app.get("/api/contacts/suggestions", authMiddleware, async (req, res) => {
+    try {
+      const { q } = z.object({
+        q: z.string().trim().max(200).default("")
+      }).parse(req.query);
+      
+      const suggestions = await storage.getRecipientSuggestions(req.userId!, q, RECIPIENT_SUGGESTION_LIMIT);
+      res.json(suggestions);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to fetch suggestions" });
+    }
+  });
+
+  app.post("/api/contacts", authMiddleware, async (req, res) => {
+    try {
+      const { name, email } = z.object({
+        name: z.string().trim().max(200).default(""),
+        email: contactEmailSchema
+      }).parse(req.body);
+      
+      const contact = await storage.createContact({ ownerId: req.userId!, name, email });
+      if (!contact) {
+        return res.status(409).json({ message: "That address is already in your contacts" });
+      }
+      res.status(201).json(contact);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to add contact" });
+    }
+  });
+
+  app.patch("/api/contacts/:contactId", authMiddleware, async (req, res) => {
+    try {
+      const contact = await storage.getContact(req.params.contactId);
+      if (!contact || contact.ownerId !== req.userId) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      const updates = z.object({
+        name: z.string().trim().max(200).optional(),
+        email: contactEmailSchema.optional()
+      }).parse(req.body);
+      
+      if (updates.email && updates.email !== contact.email) {
+        const contacts = await storage.getContacts(req.userId!);
+        if (contacts.some((other) => other.email === updates.email)) {
+          return res.status(409).json({ message: "That address is already in your contacts" });
+        }
+      }
+      
+      const updatedContact = await storage.updateContact(contact.id, updates);
+      res.json(updatedContact);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update contact" });
+    }
+  });
+
+  // Also removes the contact from any groups it was in
+  app.delete("/api/contacts/:contactId", authMiddleware, async (req, res) => {
+    try {
+      const contact = await storage.getContact(req.params.contactId);
+      if (!contact || contact.ownerId !== req.userId) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      await storage.deleteContact(contact.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete contact" });
+    }
+  });
+
+  app.get("/api/contact-groups", authMiddleware, async (req, res) => {
+    try {
+      const groups = await storage.getContactGroups(req.userId!);
+      res.json(groups);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch groups" });
+    }
+  });
+
+  // Members are given as contact ids and/or email addresses; addresses not
+  // yet in the address book are saved as contacts
+  app.post("/api/contact-groups", authMiddleware, async (req, res) => {
+    try {
+      const { name, contactIds, emails } = contactGroupSchema.parse(req.body);
+      
+      const groups = await storage.getContactGroups(req.userId!);
+      if (groups.some((group) => group.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ message: `You already have a group called ${name}` });
+      }
+      
+      const memberIds = await resolveGroupMembers(req.userId!, contactIds, emails);
+      if (typeof memberIds === "string") {
+        return res.status(400).json({ message: memberIds });
+      }
+      
+      const group = await storage.createContactGroup(req.userId!, name, memberIds);
+      res.status(201).json(group);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.patch("/api/contact-groups/:groupId", authMiddleware, async (req, res) => {
+    try {
+      const group = await storage.getContactGroup(req.params.groupId);
+      if (!group || group.ownerId !== req.userId) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      
+      const { name, contactIds, emails } = contactGroupSchema.partial().parse(req.body);
+      
+      if (name && name.toLowerCase() !== group.name.toLowerCase()) {
+        const groups = await storage.getContactGroups(req.userId!);
+        if (groups.some((other) => other.name.toLowerCase() === name.toLowerCase())) {
+          return res.status(409).json({ message: `You already have a group called ${name}` });
+        }
+      }
+      
+      let memberIds: string[] | undefined;
+      if (contactIds || emails) {
+        const resolved = await resolveGroupMembers(req.userId!, contactIds || [], emails || []);
+        if (typeof resolved === "string") {
+          return res.status(400).json({ message: resolved });
+        }
+        memberIds = resolved;
+      }
+      
+      const updatedGroup = await storage.updateContactGroup(group.id, { name, contactIds: memberIds });
+      res.json(updatedGroup);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to send email: " + error.message });
+      if (error.name === 'ZodError') {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.toString() });
+      }
+      res.status(500).json({ message: "Failed to update group" });
+    }
+  });
+
+  // The group's contacts stay in the address book
+  app.delete("/api/contact-groups/:groupId", authMiddleware, async (req, res) => {
+    try {
+      const group = await storage.getContactGroup(req.params.groupId);
+      if (!group || group.ownerId !== req.userId) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      
+      await storage.deleteContactGroup(group.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete group" });
     }
   });
 
   const httpServer = createServer(app);
+
+  // Live collaborative editing. Merged edits are saved like autosaves, so
+  // they show up in version history and the search index.
+  attachCollaboration(httpServer, {
+    authorize: async (userId, summaryId) => {
+      const [summary, user] = await Promise.all([storage.getSummary(summaryId), storage.getUser(userId)]);
+      if (!summary || !user || !hasRole(await getSummaryRole(summary, userId), "editor")) {
+        return null;
+      }
+      return { name: user.fullName, summary };
+    },
+    load: (summaryId) => storage.getSummary(summaryId),
+    persist: async (summaryId, content, authorId, revision) => {
+      const summary = await storage.getSummary(summaryId);
+      if (!summary) {
+        throw new Error("Summary not found");
+      }
+      if (summary.revision !== revision) return undefined;
+      await ensureBaselineVersion(summary, authorId);
+      const saved = await storage.updateSummaryIfRevision(summaryId, revision, {
+        summaryContent: content,
+        wordCount: content.trim() ? content.trim().split(/\s+/).length : 0,
+        autoSaved: true
+      });
+      if (!saved) return undefined;
+      const updatedSummary = await afterContentEdit(summary, saved, authorId);
+      await recordVersion(updatedSummary, "autosave", authorId);
+      scheduleReindex(updatedSummary);
+      return updatedSummary;
+    }
+  });
+
   return httpServer;
 }
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
@@ -20,6 +21,21 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
+// Unguessable token for links sent by email, such as workspace invitations
+export function generateLinkToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Returns the user ID for a valid token, or null
+export function verifyToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    return decoded.userId;
+  } catch (error) {
+    return null;
+  }
+}
+
 export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const token = req.headers.authorization?.replace('Bearer ', '');
   
@@ -27,13 +43,12 @@ export function authMiddleware(req: AuthRequest, res: Response, next: NextFuncti
     return res.status(401).json({ message: 'Authentication required' });
   }
   
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    req.userId = decoded.userId;
-    next();
-  } catch (error) {
+  const userId = verifyToken(token);
+  if (!userId) {
     return res.status(401).json({ message: 'Invalid token' });
   }
+  req.userId = userId;
+  next();
 }
 
 declare global {
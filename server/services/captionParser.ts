@@ -0,0 +1,115 @@
+import type { TranscriptSegment } from "@shared/schema";
+import { formatSegmentLine } from "@shared/transcript";
+import { parseClockTime, splitSpeakerLabel } from "./transcriptSegmenter";
+
+// Parses the caption files that Zoom, Teams and Meet export (.vtt) and the
+// older SubRip format (.srt) into one segment per cue, keeping the cue times
+// and the speaker from <v Name> voice tags or a leading "Name:" label.
+
+export interface ParsedCaptions {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+type Cue = Omit<TranscriptSegment, "line">;
+
+// hh:mm:ss.ttt or mm:ss.ttt; SubRip uses a comma before the milliseconds
+const TIMESTAMP = String.raw`(?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}`;
+const TIMING_LINE = new RegExp(`^(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+
+const entities: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, (entity) => entities[entity]);
+}
+
+// Strip styling (<i>, <c.yellow>, <font>, inline <00:01.000> timestamps)
+function stripTags(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+}
+
+// A cue's text can hold several voices, one per line:
+//   <v Alice>Are we ready?</v>
+//   <v Bob>Yes</v>
+function parseCuePayload(lines: string[], startMs: number, endMs: number): Cue[] {
+  const cues: Cue[] = [];
+  let speaker: string | null = null;
+
+  for (const line of lines) {
+    const voice = line.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+    let text = stripTags(line);
+    if (!text) continue;
+
+    let lineSpeaker: string | null;
+    if (voice) {
+      lineSpeaker = voice[1].trim();
+    } else {
+      const label = splitSpeakerLabel(text);
+      lineSpeaker = label.speaker;
+      text = label.text;
+    }
+
+    const previous = cues[cues.length - 1];
+    if (previous && (lineSpeaker === null || lineSpeaker === speaker)) {
+      previous.text = `${previous.text} ${text}`;
+    } else {
+      speaker = lineSpeaker ?? speaker;
+      cues.push({ speaker, startMs, endMs, text });
+    }
+  }
+
+  return cues.filter((cue) => cue.text);
+}
+
+function parseBlocks(content: string): Cue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n").filter((line) => line.trim());
+    // The timing line follows an optional cue identifier (always present in SubRip)
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line.trim()));
+    if (timingIndex === -1 || timingIndex > 1) {
+      // WEBVTT header, NOTE, STYLE and REGION blocks carry no cues
+      continue;
+    }
+
+    const [, start, end] = lines[timingIndex].trim().match(TIMING_LINE)!;
+    cues.push(...parseCuePayload(lines.slice(timingIndex + 1), parseClockTime(start), parseClockTime(end)));
+  }
+
+  return cues;
+}
+
+// Both formats share the cue layout, so one parser reads either
+export function parseCaptions(content: string): ParsedCaptions {
+  // Captions often repeat a cue word for word while the next line scrolls
+  // in; such a run becomes one cue spanning all of it
+  const deduplicated: Cue[] = [];
+  for (const cue of parseBlocks(content)) {
+    const previous = deduplicated[deduplicated.length - 1];
+    if (previous && previous.text === cue.text && previous.speaker === cue.speaker) {
+      previous.endMs = cue.endMs;
+    } else {
+      deduplicated.push(cue);
+    }
+  }
+
+  const segments = deduplicated.map((cue, index): TranscriptSegment => ({ ...cue, line: index + 1 }));
+  return {
+    text: segments.map(formatSegmentLine).join("\n"),
+    segments,
+  };
+}
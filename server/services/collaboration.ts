@@ -0,0 +1,325 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import {
+  ACCESS_REVOKED_CLOSE_CODE,
+  COLLABORATION_PATH,
+  collaboratorColor,
+  type Collaborator,
+  type CollaborationServerMessage,
+  type PersistedSummary,
+} from "@shared/collaboration";
+import { applyOperation, isValidOperation, transform, transformSelection, type TextOperation } from "@shared/ot";
+import { verifyToken } from "./auth";
+
+// Persist the shared document once edits pause for this long
+const SAVE_DELAY_MS = 2000;
+// Operations kept for transforming late edits; clients further behind are reset
+const MAX_HISTORY = 1000;
+
+export interface CollaborationBackend {
+  // The user's display name and the stored summary if they may edit it, otherwise null
+  authorize(userId: string, summaryId: string): Promise<{ name: string; summary: PersistedSummary } | null>;
+  // The stored summary, or undefined once it has been deleted
+  load(summaryId: string): Promise<PersistedSummary | undefined>;
+  // Write the merged document through summary storage, or return undefined
+  // without writing if the summary is no longer at the given revision
+  persist(summaryId: string, content: string, authorId: string, revision: number): Promise<PersistedSummary | undefined>;
+}
+
+const selectionSchema = z.object({
+  anchor: z.number().int().min(0),
+  head: z.number().int().min(0),
+}).nullable();
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("op"),
+    revision: z.number().int().min(0),
+    operation: z.custom<TextOperation>(isValidOperation, "Invalid operation"),
+    selection: selectionSchema,
+  }),
+  z.object({
+    type: z.literal("selection"),
+    selection: selectionSchema,
+  }),
+]);
+
+// One shared document per summary being edited. The server is authoritative:
+// each incoming operation is transformed against the operations it has not
+// seen, applied, acknowledged to its sender and broadcast to everyone else.
+class CollaborationSession {
+  private history: TextOperation[] = [];
+  private baseRevision = 0; // revision of history[0]'s input document
+  private clients = new Map<WebSocket, Collaborator>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private lastAuthorId: string | null = null;
+  // Everyone whose edits are in the document but not yet saved
+  private authors = new Set<string>();
+  private saving: Promise<void> = Promise.resolve();
+  private doc: string;
+
+  constructor(
+    readonly summaryId: string,
+    // The summary as last read or written; saves are conditional on its revision
+    private stored: PersistedSummary,
+    private backend: CollaborationBackend,
+    private onEmpty: () => void
+  ) {
+    this.doc = stored.summaryContent;
+  }
+
+  get revision() {
+    return this.baseRevision + this.history.length;
+  }
+
+  join(ws: WebSocket, userId: string, name: string) {
+    const collaborator: Collaborator = {
+      clientId: randomUUID(),
+      userId,
+      name,
+      color: collaboratorColor(userId),
+      selection: null,
+    };
+
+    this.send(ws, {
+      type: "init",
+      clientId: collaborator.clientId,
+      doc: this.doc,
+      revision: this.revision,
+      collaborators: Array.from(this.clients.values()),
+    });
+    this.clients.set(ws, collaborator);
+    this.broadcast({ type: "join", collaborator }, ws);
+
+    ws.on("message", (raw) => this.receive(ws, raw.toString()));
+    ws.on("close", () => this.leave(ws));
+  }
+
+  private receive(ws: WebSocket, raw: string) {
+    const collaborator = this.clients.get(ws);
+    if (!collaborator) return;
+
+    let message;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      this.send(ws, { type: "error", message: "Invalid message" });
+      return;
+    }
+
+    if (message.type === "selection") {
+      collaborator.selection = message.selection;
+      this.broadcast({ type: "selection", clientId: collaborator.clientId, selection: message.selection }, ws);
+      return;
+    }
+
+    // Edits made before a reset (or too far behind to transform) are dropped;
+    // the client already has, or is sent, the current document
+    if (message.revision < this.baseRevision || message.revision > this.revision) {
+      this.sendReset(ws);
+      return;
+    }
+
+    let operation = message.operation;
+    let selection = message.selection;
+    try {
+      for (const concurrent of this.history.slice(message.revision - this.baseRevision)) {
+        [operation] = transform(operation, concurrent);
+        if (selection) selection = transformSelection(selection, concurrent);
+      }
+      this.doc = applyOperation(this.doc, operation);
+    } catch (error) {
+      this.sendReset(ws);
+      return;
+    }
+
+    this.history.push(operation);
+    if (this.history.length > MAX_HISTORY) {
+      const dropped = this.history.length - MAX_HISTORY;
+      this.history = this.history.slice(dropped);
+      this.baseRevision += dropped;
+    }
+
+    collaborator.selection = selection;
+    this.lastAuthorId = collaborator.userId;
+    this.authors.add(collaborator.userId);
+    this.send(ws, { type: "ack", revision: this.revision });
+    this.broadcast({ type: "op", clientId: collaborator.clientId, revision: this.revision, operation, selection }, ws);
+    this.scheduleSave();
+  }
+
+  private leave(ws: WebSocket) {
+    const collaborator = this.clients.get(ws);
+    if (!collaborator) return;
+
+    this.clients.delete(ws);
+    this.broadcast({ type: "leave", clientId: collaborator.clientId });
+
+    if (this.clients.size === 0) {
+      this.onEmpty();
+      void this.flush();
+    }
+  }
+
+  // Replace the document after it changed outside the session (regenerate,
+  // restore, a plain REST save, or a save that lost to one of those).
+  // Pending client edits are discarded.
+  reset(summary: PersistedSummary) {
+    this.stored = summary;
+    if (summary.summaryContent === this.doc) return;
+
+    this.doc = summary.summaryContent;
+    this.baseRevision = this.revision + 1;
+    this.history = [];
+    this.lastAuthorId = null;
+    this.authors.clear();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.broadcast({ type: "reset", doc: this.doc, revision: this.revision, summary });
+  }
+
+  private sendReset(ws: WebSocket) {
+    this.send(ws, { type: "reset", doc: this.doc, revision: this.revision });
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Saves run one at a time so an older document never overwrites a newer one.
+  // Access is only checked when a socket connects, so it is checked again
+  // before each save: users who lost edit access are disconnected, and if
+  // they wrote any of the unsaved edits the document goes back to what is
+  // stored rather than saving their text under someone else's name.
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const authorId = this.lastAuthorId;
+    if (!authorId) return this.saving;
+    const authors = Array.from(this.authors);
+    this.lastAuthorId = null;
+    this.authors.clear();
+
+    const content = this.doc;
+    this.saving = this.saving.then(async () => {
+      try {
+        const access = await this.recheckAccess(authors);
+        if (authors.some((userId) => !access.get(userId))) {
+          const stored = Array.from(access.values()).find((allowed) => allowed !== null);
+          if (stored) this.reset(stored.summary);
+          return;
+        }
+
+        const summary = await this.save(content, authorId);
+        if (summary) {
+          this.stored = summary;
+          this.broadcast({ type: "saved", summary });
+        }
+      } catch (error: any) {
+        console.error(`Failed to save collaborative edits to summary ${this.summaryId}:`, error.message);
+      }
+    });
+    return this.saving;
+  }
+
+  // Save against the revision the session last saw. If the summary has moved
+  // on but its content has not (a rename or a review decision), save again
+  // against the new revision; if the content changed, the session goes back
+  // to the stored document.
+  private async save(content: string, authorId: string): Promise<PersistedSummary | undefined> {
+    const saved = await this.backend.persist(this.summaryId, content, authorId, this.stored.revision);
+    if (saved) return saved;
+
+    const latest = await this.backend.load(this.summaryId);
+    if (!latest) return undefined;
+    if (latest.summaryContent === this.stored.summaryContent) {
+      const retried = await this.backend.persist(this.summaryId, content, authorId, latest.revision);
+      if (retried) return retried;
+    }
+    this.reset(latest);
+    return undefined;
+  }
+
+  // Authorize everyone connected (and the given users) again, closing the
+  // sockets of those no longer allowed to edit
+  private async recheckAccess(userIds: string[]) {
+    const connected = Array.from(this.clients.values()).map((collaborator) => collaborator.userId);
+    const users = Array.from(new Set([...connected, ...userIds]));
+    const results = await Promise.all(users.map((userId) => this.backend.authorize(userId, this.summaryId)));
+    const access = new Map(users.map((userId, i) => [userId, results[i]]));
+
+    this.clients.forEach((collaborator, ws) => {
+      if (access.get(collaborator.userId)) return;
+      this.send(ws, { type: "error", message: "You no longer have edit access to this summary" });
+      ws.close(ACCESS_REVOKED_CLOSE_CODE, "Edit access revoked");
+    });
+    return access;
+  }
+
+  private send(ws: WebSocket, message: CollaborationServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  private broadcast(message: CollaborationServerMessage, except?: WebSocket) {
+    this.clients.forEach((_, ws) => {
+      if (ws !== except) this.send(ws, message);
+    });
+  }
+}
+
+const sessions = new Map<string, CollaborationSession>();
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Accept collaboration WebSockets on the HTTP server. Other upgrade requests
+// (such as Vite's HMR socket in development) are left to their own handlers.
+export function attachCollaboration(server: Server, backend: CollaborationBackend) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || "", "http://localhost");
+    if (url.pathname !== COLLABORATION_PATH) return;
+
+    // Browsers cannot set an Authorization header on WebSockets, so the token comes in the query string
+    const userId = verifyToken(url.searchParams.get("token") || "");
+    const summaryId = url.searchParams.get("summaryId");
+    if (!userId || !summaryId) {
+      return rejectUpgrade(socket, "401 Unauthorized");
+    }
+
+    const access = await backend.authorize(userId, summaryId).catch(() => null);
+    if (!access) {
+      return rejectUpgrade(socket, "404 Not Found");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      let session = sessions.get(summaryId);
+      if (!session) {
+        session = new CollaborationSession(summaryId, access.summary, backend, () => sessions.delete(summaryId));
+        sessions.set(summaryId, session);
+      }
+      session.join(ws, userId, access.name);
+    });
+  });
+}
+
+// Push a summary change made outside the live session to its editors
+export function publishSummaryContent(summaryId: string, summary: PersistedSummary) {
+  sessions.get(summaryId)?.reset(summary);
+}
@@ -0,0 +1,58 @@
+import { operationFromLineDiff, transformIndex } from "@shared/ot";
+import type { SummaryComment } from "@shared/schema";
+
+export interface CommentAnchorUpdate {
+  id: string;
+  anchorStart: number | null;
+  anchorEnd: number | null;
+}
+
+export interface Mentionable {
+  userId: string;
+  fullName: string;
+  email: string;
+}
+
+// Where anchored passages are after summaryContent changed from oldContent
+// to newContent. Only anchors that moved are returned; a passage deleted
+// entirely leaves its thread detached (null anchors) but keeps its quote.
+export function rebaseAnchors(comments: SummaryComment[], oldContent: string, newContent: string): CommentAnchorUpdate[] {
+  if (oldContent === newContent) return [];
+
+  const operation = operationFromLineDiff(oldContent, newContent);
+  const updates: CommentAnchorUpdate[] = [];
+  for (const comment of comments) {
+    if (comment.anchorStart === null || comment.anchorEnd === null) continue;
+
+    const start = transformIndex(comment.anchorStart, operation);
+    const end = Math.max(start, transformIndex(comment.anchorEnd, operation, true));
+    const anchor = start < end ? { anchorStart: start, anchorEnd: end } : { anchorStart: null, anchorEnd: null };
+    if (anchor.anchorStart !== comment.anchorStart || anchor.anchorEnd !== comment.anchorEnd) {
+      updates.push({ id: comment.id, ...anchor });
+    }
+  }
+  return updates;
+}
+
+// Start of the occurrence of quote closest to near, or null if the text no
+// longer contains it. The client's offsets can be slightly off when it has
+// unsaved edits, so the quoted text is what identifies the passage.
+export function locateQuote(content: string, quote: string, near: number): number | null {
+  if (!quote) return null;
+
+  let best: number | null = null;
+  for (let index = content.indexOf(quote); index !== -1; index = content.indexOf(quote, index + 1)) {
+    if (best === null || Math.abs(index - near) < Math.abs(best - near)) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+// People mentioned in a comment as @Full Name or @email
+export function findMentions<T extends Mentionable>(body: string, people: T[]): T[] {
+  const text = body.toLowerCase();
+  return people.filter((person) =>
+    text.includes(`@${person.fullName.toLowerCase()}`) || text.includes(`@${person.email.toLowerCase()}`)
+  );
+}
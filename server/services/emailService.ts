@@ -26,6 +26,22 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+// A failed send. Permanent failures (the server rejected the message or a
+// recipient with a 5xx reply) will fail again; anything else, such as a
+// dropped connection or a 4xx "try later", is worth retrying.
+export class EmailDeliveryError extends Error {
+  constructor(message: string, readonly permanent: boolean) {
+    super(message);
+    this.name = "EmailDeliveryError";
+  }
+}
+
+function deliveryError(error: any): EmailDeliveryError {
+  const permanent = (typeof error.responseCode === "number" && error.responseCode >= 500) || error.code === "EENVELOPE";
+  return new EmailDeliveryError(`Email sending failed: ${error.message}`, permanent);
+}
+
+// Resolves with the mail server's reply, e.g. "250 2.0.0 OK queued as ..."
 export async function sendSummaryEmail(
   summary: Summary,
   recipients: string[],
@@ -33,7 +49,7 @@ export async function sendSummaryEmail(
   format: "html" | "pdf" | "both",
   sender: User,
   ccSelf?: boolean
-): Promise<void> {
+): Promise<string> {
   try {
     const attachments: any[] = [];
 
@@ -114,7 +130,160 @@ This summary was generated using SummaryFlow - AI Meeting Transcript Summarizati
     };
 
     // Send email
-    await transporter.sendMail(mailOptions);
+    const info = await transporter.sendMail(mailOptions);
+    return info.response;
+  } catch (error: any) {
+    throw deliveryError(error);
+  }
+}
+
+export async function sendWorkspaceInviteEmail(
+  recipient: string,
+  workspaceName: string,
+  role: string,
+  acceptUrl: string,
+  sender: User
+): Promise<void> {
+  try {
+    await transporter.sendMail({
+      from: {
+        name: sender.fullName,
+        address: sender.email,
+      },
+      to: recipient,
+      subject: `${sender.fullName} invited you to ${workspaceName} on SummaryFlow`,
+      text: `
+${sender.fullName} (${sender.email}) invited you to join the workspace "${workspaceName}" as ${role === "editor" ? "an editor" : "a viewer"}.
+
+Accept the invitation: ${acceptUrl}
+
+---
+SummaryFlow - AI Meeting Transcript Summarization
+      `,
+      html: `
+        <html>
+          <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <p><strong>${sender.fullName}</strong> (${sender.email}) invited you to join the workspace
+              <strong>${workspaceName}</strong> as ${role === "editor" ? "an editor" : "a viewer"}.</p>
+            <p style="margin: 30px 0;">
+              <a href="${acceptUrl}" style="background-color: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">
+                Accept invitation
+              </a>
+            </p>
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px;">
+              SummaryFlow - AI Meeting Transcript Summarization
+            </p>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error: any) {
+    throw new Error(`Email sending failed: ${error.message}`);
+  }
+}
+
+export async function sendReviewRequestEmail(
+  recipient: User,
+  summaryTitle: string,
+  reviewUrl: string,
+  requester: User
+): Promise<void> {
+  try {
+    await transporter.sendMail({
+      from: {
+        name: requester.fullName,
+        address: requester.email,
+      },
+      to: recipient.email,
+      subject: `Review requested: ${summaryTitle}`,
+      text: `
+${requester.fullName} (${requester.email}) asked you to review the summary "${summaryTitle}" before it is sent.
+
+Review it: ${reviewUrl}
+
+---
+SummaryFlow - AI Meeting Transcript Summarization
+      `,
+      html: `
+        <html>
+          <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <p>Hi ${recipient.fullName},</p>
+            <p><strong>${requester.fullName}</strong> (${requester.email}) asked you to review the summary
+              <strong>${summaryTitle}</strong> before it is sent.</p>
+            <p style="margin: 30px 0;">
+              <a href="${reviewUrl}" style="background-color: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">
+                Review summary
+              </a>
+            </p>
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px;">
+              SummaryFlow - AI Meeting Transcript Summarization
+            </p>
+          </body>
+        </html>
+      `,
+    });
+  } catch (error: any) {
+    throw new Error(`Email sending failed: ${error.message}`);
+  }
+}
+
+// Comment text is written by users, so it is escaped before going into HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendMentionEmail(
+  recipient: { email: string; fullName: string },
+  summaryTitle: string,
+  comment: string,
+  commentUrl: string,
+  author: User
+): Promise<void> {
+  try {
+    await transporter.sendMail({
+      from: {
+        name: author.fullName,
+        address: author.email,
+      },
+      to: recipient.email,
+      subject: `${author.fullName} mentioned you on "${summaryTitle}"`,
+      text: `
+${author.fullName} mentioned you in a comment on "${summaryTitle}":
+
+${comment}
+
+Reply: ${commentUrl}
+
+---
+SummaryFlow - AI Meeting Transcript Summarization
+      `,
+      html: `
+        <html>
+          <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <p>Hi ${recipient.fullName},</p>
+            <p><strong>${author.fullName}</strong> mentioned you in a comment on <strong>${summaryTitle}</strong>:</p>
+            <blockquote style="margin: 20px 0; padding-left: 12px; border-left: 3px solid #e5e7eb; color: #374151;">
+              ${escapeHtml(comment).replace(/\n/g, "<br>")}
+            </blockquote>
+            <p style="margin: 30px 0;">
+              <a href="${commentUrl}" style="background-color: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">
+                View comment
+              </a>
+            </p>
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px;">
+              SummaryFlow - AI Meeting Transcript Summarization
+            </p>
+          </body>
+        </html>
+      `,
+    });
   } catch (error: any) {
     throw new Error(`Email sending failed: ${error.message}`);
   }
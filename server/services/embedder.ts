@@ -0,0 +1,165 @@
+import { GoogleGenAI } from "@google/genai";
+
+export interface IEmbedder {
+  readonly name: string;
+  readonly model: string;
+
+  isConfigured(): boolean;
+
+  // One unit-length vector per input, in input order
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+// Vectors are stored unit-length, so cosine similarity is the dot product
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+// Offline stand-in: feature-hashes word unigrams and bigrams into a fixed
+// number of buckets. Deterministic and dependency-free, so it works in CI and
+// on machines without a model; it matches shared vocabulary, not meaning.
+export class HashingEmbedder implements IEmbedder {
+  readonly name = "hashing";
+  readonly dimensions = parseInt(process.env.HASHING_EMBEDDER_DIMENSIONS || "512", 10);
+  readonly model = `fnv1a-${this.dimensions}`;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private hash(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    const tokens = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const token of tokens) {
+      const hash = this.hash(token);
+      // The top bit picks the sign so colliding tokens tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    return normalizeVector(vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+}
+
+const GEMINI_EMBED_BATCH_SIZE = 100;
+
+export class GeminiEmbedder implements IEmbedder {
+  readonly name = "gemini";
+  readonly model = process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+  private client: GoogleGenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  private get ai(): GoogleGenAI {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+    }
+    return this.client;
+  }
+
+  // The API takes at most GEMINI_EMBED_BATCH_SIZE texts per request
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += GEMINI_EMBED_BATCH_SIZE) {
+      const batch = texts.slice(start, start + GEMINI_EMBED_BATCH_SIZE);
+      const response = await this.ai.models.embedContent({
+        model: this.model,
+        contents: batch,
+        config: { abortSignal: signal },
+      });
+      const embeddings = response.embeddings || [];
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Gemini returned ${embeddings.length} embeddings for ${batch.length} texts`);
+      }
+      vectors.push(...embeddings.map((embedding) => normalizeVector(embedding.values || [])));
+    }
+    return vectors;
+  }
+}
+
+// POST {baseUrl}/embeddings, as served by OpenAI and by local servers such as
+// Ollama or llama.cpp running a small CPU embedding model.
+export class OpenAICompatibleEmbedder implements IEmbedder {
+  readonly name = "openai";
+  readonly model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+  private baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (process.env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => response.statusText);
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail}`);
+    }
+
+    const data = await response.json();
+    return [...data.data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => normalizeVector(item.embedding));
+  }
+}
+
+const embedders: Record<string, IEmbedder> = {
+  gemini: new GeminiEmbedder(),
+  openai: new OpenAICompatibleEmbedder(),
+  hashing: new HashingEmbedder(),
+};
+
+// EMBEDDER if set and configured, otherwise the first configured remote
+// embedder, falling back to the offline hashing embedder. The index is keyed
+// by embedder, so switching embedders requires re-indexing.
+export function getEmbedder(): IEmbedder {
+  const configured = process.env.EMBEDDER;
+  if (configured && embedders[configured]?.isConfigured()) {
+    return embedders[configured];
+  }
+
+  if (embedders.gemini.isConfigured()) return embedders.gemini;
+  if (embedders.openai.isConfigured()) return embedders.openai;
+  return embedders.hashing;
+}
+
+// Stored alongside each vector so vectors from different models are never compared
+export function embedderKey(embedder: IEmbedder): string {
+  return `${embedder.name}:${embedder.model}`;
+}
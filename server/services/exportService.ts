@@ -1,9 +1,41 @@
-import type { Summary } from '@shared/schema';
+import type { SpeakerAnalytics, Summary } from '@shared/schema';
+import { formatTimestamp } from '@shared/transcript';
 
 import jsPDF from 'jspdf';
-import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from 'docx';
 
-export async function generatePDF(summary: Summary): Promise<Buffer> {
+export interface ExportOptions {
+  analytics?: SpeakerAnalytics;
+}
+
+const analyticsColumns = ['Speaker', 'Talk time', 'Words', 'Turns', 'Questions', 'Interruptions'];
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+// One row per speaker, in the order of analyticsColumns
+function analyticsRows(analytics: SpeakerAnalytics): string[][] {
+  return analytics.speakers.map((speaker) => [
+    speaker.name,
+    `${formatTimestamp(speaker.talkTimeMs)} (${percent(speaker.talkTimeShare)})`,
+    `${speaker.wordCount} (${percent(speaker.wordShare)})`,
+    String(speaker.turns),
+    String(speaker.questions),
+    String(speaker.interruptions),
+  ]);
+}
+
+function analyticsOverview(analytics: SpeakerAnalytics): string {
+  const silence = analytics.silenceGaps.reduce((total, gap) => total + gap.durationMs, 0);
+  return [
+    `Duration: ${formatTimestamp(analytics.durationMs)}${analytics.timed ? '' : ' (estimated from word count)'}`,
+    `${analytics.totalWords} words in ${analytics.totalTurns} turns`,
+    `${analytics.silenceGaps.length} silence gaps (${formatTimestamp(silence)})`,
+  ].join(' | ');
+}
+
+export async function generatePDF(summary: Summary, options: ExportOptions = {}): Promise<Buffer> {
   try {
     const doc = new jsPDF();
     
@@ -30,13 +62,36 @@ export async function generatePDF(summary: Summary): Promise<Buffer> {
     const splitText = doc.splitTextToSize(cleanContent, 170);
     doc.text(splitText, 20, 60);
     
+    // Speaker analytics on a page of their own
+    if (options.analytics) {
+      doc.addPage();
+      doc.setFontSize(14);
+      doc.text('Speaker Analytics', 20, 20);
+      doc.setFontSize(10);
+      doc.text(doc.splitTextToSize(analyticsOverview(options.analytics), 170), 20, 30);
+      
+      const columnX = [20, 65, 105, 140, 160, 182];
+      let y = 45;
+      doc.setFont('helvetica', 'bold');
+      analyticsColumns.forEach((column, index) => doc.text(column, columnX[index], y));
+      doc.setFont('helvetica', 'normal');
+      for (const row of analyticsRows(options.analytics)) {
+        y += 7;
+        if (y > 280) {
+          doc.addPage();
+          y = 20;
+        }
+        row.forEach((cell, index) => doc.text(index === 0 ? cell.slice(0, 24) : cell, columnX[index], y));
+      }
+    }
+    
     return Buffer.from(doc.output('arraybuffer'));
   } catch (error: any) {
     throw new Error(`PDF generation failed: ${error.message}`);
   }
 }
 
-export async function generateDOCX(summary: Summary): Promise<Buffer> {
+export async function generateDOCX(summary: Summary, options: ExportOptions = {}): Promise<Buffer> {
   try {
     // Clean up markdown formatting for professional document
     const cleanContent = summary.summaryContent
@@ -47,6 +102,26 @@ export async function generateDOCX(summary: Summary): Promise<Buffer> {
       .replace(/`([^`]+)`/g, '$1') // Remove code blocks
       .replace(/^[-*+]\s+/gm, '• '); // Convert markdown lists to bullet points
     
+    const analyticsSection = options.analytics ? [
+      new Paragraph({ text: "" }),
+      new Paragraph({
+        children: [new TextRun({ text: 'Speaker Analytics', bold: true, size: 26 })],
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: analyticsOverview(options.analytics), size: 20 })],
+      }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [analyticsColumns, ...analyticsRows(options.analytics)].map((row, rowIndex) => new TableRow({
+          children: row.map((cell) => new TableCell({
+            children: [new Paragraph({
+              children: [new TextRun({ text: cell, bold: rowIndex === 0, size: 20 })],
+            })],
+          })),
+        })),
+      }),
+    ] : [];
+    
     const doc = new Document({
       sections: [{
         properties: {},
@@ -68,6 +143,7 @@ export async function generateDOCX(summary: Summary): Promise<Buffer> {
           new Paragraph({
             children: [new TextRun({ text: cleanContent, size: 24 })],
           }),
+          ...analyticsSection,
         ],
       }],
     });
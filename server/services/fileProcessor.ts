@@ -2,22 +2,41 @@ import fs from "fs";
 import mammoth from "mammoth";
 import path from "path";
 import { promisify } from "util";
+import type { TranscriptSegment } from "@shared/schema";
+import { formatSegmentLine } from "@shared/transcript";
+import { parseCaptions } from "./captionParser";
+import { segmentTranscript } from "./transcriptSegmenter";
+import { getTranscriber, type TranscribeOptions } from "./speechToText";
 
 const readFile = promisify(fs.readFile);
 const unlink = promisify(fs.unlink);
 
+const documentExtensions = [".txt", ".pdf", ".docx", ".vtt", ".srt"];
+// Recordings go through speech-to-text, which is slow, so callers run them
+// in the background (the transcribe-upload job in server/routes.ts)
+const mediaExtensions = [".mp3", ".m4a", ".wav", ".ogg", ".flac", ".webm", ".mp4", ".mov", ".mkv"];
+
+export interface ProcessedFile {
+  text: string;
+  // Who said what, line by line; caption files also carry cue times
+  segments: TranscriptSegment[];
+}
+
+// Upload temp files have no extension, so the type comes from the original name
 export async function processFile(
   filePath: string,
-  mimeType: string
-): Promise<string> {
+  filename: string,
+  options: TranscribeOptions = {}
+): Promise<ProcessedFile> {
   try {
     // Verify file exists
     if (!fs.existsSync(filePath)) {
       throw new Error("File not found");
     }
 
-    const fileExtension = path.extname(filePath).toLowerCase();
+    const fileExtension = path.extname(filename).toLowerCase();
     let text = "";
+    let segments: TranscriptSegment[] | null = null;
 
     switch (fileExtension) {
       case ".txt":
@@ -47,8 +66,24 @@ export async function processFile(
         }
         break;
 
+      case ".vtt":
+      case ".srt": {
+        const captions = parseCaptions(await readFile(filePath, "utf-8"));
+        text = captions.text;
+        segments = captions.segments;
+        break;
+      }
+
       default:
-        throw new Error(`Unsupported file type: ${fileExtension}`);
+        if (!mediaExtensions.includes(fileExtension)) {
+          throw new Error(`Unsupported file type: ${fileExtension}`);
+        }
+        try {
+          segments = await getTranscriber().transcribe(filePath, options);
+          text = segments.map(formatSegmentLine).join("\n");
+        } catch (mediaError: any) {
+          throw new Error(`Transcription failed: ${mediaError.message}`);
+        }
     }
 
     // Validate extracted text
@@ -56,7 +91,8 @@ export async function processFile(
       throw new Error("No text content extracted from file");
     }
 
-    return text.trim();
+    text = text.trim();
+    return { text, segments: segments ?? segmentTranscript(text) };
   } catch (error: any) {
     throw new Error(`File processing failed: ${error.message}`);
   } finally {
@@ -73,7 +109,10 @@ export async function processFile(
 
 // Utility function to check if file is supported
 export function isSupportedFileType(filename: string): boolean {
-  const supportedExtensions = [".txt", ".pdf", ".docx"];
   const extension = path.extname(filename).toLowerCase();
-  return supportedExtensions.includes(extension);
+  return documentExtensions.includes(extension) || mediaExtensions.includes(extension);
+}
+
+export function isMediaFile(filename: string): boolean {
+  return mediaExtensions.includes(path.extname(filename).toLowerCase());
 }
@@ -0,0 +1,75 @@
+import { extractedInsightsSchema, type ExtractedInsights } from "@shared/schema";
+import { estimateTokens, getDefaultProvider, type ILLMProvider } from "./llmProvider";
+
+function buildExtractionPrompt(source: string, isTranscript: boolean): string {
+  return `
+You extract structured data from meetings. Read the following ${isTranscript ? "meeting transcript" : "meeting summary"} and return a single JSON object with exactly these keys:
+
+{
+  "actionItems": [{ "description": string, "owner": string | null, "dueDate": "YYYY-MM-DD" | null, "priority": "low" | "medium" | "high", "sourceQuote": string | null }],
+  "decisions": [string],
+  "openQuestions": [string],
+  "risks": [{ "description": string, "mitigation": string | null }]
+}
+
+RULES:
+- Only include items that are actually stated in the text; use empty arrays when there are none
+- "owner" is the person responsible, as named in the text, or null if nobody was assigned
+- Resolve relative deadlines ("next Friday") to a date only when the meeting date is known, otherwise use null
+- Keep each description to one sentence without emojis or markdown
+- "sourceQuote" is a short verbatim excerpt (under 15 words) copied exactly from the text where the action item was agreed, or null
+- Respond with JSON only
+
+${isTranscript ? "TRANSCRIPT" : "SUMMARY"}:
+${source}
+`;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Find the 1-based transcript line containing a quote, tolerating differences
+// in case and whitespace. Falls back to the quote's opening words.
+export function locateInTranscript(transcript: string, quote: string | null | undefined): number | null {
+  if (!quote) return null;
+
+  const lines = transcript.split(/\r?\n/).map(normalize);
+  const needle = normalize(quote);
+  const candidates = [needle, needle.split(" ").slice(0, 6).join(" ")];
+
+  for (const candidate of candidates) {
+    if (candidate.length < 8) continue;
+    const index = lines.findIndex((line) => line.includes(candidate));
+    if (index !== -1) return index + 1;
+  }
+  return null;
+}
+
+// Extract action items, decisions, open questions and risks from a meeting.
+// Uses the full transcript when it fits the provider's context window and the
+// generated summary otherwise.
+export async function extractInsights(
+  transcript: string,
+  summaryContent: string,
+  provider: ILLMProvider = getDefaultProvider(),
+  signal?: AbortSignal
+): Promise<ExtractedInsights> {
+  try {
+    const fitsContext = estimateTokens(buildExtractionPrompt(transcript, true)) <= Math.floor(provider.contextWindow * 0.75);
+    const prompt = fitsContext
+      ? buildExtractionPrompt(transcript, true)
+      : buildExtractionPrompt(summaryContent, false);
+
+    const response = await provider.generate(prompt, { json: true, signal });
+
+    // Some OpenAI-compatible servers ignore response_format and wrap JSON in a code fence
+    const json = response.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+    const insights = extractedInsightsSchema.parse(JSON.parse(json));
+
+    for (const item of insights.actionItems) {
+      item.transcriptLine = locateInTranscript(transcript, item.sourceQuote);
+    }
+    return insights;
+  } catch (error: any) {
+    throw new Error(`Insight extraction failed: ${error.message}`);
+  }
+}
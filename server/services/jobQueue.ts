@@ -0,0 +1,329 @@
+import { EventEmitter } from "events";
+import { hostname } from "os";
+import type { InsertJob, Job, JobType } from "@shared/schema";
+
+// Slow or failure-prone work (generation, PDF/DOCX rendering, email,
+// transcription) is queued by request handlers and run here. Jobs are rows
+// in Postgres, so they survive a restart: each type's workers claim due jobs
+// with SELECT ... FOR UPDATE SKIP LOCKED up to that type's concurrency limit,
+// failed attempts are retried with exponential backoff, and jobs out of
+// attempts are kept as dead letters until someone retries them.
+
+const POLL_INTERVAL_MS = 1000;
+// A running job refreshes its lock this often; one not refreshed for
+// LOCK_TIMEOUT_MS belonged to a worker that died
+const HEARTBEAT_MS = 30_000;
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// Progress is written through at most this often for clients that poll
+const PROGRESS_WRITE_MS = 2000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+// Completed jobs (and the files exports keep in them) are deleted after a day
+const COMPLETED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 60_000;
+// Subscribers also re-read the job this often, for jobs run by another server
+const SUBSCRIBER_POLL_MS = 2000;
+
+// Heartbeats and outcomes only apply while the worker still holds the job:
+// one whose lock went stale may have been requeued and claimed by another,
+// or the job cancelled. heartbeatJob returns false and completeJob/failJob
+// return undefined when that happened.
+export interface JobStore {
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  claimJob(type: string, workerId: string): Promise<Job | undefined>;
+  heartbeatJob(id: string, workerId: string, progress?: number): Promise<boolean>;
+  completeJob(id: string, workerId: string, result: unknown): Promise<Job | undefined>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<Job | undefined>;
+  cancelJob(id: string): Promise<Job | undefined>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteCompletedJobs(finishedBefore: Date): Promise<void>;
+}
+
+export interface JobContext {
+  job: Job;
+  // No retry follows if this attempt fails
+  lastAttempt: boolean;
+  // Aborted once the job is cancelled or this worker no longer holds it
+  signal: AbortSignal;
+  // Percent done, shown to whoever is watching the job
+  setProgress(percent: number): void;
+  // Partial output (such as generated text) for whoever is watching the job
+  // through this process. It is not stored; the job's result is.
+  emit(event: string, data: unknown): void;
+}
+
+export interface JobOutput {
+  event: string;
+  data: unknown;
+}
+
+interface ActiveJob {
+  controller: AbortController;
+  output: JobOutput[];
+}
+
+export interface JobHandler<P> {
+  // Jobs of this type running at once in this process
+  concurrency: number;
+  maxAttempts: number;
+  run(payload: P, context: JobContext): Promise<unknown>;
+}
+
+export interface EnqueueOptions {
+  userId?: string | null;
+  runAt?: Date;
+}
+
+// Thrown by a handler when retrying cannot help (the summary was deleted,
+// the file is unreadable); the job goes straight to the dead letters
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+  // Jitter so jobs that failed together do not all retry together
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+class JobQueue {
+  private store: JobStore | null = null;
+  private handlers = new Map<JobType, JobHandler<any>>();
+  private running = new Map<JobType, number>();
+  // Job updates for subscribers in this process, keyed by job id, and the
+  // output of each job running here (emitted as "<job id>:output")
+  private updates = new EventEmitter();
+  private active = new Map<string, ActiveJob>();
+  private workerId = `${hostname()}:${process.pid}`;
+  private polling = false;
+  private pollAgain = false;
+
+  constructor() {
+    this.updates.setMaxListeners(0);
+  }
+
+  register<P>(type: JobType, handler: JobHandler<P>) {
+    this.handlers.set(type, handler);
+  }
+
+  start(store: JobStore) {
+    if (this.store) return;
+    this.store = store;
+    setInterval(() => void this.poll(), POLL_INTERVAL_MS).unref();
+    setInterval(() => void this.maintain(), MAINTENANCE_INTERVAL_MS).unref();
+    void this.maintain();
+  }
+
+  async enqueue<P>(type: JobType, payload: P, options: EnqueueOptions = {}): Promise<Job> {
+    const store = this.requireStore();
+    const handler = this.handlers.get(type);
+    if (!handler) throw new Error(`No handler registered for ${type} jobs`);
+
+    const job = await store.createJob({
+      type,
+      payload,
+      userId: options.userId ?? null,
+      maxAttempts: handler.maxAttempts,
+      runAt: options.runAt ?? new Date(),
+    });
+    this.publish(job);
+    void this.poll();
+    return job;
+  }
+
+  // Called with the job each time it changes; returns an unsubscribe function.
+  // Changes made in this process arrive straight away, and the row is polled
+  // for jobs another server is running.
+  subscribe(jobId: string, listener: (job: Job) => void): () => void {
+    const store = this.requireStore();
+    const changedAt = (job: Job) => job.updatedAt?.getTime() ?? 0;
+    let lastSeen = 0;
+    const deliver = (job: Job) => {
+      if (changedAt(job) < lastSeen) return;
+      lastSeen = changedAt(job);
+      listener(job);
+    };
+
+    const poll = setInterval(() => {
+      store.getJob(jobId).then((job) => {
+        if (job && changedAt(job) > lastSeen) deliver(job);
+      }).catch((error) => {
+        console.error(`Failed to poll job ${jobId}:`, error.message);
+      });
+    }, SUBSCRIBER_POLL_MS);
+    this.updates.on(jobId, deliver);
+    return () => {
+      clearInterval(poll);
+      this.updates.off(jobId, deliver);
+    };
+  }
+
+  // Called with each piece of output of a job running in this process,
+  // starting with what it emitted before the subscription
+  subscribeOutput(jobId: string, listener: (output: JobOutput) => void): () => void {
+    this.active.get(jobId)?.output.forEach(listener);
+    this.updates.on(`${jobId}:output`, listener);
+    return () => {
+      this.updates.off(`${jobId}:output`, listener);
+    };
+  }
+
+  // Stop a job that has not finished. A running job is aborted straight
+  // away in this process, or at its worker's next heartbeat elsewhere.
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = await this.requireStore().cancelJob(jobId);
+    if (!job) return undefined;
+    this.active.get(jobId)?.controller.abort();
+    this.publish(job);
+    return job;
+  }
+
+  private requireStore(): JobStore {
+    if (!this.store) throw new Error("The job queue has not been started");
+    return this.store;
+  }
+
+  private publish(job: Job) {
+    this.updates.emit(job.id, job);
+  }
+
+  // Claim due jobs for every type with a free worker
+  private async poll() {
+    if (!this.store) return;
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        for (const [type, handler] of Array.from(this.handlers)) {
+          while ((this.running.get(type) || 0) < handler.concurrency) {
+            const job = await this.store.claimJob(type, this.workerId);
+            if (!job) break;
+            this.running.set(type, (this.running.get(type) || 0) + 1);
+            void this.runJob(handler, job);
+          }
+        }
+      } while (this.pollAgain);
+    } catch (error: any) {
+      console.error("Failed to poll the job queue:", error.message);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(handler: JobHandler<unknown>, job: Job) {
+    const store = this.requireStore();
+    const type = job.type as JobType;
+    const active: ActiveJob = { controller: new AbortController(), output: [] };
+    this.active.set(job.id, active);
+    this.publish(job);
+
+    let progress: number | undefined;
+    let lastWrite = Date.now();
+    const writeProgress = () => {
+      lastWrite = Date.now();
+      store.heartbeatJob(job.id, this.workerId, progress).then((held) => {
+        if (!held) active.controller.abort();
+      }).catch((error) => {
+        console.error(`Failed to refresh the lock on job ${job.id}:`, error.message);
+      });
+    };
+    const heartbeat = setInterval(writeProgress, HEARTBEAT_MS);
+
+    const context: JobContext = {
+      job,
+      lastAttempt: job.attempts >= job.maxAttempts,
+      signal: active.controller.signal,
+      setProgress: (percent) => {
+        progress = Math.min(Math.max(Math.round(percent), 0), 100);
+        this.publish({ ...job, progress, updatedAt: new Date() });
+        if (Date.now() - lastWrite >= PROGRESS_WRITE_MS) writeProgress();
+      },
+      emit: (event, data) => {
+        active.output.push({ event, data });
+        this.updates.emit(`${job.id}:output`, { event, data });
+        if (Date.now() - lastWrite >= PROGRESS_WRITE_MS) writeProgress();
+      },
+    };
+
+    try {
+      const result = await handler.run(job.payload, context);
+      this.settle(job, await store.completeJob(job.id, this.workerId, result ?? null));
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+      const retryAt = retry ? new Date(Date.now() + retryDelay(job.attempts)) : null;
+      console.error(`Job ${job.id} (${type}) attempt ${job.attempts} failed${retry ? "" : " for good"}:`, message);
+      try {
+        this.settle(job, await store.failJob(job.id, this.workerId, message, retryAt));
+      } catch (storeError: any) {
+        // The lock goes stale and maintain() requeues the job
+        console.error(`Failed to record the failure of job ${job.id}:`, storeError.message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.active.delete(job.id);
+      this.running.set(type, (this.running.get(type) || 1) - 1);
+      void this.poll();
+    }
+  }
+
+  // Publish the outcome of an attempt, unless the job was cancelled or taken
+  // away from this worker while it ran
+  private settle(job: Job, updated: Job | undefined) {
+    if (updated) {
+      this.publish(updated);
+    } else {
+      console.warn(`Job ${job.id} (${job.type}) was cancelled or requeued while it ran; discarding this attempt's outcome`);
+    }
+  }
+
+  private async maintain() {
+    const store = this.requireStore();
+    try {
+      const requeued = await store.requeueStaleJobs(new Date(Date.now() - LOCK_TIMEOUT_MS));
+      if (requeued > 0) console.warn(`Requeued ${requeued} jobs abandoned by their workers`);
+      await store.deleteCompletedJobs(new Date(Date.now() - COMPLETED_JOB_TTL_MS));
+    } catch (error: any) {
+      console.error("Job queue maintenance failed:", error.message);
+    }
+  }
+}
+
+const queue = new JobQueue();
+
+export function registerJobHandler<P>(type: JobType, handler: JobHandler<P>) {
+  queue.register(type, handler);
+}
+
+export function startJobQueue(store: JobStore) {
+  queue.start(store);
+}
+
+export function enqueueJob<P>(type: JobType, payload: P, options?: EnqueueOptions): Promise<Job> {
+  return queue.enqueue(type, payload, options);
+}
+
+export function subscribeToJob(jobId: string, listener: (job: Job) => void): () => void {
+  return queue.subscribe(jobId, listener);
+}
+
+export function subscribeToJobOutput(jobId: string, listener: (output: JobOutput) => void): () => void {
+  return queue.subscribeOutput(jobId, listener);
+}
+
+export function cancelJob(jobId: string): Promise<Job | undefined> {
+  return queue.cancel(jobId);
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "dead";
+}
@@ -0,0 +1,78 @@
+import { llmProviders, type LLMProviderName } from "@shared/schema";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openaiProvider";
+import { FixtureProvider } from "./fixtureProvider";
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Ask the model for a single JSON object instead of markdown
+  json?: boolean;
+}
+
+export interface ILLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  // Maximum prompt size in tokens; longer transcripts are map-reduced
+  readonly contextWindow: number;
+
+  // Whether the deployment has the credentials/endpoint this provider needs
+  isConfigured(): boolean;
+
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  stream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+}
+
+const providers: Record<LLMProviderName, ILLMProvider> = {
+  gemini: new GeminiProvider(),
+  openai: new OpenAICompatibleProvider(),
+  fixture: new FixtureProvider(),
+};
+
+function isProviderName(name: string | null | undefined): name is LLMProviderName {
+  return !!name && (llmProviders as readonly string[]).includes(name);
+}
+
+// Deployment default: LLM_PROVIDER if set, otherwise the first configured
+// provider, falling back to the offline fixture provider. A provider named in
+// LLM_PROVIDER must be configured; it is an error rather than a quiet switch
+// to another provider.
+export function getDefaultProvider(): ILLMProvider {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured) {
+    if (!isProviderName(configured)) {
+      throw new Error(`LLM_PROVIDER "${configured}" is not one of ${llmProviders.join(", ")}`);
+    }
+    if (!providers[configured].isConfigured()) {
+      throw new Error(`LLM_PROVIDER is "${configured}" but that provider is not configured`);
+    }
+    return providers[configured];
+  }
+
+  if (providers.gemini.isConfigured()) return providers.gemini;
+  if (providers.openai.isConfigured()) return providers.openai;
+  return providers.fixture;
+}
+
+// Resolve the provider for a request, honouring the user's preference when
+// that provider is available in this deployment.
+export function getProvider(preferred?: string | null): ILLMProvider {
+  if (isProviderName(preferred) && providers[preferred].isConfigured()) {
+    return providers[preferred];
+  }
+  return getDefaultProvider();
+}
+
+export function listProviders() {
+  const defaultName = getDefaultProvider().name;
+  return llmProviders.map((name) => ({
+    name,
+    model: providers[name].model,
+    configured: providers[name].isConfigured(),
+    isDefault: name === defaultName,
+  }));
+}
+
+// Rough token estimate for providers without a tokenizer endpoint
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
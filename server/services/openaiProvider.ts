@@ -0,0 +1,80 @@
+import { type GenerateOptions, type ILLMProvider } from "./llmProvider";
+
+// Works with the OpenAI API and compatible servers (Ollama, llama.cpp, vLLM)
+// that expose POST {baseUrl}/chat/completions.
+export class OpenAICompatibleProvider implements ILLMProvider {
+  readonly name = "openai" as const;
+  readonly model = process.env.OPENAI_MODEL || "gpt-4o-mini";
+  // Conservative default so small self-hosted models are not overrun
+  readonly contextWindow = parseInt(process.env.OPENAI_CONTEXT_TOKENS || "8192", 10);
+  private baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL;
+  }
+
+  private async request(prompt: string, stream: boolean, options: GenerateOptions): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (process.env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        stream,
+        response_format: options.json ? { type: "json_object" } : undefined,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => response.statusText);
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail}`);
+    }
+
+    return response;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.request(prompt, false, options);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request(prompt, true, options);
+    if (!response.body) {
+      throw new Error("OpenAI-compatible endpoint returned an empty stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") return;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+}
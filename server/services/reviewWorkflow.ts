@@ -0,0 +1,132 @@
+import {
+  reviewActions,
+  type ReviewAction,
+  type ReviewDecision,
+  type SummaryReviewer,
+  type SummaryStatus,
+} from "@shared/schema";
+
+// The approval state machine. A summary is drafted, submitted to its
+// designated reviewers, and can only be emailed once every reviewer has
+// approved it:
+//
+//   draft → in_review → approved → sent
+//               ↓ ↑
+//   changes_requested / rejected → (reopen) → draft
+//
+// Summaries without reviewers can be approved directly by a workspace owner,
+// which is how personal workspaces sign off their own summaries.
+
+export interface ReviewState {
+  status: SummaryStatus;
+  // The acting user and what their workspace role allows
+  userId: string;
+  canEdit: boolean;
+  isOwner: boolean;
+  reviewers: SummaryReviewer[];
+}
+
+export interface ReviewActionError {
+  status: 403 | 409;
+  message: string;
+}
+
+// Statuses whose sign-off no longer holds once the content changes
+export const reviewedStatuses: SummaryStatus[] = ["in_review", "approved", "sent"];
+
+// Statuses in which the reviewer list may be changed
+export const reviewerEditableStatuses: SummaryStatus[] = ["draft", "changes_requested", "rejected"];
+
+// Statuses from which a summary may be emailed
+export const sendableStatuses: SummaryStatus[] = ["approved", "sent"];
+
+const decisionByAction: Partial<Record<ReviewAction, ReviewDecision>> = {
+  approve: "approved",
+  request_changes: "changes_requested",
+  reject: "rejected",
+};
+
+const statusLabels: Record<SummaryStatus, string> = {
+  draft: "a draft",
+  in_review: "in review",
+  changes_requested: "waiting for changes",
+  approved: "approved",
+  rejected: "rejected",
+  sent: "sent",
+};
+
+function invalidState(action: ReviewAction, status: SummaryStatus): ReviewActionError {
+  return { status: 409, message: `Cannot ${action.replace("_", " ")} a summary that is ${statusLabels[status]}` };
+}
+
+// The reviewer's decision recorded by an action, if it is a review decision
+export function reviewDecisionFor(action: ReviewAction): ReviewDecision | undefined {
+  return decisionByAction[action];
+}
+
+// Why the user may not take this action now, or null if they may
+export function reviewActionError(action: ReviewAction, state: ReviewState): ReviewActionError | null {
+  const { status, userId, canEdit, isOwner, reviewers } = state;
+  const reviewer = reviewers.find((r) => r.userId === userId);
+
+  switch (action) {
+    case "submit":
+      if (status !== "draft" && status !== "changes_requested") return invalidState(action, status);
+      if (!canEdit) return { status: 403, message: "Only editors can submit a summary for review" };
+      if (reviewers.length === 0) return { status: 409, message: "Add at least one reviewer before submitting" };
+      return null;
+
+    case "withdraw":
+      if (status !== "in_review") return invalidState(action, status);
+      if (!canEdit) return { status: 403, message: "Only editors can withdraw a review" };
+      return null;
+
+    case "approve":
+      // Sign-off without review is only possible when nobody was asked to review
+      if ((status === "draft" || status === "changes_requested") && reviewers.length === 0) {
+        return isOwner
+          ? null
+          : { status: 403, message: "Only workspace owners can approve a summary without review" };
+      }
+      if (status !== "in_review") return invalidState(action, status);
+      if (!reviewer) return { status: 403, message: "Only designated reviewers can approve this summary" };
+      if (reviewer.decision === "approved") return { status: 409, message: "You have already approved this summary" };
+      return null;
+
+    case "request_changes":
+    case "reject":
+      if (status !== "in_review") return invalidState(action, status);
+      if (!reviewer) return { status: 403, message: "Only designated reviewers can review this summary" };
+      return null;
+
+    case "reopen":
+      if (status !== "approved" && status !== "rejected" && status !== "sent") return invalidState(action, status);
+      if (!canEdit) return { status: 403, message: "Only editors can reopen a summary" };
+      return null;
+  }
+}
+
+export function availableReviewActions(state: ReviewState): ReviewAction[] {
+  return reviewActions.filter((action) => !reviewActionError(action, state));
+}
+
+// Status after an allowed action, given the reviewers' decisions with this
+// action's already recorded. An approval leaves the summary in review until
+// every reviewer has approved it.
+export function nextReviewStatus(action: ReviewAction, state: ReviewState): SummaryStatus {
+  switch (action) {
+    case "submit":
+      return "in_review";
+    case "withdraw":
+    case "reopen":
+      return "draft";
+    case "request_changes":
+      return "changes_requested";
+    case "reject":
+      return "rejected";
+    case "approve": {
+      if (state.status !== "in_review") return "approved";
+      return state.reviewers.every((r) => r.decision === "approved") ? "approved" : "in_review";
+    }
+  }
+}
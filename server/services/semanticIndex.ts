@@ -0,0 +1,161 @@
+import type {
+  AnswerCitation,
+  EmbeddingChunkWithSummary,
+  InsertEmbeddingChunk,
+  MeetingAnswer,
+  SemanticSearchResult,
+  Summary,
+} from "@shared/schema";
+import { chunkTranscriptWithLines } from "./transcriptChunker";
+import { cosineSimilarity, embedderKey, getEmbedder, type IEmbedder } from "./embedder";
+import { estimateTokens, getDefaultProvider, type ILLMProvider } from "./llmProvider";
+
+// Small passages retrieve more precisely and keep citations short
+const CHUNK_TOKENS = 250;
+
+// Split the markdown summary on headings, packing short sections together
+function chunkSummary(summaryContent: string): string[] {
+  const sections = summaryContent.split(/\n(?=#{1,6}\s)/).map((section) => section.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const section of sections) {
+    if (current && estimateTokens(current + "\n\n" + section) > CHUNK_TOKENS) {
+      chunks.push(current);
+      current = section;
+    } else {
+      current = current ? current + "\n\n" + section : section;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// Embed a meeting's transcript passages and summary sections for the index
+export async function buildSummaryEmbeddings(
+  summary: Pick<Summary, "id" | "originalContent" | "summaryContent">,
+  embedder: IEmbedder = getEmbedder()
+): Promise<InsertEmbeddingChunk[]> {
+  try {
+    const passages = [
+      ...chunkTranscriptWithLines(summary.originalContent, CHUNK_TOKENS).map((chunk) => ({
+        source: "transcript",
+        content: chunk.text,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+      })),
+      ...chunkSummary(summary.summaryContent).map((content) => ({
+        source: "summary",
+        content,
+        startLine: null,
+        endLine: null,
+      })),
+    ];
+
+    const vectors = await embedder.embed(passages.map((passage) => passage.content));
+    const key = embedderKey(embedder);
+
+    return passages.map((passage, index) => ({
+      ...passage,
+      summaryId: summary.id,
+      chunkIndex: index,
+      embedder: key,
+      embedding: vectors[index],
+    }));
+  } catch (error: any) {
+    throw new Error(`Indexing failed: ${error.message}`);
+  }
+}
+
+// Rank indexed chunks against a query by cosine similarity
+export async function rankChunks(
+  query: string,
+  chunks: EmbeddingChunkWithSummary[],
+  limit: number,
+  embedder: IEmbedder = getEmbedder()
+): Promise<SemanticSearchResult[]> {
+  if (chunks.length === 0) return [];
+
+  const [queryVector] = await embedder.embed([query]);
+
+  return chunks
+    .map((chunk) => ({
+      summaryId: chunk.summaryId,
+      summaryTitle: chunk.summaryTitle,
+      summaryCreatedAt: chunk.summaryCreatedAt,
+      source: chunk.source,
+      content: chunk.content,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      score: cosineSimilarity(queryVector, chunk.embedding),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function buildAnswerPrompt(question: string, passages: SemanticSearchResult[]): string {
+  const sources = passages
+    .map((passage, index) => {
+      const date = passage.summaryCreatedAt ? new Date(passage.summaryCreatedAt).toISOString().slice(0, 10) : "unknown date";
+      const origin = passage.source === "transcript"
+        ? `transcript lines ${passage.startLine}-${passage.endLine}`
+        : "summary";
+      return `[${index + 1}] "${passage.summaryTitle}" (${date}, ${origin})\n${passage.content}`;
+    })
+    .join("\n\n");
+
+  return `
+You answer questions about a team's past meetings using only the numbered excerpts below.
+
+RULES:
+- Base the answer only on the excerpts; if they do not contain the answer, say so plainly
+- Cite the excerpts you rely on with their bracketed numbers, e.g. "The vendor was approved [2]."
+- Mention which meeting (and its date) a fact comes from when it helps the reader
+- Keep the answer under 200 words, in plain text without markdown headings
+
+QUESTION:
+${question}
+
+EXCERPTS:
+${sources}
+`;
+}
+
+// Answer a question from retrieved passages, returning only the citations
+// the answer actually references
+export async function answerQuestion(
+  question: string,
+  passages: SemanticSearchResult[],
+  provider: ILLMProvider = getDefaultProvider(),
+  signal?: AbortSignal
+): Promise<MeetingAnswer> {
+  if (passages.length === 0) {
+    return { answer: "I couldn't find anything in your meetings about that.", citations: [] };
+  }
+
+  try {
+    // Drop the weakest passages until the prompt fits the model's context
+    let included = passages;
+    const budget = Math.floor(provider.contextWindow * 0.75);
+    while (included.length > 1 && estimateTokens(buildAnswerPrompt(question, included)) > budget) {
+      included = included.slice(0, -1);
+    }
+
+    const answer = (await provider.generate(buildAnswerPrompt(question, included), { signal })).trim();
+
+    const referenced = new Set(
+      Array.from(answer.matchAll(/\[(\d+)\]/g), (match) => parseInt(match[1], 10))
+    );
+    const citations: AnswerCitation[] = included
+      .map((passage, index) => ({ ...passage, ref: index + 1 }))
+      .filter((citation) => referenced.has(citation.ref));
+
+    return { answer, citations };
+  } catch (error: any) {
+    throw new Error(`Question answering failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,142 @@
+import type { SilenceGap, SpeakerAnalytics, SpeakerStats, TranscriptSegment } from "@shared/schema";
+
+// Who spoke how much in a meeting, worked out from the transcript segments.
+// Caption files give exact cue times; pasted transcripts with "[12:03]"
+// stamps only give start times, so a turn runs until the next one starts;
+// transcripts without any times fall back to a typical speaking rate.
+
+const WORDS_PER_MINUTE = 150;
+const SILENCE_GAP_MS = 5000;
+
+// A turn that trails off mid-sentence: "so what I was—", "we could -"
+const CUT_OFF = /(?:\s-|—|–|\.\.\.|…)$/;
+
+interface Turn {
+  speaker: string | null;
+  startMs: number | null;
+  // Only set when the transcript says when the turn ended
+  endMs: number | null;
+  words: number;
+  questions: number;
+  // The last thing said, to tell whether the turn was cut off
+  lastText: string;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function estimateMs(words: number): number {
+  return Math.round((words / WORDS_PER_MINUTE) * 60_000);
+}
+
+// Consecutive segments of one speaker make a single turn
+function buildTurns(segments: TranscriptSegment[]): Turn[] {
+  const turns: Turn[] = [];
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1];
+    const words = countWords(segment.text);
+    const questions = (segment.text.match(/\?+/g) || []).length;
+    if (previous && segment.speaker && previous.speaker === segment.speaker) {
+      previous.startMs ??= segment.startMs;
+      previous.endMs = segment.endMs ?? previous.endMs;
+      previous.words += words;
+      previous.questions += questions;
+      previous.lastText = segment.text;
+    } else {
+      turns.push({
+        speaker: segment.speaker,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        words,
+        questions,
+        lastText: segment.text,
+      });
+    }
+  }
+  return turns;
+}
+
+export function analyzeSpeakers(segments: TranscriptSegment[]): SpeakerAnalytics {
+  const turns = buildTurns(segments);
+  const timed = turns.some((turn) => turn.startMs !== null);
+
+  // How long each turn lasted, to its own end time, the next turn's start,
+  // or as long as its words take to say
+  const durations = turns.map((turn, index) => {
+    const nextStart = turns.slice(index + 1).find((next) => next.startMs !== null)?.startMs ?? null;
+    const endMs = turn.endMs ?? (nextStart !== null && turn.startMs !== null && nextStart > turn.startMs ? nextStart : null);
+    return turn.startMs !== null && endMs !== null ? Math.max(endMs - turn.startMs, 0) : estimateMs(turn.words);
+  });
+
+  const stats = new Map<string, SpeakerStats>();
+  const silenceGaps: SilenceGap[] = [];
+
+  turns.forEach((turn, index) => {
+    const previous = index > 0 ? turns[index - 1] : null;
+
+    // Silence can only be measured when the previous turn's end is known
+    if (previous?.endMs != null && turn.startMs !== null && turn.startMs - previous.endMs >= SILENCE_GAP_MS) {
+      silenceGaps.push({
+        afterSpeaker: previous.speaker,
+        startMs: previous.endMs,
+        durationMs: turn.startMs - previous.endMs,
+      });
+    }
+
+    if (!turn.speaker) return;
+
+    let speaker = stats.get(turn.speaker);
+    if (!speaker) {
+      speaker = {
+        name: turn.speaker,
+        talkTimeMs: 0,
+        talkTimeShare: 0,
+        wordCount: 0,
+        wordShare: 0,
+        turns: 0,
+        questions: 0,
+        interruptions: 0,
+      };
+      stats.set(turn.speaker, speaker);
+    }
+
+    speaker.talkTimeMs += durations[index];
+    speaker.wordCount += turn.words;
+    speaker.turns += 1;
+    speaker.questions += turn.questions;
+
+    // Starting while someone else is still talking, or cutting them off
+    // mid-sentence, counts against the one who took over
+    if (previous?.speaker && previous.speaker !== turn.speaker) {
+      const overlaps = previous.endMs !== null && turn.startMs !== null && turn.startMs < previous.endMs;
+      if (overlaps || CUT_OFF.test(previous.lastText)) {
+        speaker.interruptions += 1;
+      }
+    }
+  });
+
+  const speakers = Array.from(stats.values());
+  const totalWords = speakers.reduce((total, speaker) => total + speaker.wordCount, 0);
+  const totalTalkMs = speakers.reduce((total, speaker) => total + speaker.talkTimeMs, 0);
+  for (const speaker of speakers) {
+    speaker.talkTimeShare = totalTalkMs > 0 ? speaker.talkTimeMs / totalTalkMs : 0;
+    speaker.wordShare = totalWords > 0 ? speaker.wordCount / totalWords : 0;
+  }
+
+  let durationMs = durations.reduce((total, duration) => total + duration, 0);
+  if (timed) {
+    const starts = turns.map((turn) => turn.startMs).filter((start): start is number => start !== null);
+    const ends = turns.map((turn, index) => (turn.startMs ?? 0) + durations[index]);
+    durationMs = ends.reduce((a, b) => Math.max(a, b), 0) - starts.reduce((a, b) => Math.min(a, b));
+  }
+
+  return {
+    timed,
+    durationMs,
+    totalWords,
+    totalTurns: speakers.reduce((total, speaker) => total + speaker.turns, 0),
+    speakers: speakers.sort((a, b) => b.talkTimeMs - a.talkTimeMs),
+    silenceGaps,
+  };
+}
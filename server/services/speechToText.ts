@@ -0,0 +1,147 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { TranscriptSegment } from "@shared/schema";
+import { parseCaptions } from "./captionParser";
+import { segmentTranscript } from "./transcriptSegmenter";
+
+export type TranscriptionStage = "extracting" | "transcribing";
+
+export interface TranscribeOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: TranscriptionStage, percent: number) => void;
+}
+
+export interface ISpeechToText {
+  readonly name: string;
+  readonly model: string;
+
+  isConfigured(): boolean;
+
+  // One segment per recognised utterance, with start/end in ms
+  transcribe(mediaPath: string, options?: TranscribeOptions): Promise<TranscriptSegment[]>;
+}
+
+// Output of `whisper-cli -oj`; offsets are in milliseconds
+interface WhisperOutput {
+  transcription: { offsets: { from: number; to: number }; text: string }[];
+}
+
+// Run a command to completion, reporting each line it writes to stderr.
+// Rejects with the tail of stderr when it exits non-zero.
+function run(command: string, args: string[], signal?: AbortSignal, onStderrLine?: (line: string) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    let pending = "";
+
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-2000);
+      const lines = (pending + chunk).split(/\r?\n|\r/);
+      pending = lines.pop() || "";
+      lines.forEach((line) => onStderrLine?.(line));
+    });
+
+    child.on("error", (error) => reject(new Error(`${path.basename(command)} failed to start: ${error.message}`)));
+    child.on("close", (code) => {
+      if (code === 0) return resolve();
+      const detail = stderr.trim().split("\n").slice(-3).join(" ");
+      reject(new Error(`${path.basename(command)} exited with code ${code}${detail ? `: ${detail}` : ""}`));
+    });
+  });
+}
+
+// A local whisper.cpp build running on the CPU. ffmpeg first turns any audio
+// or video container into the 16 kHz mono WAV whisper.cpp expects.
+export class WhisperCppTranscriber implements ISpeechToText {
+  readonly name = "whisper.cpp";
+  private binary = process.env.WHISPER_CPP_BIN || "";
+  private modelPath = process.env.WHISPER_CPP_MODEL || "";
+  private ffmpeg = process.env.FFMPEG_PATH || "ffmpeg";
+  readonly model = path.basename(this.modelPath, path.extname(this.modelPath)) || "unconfigured";
+
+  isConfigured(): boolean {
+    return !!this.binary && !!this.modelPath && fs.existsSync(this.modelPath);
+  }
+
+  async transcribe(mediaPath: string, options: TranscribeOptions = {}): Promise<TranscriptSegment[]> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transcribe-"));
+    try {
+      const wavPath = path.join(workDir, "audio.wav");
+      options.onProgress?.("extracting", 0);
+      await run(this.ffmpeg, ["-nostdin", "-y", "-i", mediaPath, "-vn", "-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le", wavPath], options.signal);
+
+      const args = ["-m", this.modelPath, "-f", wavPath, "-oj", "-of", path.join(workDir, "transcript"), "-pp"];
+      if (process.env.WHISPER_CPP_LANGUAGE) args.push("-l", process.env.WHISPER_CPP_LANGUAGE);
+      if (process.env.WHISPER_CPP_THREADS) args.push("-t", process.env.WHISPER_CPP_THREADS);
+
+      options.onProgress?.("transcribing", 0);
+      await run(this.binary, args, options.signal, (line) => {
+        const progress = line.match(/progress\s*=\s*(\d+)%/);
+        if (progress) options.onProgress?.("transcribing", parseInt(progress[1], 10));
+      });
+
+      const output: WhisperOutput = JSON.parse(await fs.promises.readFile(path.join(workDir, "transcript.json"), "utf-8"));
+      return output.transcription
+        .map((item) => ({ startMs: item.offsets.from, endMs: item.offsets.to, text: item.text.trim() }))
+        .filter((item) => item.text && !/^\[[A-Z_ ]+\]$/.test(item.text)) // [BLANK_AUDIO], [MUSIC]
+        .map((item, index) => ({ speaker: null, ...item, line: index + 1 }));
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Deterministic offline backend for CI and local development. Reads
+// STT_FIXTURE_FILE (a caption file or plain transcript) when set, otherwise
+// returns a single placeholder utterance.
+export class FixtureTranscriber implements ISpeechToText {
+  readonly name = "fixture";
+  readonly model = "canned";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(mediaPath: string, options: TranscribeOptions = {}): Promise<TranscriptSegment[]> {
+    options.signal?.throwIfAborted();
+    options.onProgress?.("extracting", 0);
+    options.onProgress?.("transcribing", 50);
+
+    const fixtureFile = process.env.STT_FIXTURE_FILE;
+    if (fixtureFile) {
+      const content = await fs.promises.readFile(fixtureFile, "utf-8");
+      return /\.(vtt|srt)$/i.test(fixtureFile) ? parseCaptions(content).segments : segmentTranscript(content);
+    }
+
+    const { size } = await fs.promises.stat(mediaPath);
+    return [{
+      speaker: null,
+      startMs: 0,
+      endMs: 1000,
+      text: `Transcribed offline by the fixture backend (${size} bytes of media).`,
+      line: 1,
+    }];
+  }
+}
+
+const transcribers: Record<string, ISpeechToText> = {
+  whisper: new WhisperCppTranscriber(),
+  fixture: new FixtureTranscriber(),
+};
+
+// STT_BACKEND if set and configured, otherwise whisper.cpp when a binary and
+// model are available. The fixture backend is only used when asked for by
+// name, so a missing whisper install fails transcription instead of quietly
+// returning placeholder text.
+export function getTranscriber(): ISpeechToText {
+  const configured = process.env.STT_BACKEND;
+  if (configured && transcribers[configured]?.isConfigured()) {
+    return transcribers[configured];
+  }
+
+  if (transcribers.whisper.isConfigured()) return transcribers.whisper;
+  throw new Error("Speech-to-text is not configured");
+}
@@ -0,0 +1,44 @@
+import type { Response } from "express";
+
+export interface EventStream {
+  signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+// Switch a response into Server-Sent Events mode. The returned signal aborts
+// when the client disconnects before close() is called.
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+  let closed = false;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  // The request's own "close" fires as soon as its body has been read, so
+  // watch the response: it closes early only if the client went away
+  res.on("close", () => {
+    if (!closed && !res.writableEnded) {
+      closed = true;
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+  };
+}
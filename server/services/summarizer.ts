@@ -0,0 +1,205 @@
+import { estimateTokens, getDefaultProvider, type ILLMProvider } from "./llmProvider";
+import { chunkTranscript } from "./transcriptChunker";
+
+const toneInstructions = {
+  professional: "Use a formal, business-appropriate tone with clear structure and professional language.",
+  casual: "Use a friendly, conversational tone that's approachable and easy to understand.",
+  concise: "Be direct and to-the-point, focusing on essential information only.",
+  detailed: "Provide comprehensive coverage with thorough explanations and context."
+};
+
+export interface SummaryProgress {
+  stage: "map" | "reduce" | "final";
+  completed: number;
+  total: number;
+}
+
+export interface SummarizeOptions {
+  provider?: ILLMProvider;
+  // Named speakers of the transcript, from its segments
+  speakers?: string[];
+  signal?: AbortSignal;
+  onProgress?: (progress: SummaryProgress) => void;
+}
+
+// Tells the model who took part, so statements are attributed to the
+// speakers the user confirmed rather than guessed from the text
+function buildSpeakerNote(speakers: string[] = []): string {
+  if (speakers.length === 0) return "";
+  return `
+PARTICIPANTS: ${speakers.join(", ")}
+Each transcript line that starts with a participant's name followed by a colon was spoken by that participant. Attribute statements, decisions and action items to them by that name. Lines without a name are unattributed; do not guess who said them.
+`;
+}
+
+function buildSummaryPrompt(transcript: string, customPrompt: string, tone: string, speakers?: string[]): string {
+  return `
+You are an expert meeting summarizer. Please analyze the following meeting transcript and create a structured summary enhanced with relevant emojis for better readability and engagement.
+${buildSpeakerNote(speakers)}
+TONE: ${toneInstructions[tone as keyof typeof toneInstructions] || toneInstructions.professional}
+
+CUSTOM INSTRUCTIONS: ${customPrompt}
+
+FORMATTING REQUIREMENTS:
+- Use clear headings with appropriate emojis (## Heading 📋)
+- Add relevant emojis to bullet points and action items
+- Structure the content logically
+- Include participant names when mentioned
+- Highlight key decisions, action items, and deadlines
+- Use emojis that enhance understanding without being excessive
+
+TRANSCRIPT TO SUMMARIZE:
+${transcript}
+
+Please create a well-structured, emoji-enhanced summary that follows the custom instructions and maintains the specified tone.
+`;
+}
+
+// Map step: condense one part of a long transcript into notes for the reduce pass
+function buildChunkPrompt(chunk: string, customPrompt: string, part: number, total: number, speakers?: string[]): string {
+  return `
+You are an expert meeting summarizer. The following is part ${part} of ${total} of a long meeting transcript.
+${buildSpeakerNote(speakers)}
+Write detailed notes on this part only. Keep every decision, action item (with owner and deadline), open question, risk and notable statement, attributed to the speaker who made it. Do not add an introduction or conclusion; these notes will be merged with notes from the other parts.
+
+The final summary will follow these instructions, so keep anything they ask for: ${customPrompt}
+
+TRANSCRIPT PART ${part} OF ${total}:
+${chunk}
+`;
+}
+
+// Intermediate reduce step used when the partial notes themselves are too long to merge in one pass
+function buildMergePrompt(partials: string[]): string {
+  return `
+You are an expert meeting summarizer. Merge the following consecutive sets of meeting notes into a single set of notes. Keep every decision, action item, open question, risk and speaker attribution, remove duplicates and preserve chronological order.
+
+${partials.map((partial, i) => `NOTES ${i + 1}:\n${partial}`).join("\n\n")}
+`;
+}
+
+// Final reduce step: produce the user-facing summary from the partial notes
+function buildReducePrompt(partials: string[], customPrompt: string, tone: string, speakers?: string[]): string {
+  return buildSummaryPrompt(
+    partials.map((partial, i) => `--- Notes on part ${i + 1} of ${partials.length} ---\n${partial}`).join("\n\n"),
+    customPrompt,
+    tone,
+    speakers
+  ).replace(
+    "TRANSCRIPT TO SUMMARIZE:",
+    "The meeting was too long to summarize in one pass, so it was split into consecutive parts and each part was condensed into notes. Treat the notes together as one meeting.\n\nMEETING NOTES TO SUMMARIZE:"
+  );
+}
+
+// Build the prompt for the final generation. Short transcripts go straight to
+// the model; transcripts that exceed the provider's context window are
+// chunked on speaker turns, summarized part by part (map) and merged (reduce).
+async function prepareSummaryPrompt(
+  transcript: string,
+  customPrompt: string,
+  tone: string,
+  provider: ILLMProvider,
+  options: SummarizeOptions
+): Promise<string> {
+  // Leave headroom for the model's output and for estimation error
+  const promptBudget = Math.floor(provider.contextWindow * 0.75);
+
+  const { speakers } = options;
+  const singlePassPrompt = buildSummaryPrompt(transcript, customPrompt, tone, speakers);
+  if (estimateTokens(singlePassPrompt) <= promptBudget) {
+    return singlePassPrompt;
+  }
+
+  const chunkBudget = promptBudget - estimateTokens(buildChunkPrompt("", customPrompt, 0, 0, speakers));
+  if (chunkBudget <= 0) {
+    throw new Error("Custom instructions are too long for the selected model");
+  }
+
+  const chunks = chunkTranscript(transcript, chunkBudget);
+  let partials: string[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ stage: "map", completed: i, total: chunks.length });
+    partials.push(await provider.generate(buildChunkPrompt(chunks[i], customPrompt, i + 1, chunks.length, speakers), { signal: options.signal }));
+  }
+  options.onProgress?.({ stage: "map", completed: chunks.length, total: chunks.length });
+
+  // Merge neighbouring notes until they fit into a single reduce prompt
+  while (estimateTokens(buildReducePrompt(partials, customPrompt, tone, speakers)) > promptBudget && partials.length > 1) {
+    const groups: string[][] = [];
+    for (const partial of partials) {
+      const group = groups[groups.length - 1];
+      if (group && estimateTokens(buildMergePrompt([...group, partial])) <= promptBudget) {
+        group.push(partial);
+      } else {
+        groups.push([partial]);
+      }
+    }
+
+    // No two neighbours fit together; merging cannot shrink the notes further
+    if (groups.length === partials.length) {
+      break;
+    }
+
+    const merged: string[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ stage: "reduce", completed: i, total: groups.length });
+      merged.push(groups[i].length === 1 ? groups[i][0] : await provider.generate(buildMergePrompt(groups[i]), { signal: options.signal }));
+    }
+    partials = merged;
+  }
+
+  options.onProgress?.({ stage: "final", completed: 0, total: 1 });
+  return buildReducePrompt(partials, customPrompt, tone, speakers);
+}
+
+export async function generateSummary(
+  transcript: string,
+  customPrompt: string,
+  tone: string,
+  options: SummarizeOptions = {}
+): Promise<string> {
+  try {
+    const provider = options.provider || getDefaultProvider();
+    const basePrompt = await prepareSummaryPrompt(transcript, customPrompt, tone, provider, options);
+    const summary = (await provider.generate(basePrompt, { signal: options.signal })) || "Failed to generate summary";
+
+    // Ensure we have a minimum viable summary
+    if (summary.length < 50) {
+      throw new Error("Generated summary is too short");
+    }
+
+    return summary;
+  } catch (error: any) {
+    throw new Error(`AI summarization failed: ${error.message}`);
+  }
+}
+
+// Streaming variant of generateSummary: yields markdown chunks of the final
+// pass as the provider produces them. Aborting the signal stops the provider
+// request.
+export async function* streamSummary(
+  transcript: string,
+  customPrompt: string,
+  tone: string,
+  options: SummarizeOptions = {}
+): AsyncGenerator<string> {
+  let length = 0;
+
+  try {
+    const provider = options.provider || getDefaultProvider();
+    const basePrompt = await prepareSummaryPrompt(transcript, customPrompt, tone, provider, options);
+    for await (const chunk of provider.stream(basePrompt, { signal: options.signal })) {
+      length += chunk.length;
+      yield chunk;
+    }
+  } catch (error: any) {
+    throw new Error(`AI summarization failed: ${error.message}`);
+  }
+
+  if (length < 50) {
+    throw new Error("AI summarization failed: Generated summary is too short");
+  }
+}
@@ -0,0 +1,102 @@
+import { transcriptAnswerSchema, type ChatMessage, type TranscriptExcerpt } from "@shared/schema";
+import type { TranscriptChunk } from "./transcriptChunker";
+import { locateInTranscript } from "./insightExtractor";
+import { estimateTokens, getDefaultProvider, type ILLMProvider } from "./llmProvider";
+
+// Only the most recent turns are replayed; older ones rarely matter for a follow-up
+const HISTORY_MESSAGES = 10;
+
+export interface TranscriptChatOptions {
+  provider?: ILLMProvider;
+  signal?: AbortSignal;
+  // Line ranges of relevant passages, used when the whole transcript does not fit the context
+  passages?: Pick<TranscriptChunk, "startLine" | "endLine">[];
+}
+
+export interface TranscriptChatReply {
+  answer: string;
+  excerpts: TranscriptExcerpt[];
+}
+
+// Prefix each line with its number so the model can quote precisely
+function numberLines(text: string, firstLine = 1): string {
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => `L${firstLine + index}: ${line}`)
+    .join("\n");
+}
+
+function buildChatPrompt(source: string, history: ChatMessage[], question: string, isExcerpt: boolean): string {
+  const conversation = history
+    .slice(-HISTORY_MESSAGES)
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n");
+
+  return `
+You answer follow-up questions about a single meeting using only its transcript${isExcerpt ? " (the most relevant excerpts are shown)" : ""}. Return a single JSON object:
+
+{ "answer": string, "quotes": [string] }
+
+RULES:
+- Answer only from the transcript; if it does not say, answer that the transcript doesn't cover it and return no quotes
+- Attribute statements to the speakers who made them
+- "quotes" are 1-3 short verbatim excerpts (under 30 words each) copied exactly from the transcript that support the answer, without the "L<n>:" line prefix
+- Keep the answer under 150 words, in plain text
+- Respond with JSON only
+${conversation ? `\nCONVERSATION SO FAR:\n${conversation}\n` : ""}
+QUESTION:
+${question}
+
+TRANSCRIPT:
+${source}
+`;
+}
+
+// Whether the whole transcript can be sent with a question, or passages must be retrieved
+export function transcriptFitsContext(transcript: string, provider: ILLMProvider = getDefaultProvider()): boolean {
+  return estimateTokens(buildChatPrompt(numberLines(transcript), [], "", false)) <= Math.floor(provider.contextWindow * 0.6);
+}
+
+// Answer a question about one meeting, grounded in its transcript, and return
+// the supporting quotes with the transcript lines they came from
+export async function answerTranscriptQuestion(
+  transcript: string,
+  history: ChatMessage[],
+  question: string,
+  options: TranscriptChatOptions = {}
+): Promise<TranscriptChatReply> {
+  const { provider = getDefaultProvider(), signal, passages } = options;
+
+  try {
+    const excerpts = passages?.length && !transcriptFitsContext(transcript, provider) ? passages : null;
+    const lines = transcript.split(/\r?\n/);
+    const source = excerpts
+      ? [...excerpts]
+          .sort((a, b) => a.startLine - b.startLine)
+          .map((passage) => numberLines(lines.slice(passage.startLine - 1, passage.endLine).join("\n"), passage.startLine))
+          .join("\n...\n")
+      : numberLines(transcript);
+
+    const response = await provider.generate(buildChatPrompt(source, history, question, !!excerpts), { json: true, signal });
+
+    // Some OpenAI-compatible servers ignore response_format and wrap JSON in a code fence
+    const json = response.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+    const reply = transcriptAnswerSchema.parse(JSON.parse(json));
+
+    if (!reply.answer.trim()) {
+      throw new Error("The model returned an empty answer");
+    }
+
+    return {
+      answer: reply.answer.trim(),
+      // Quotes that can't be found in the transcript aren't evidence, so drop them
+      excerpts: reply.quotes.flatMap((raw) => {
+        const quote = raw.replace(/^L\d+:\s*/, "").trim();
+        const line = locateInTranscript(transcript, quote);
+        return line ? [{ quote, line }] : [];
+      }),
+    };
+  } catch (error: any) {
+    throw new Error(`Transcript chat failed: ${error.message}`);
+  }
+}
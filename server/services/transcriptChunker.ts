@@ -0,0 +1,127 @@
+import { estimateTokens } from "./llmProvider";
+
+// Matches lines that open a speaker turn, e.g. "Alice:", "[00:12:03] Bob Smith:"
+// or "SPEAKER 2 (10:41):".
+const SPEAKER_TURN = /^\s*(\[[^\]]*\]\s*)?[A-Za-z][\w .'()-]{0,40}:\s/;
+
+export interface TranscriptTurn {
+  text: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+export type TranscriptChunk = TranscriptTurn;
+
+// Split a transcript into speaker turns, keeping the line range of each.
+// Falls back to paragraphs when the transcript has no recognisable speaker
+// labels.
+export function splitIntoTurns(transcript: string): TranscriptTurn[] {
+  const lines = transcript.split(/\r?\n/);
+  const hasSpeakers = lines.some((line) => SPEAKER_TURN.test(line));
+
+  const turns: TranscriptTurn[] = [];
+  let current: string[] = [];
+  let startLine = 1;
+
+  const push = (endLine: number) => {
+    const text = current.join("\n").trim();
+    if (text.length > 0) {
+      turns.push({ text, startLine, endLine });
+    }
+    current = [];
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const startsTurn = hasSpeakers ? SPEAKER_TURN.test(line) : line.trim().length === 0;
+
+    if (startsTurn && current.length > 0) {
+      push(lineNumber - 1);
+    }
+    if (current.length === 0) {
+      startLine = lineNumber;
+    }
+    if (hasSpeakers || line.trim().length > 0) {
+      current.push(line);
+    }
+  });
+  push(lines.length);
+
+  return turns;
+}
+
+// Break a single oversized turn on sentence boundaries, hard-splitting on
+// words only when a sentence alone exceeds the budget.
+function splitOversizedTurn(turn: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  const push = (text: string) => {
+    if (current && estimateTokens(current + " " + text) > maxTokens) {
+      pieces.push(current);
+      current = text;
+    } else {
+      current = current ? current + " " + text : text;
+    }
+  };
+
+  for (const sentence of turn.split(/(?<=[.!?])\s+/)) {
+    if (estimateTokens(sentence) <= maxTokens) {
+      push(sentence);
+      continue;
+    }
+
+    const words = sentence.split(/\s+/);
+    const wordsPerPiece = Math.max(1, Math.floor((maxTokens * 4) / 6));
+    for (let i = 0; i < words.length; i += wordsPerPiece) {
+      push(words.slice(i, i + wordsPerPiece).join(" "));
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+// Pack speaker turns into chunks of at most maxTokens (estimated), never
+// splitting a turn unless it is larger than a whole chunk on its own.
+export function chunkTranscriptWithLines(transcript: string, maxTokens: number): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptTurn[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push({
+        text: current.map((turn) => turn.text).join("\n\n"),
+        startLine: current[0].startLine,
+        endLine: current[current.length - 1].endLine,
+      });
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const turn of splitIntoTurns(transcript)) {
+    const pieces = estimateTokens(turn.text) > maxTokens
+      ? splitOversizedTurn(turn.text, maxTokens).map((text) => ({ ...turn, text }))
+      : [turn];
+
+    for (const piece of pieces) {
+      const tokens = estimateTokens(piece.text);
+      if (currentTokens + tokens > maxTokens) {
+        flush();
+      }
+      current.push(piece);
+      currentTokens += tokens;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+export function chunkTranscript(transcript: string, maxTokens: number): string[] {
+  return chunkTranscriptWithLines(transcript, maxTokens).map((chunk) => chunk.text);
+}
@@ -0,0 +1,147 @@
+import type { TranscriptSegment, TranscriptSpeaker } from "@shared/schema";
+import { formatSegmentLine } from "@shared/transcript";
+
+// Splits a plain-text transcript (pasted, .txt, .pdf or .docx) into one
+// segment per non-empty line without rewriting the text, so each segment's
+// line still points into originalContent. Speakers come from the labels the
+// usual exports write:
+//
+//   Alice: Are we ready?               chat style
+//   [00:12:03] Bob Smith: Yes          timestamped
+//   Carol (10:41): Go ahead            time after the name
+//   Dan Lee  0:03                      Otter / Teams heading, text below
+//
+// Lines without a label belong to the speaker above them until a blank line.
+
+const MAX_LABEL_WORDS = 4;
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`;
+
+// Unicode-aware, so built with RegExp rather than as literals
+const SPEAKER_LABEL = new RegExp(String.raw`^(\p{L}[\p{L}\p{M}\d.'’ -]{0,40}?)(?:\s*\((${TIME})\))?:\s+(.*)$`, "u");
+const BRACKET_LABEL = /^\[([^\]]{1,40})\]\s*(.*)$/;
+const SPEAKER_HEADING = new RegExp(String.raw`^(\p{L}[\p{L}\p{M}\d.'’ -]{0,40}?)(?:\s{2,}|\t)(${TIME})$`, "u");
+const TIME_PREFIX = new RegExp(String.raw`^[\[(](${TIME})[\])]\s*(.*)$`);
+
+export interface SpeakerLabel {
+  speaker: string | null;
+  startMs: number | null;
+  text: string;
+}
+
+// "1:02:03", "02:03" or "02:03.500" in milliseconds
+export function parseClockTime(value: string): number {
+  const [clock, fraction = "0"] = value.split(/[.,]/);
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds * 1000 + parseInt(fraction.padEnd(3, "0").slice(0, 3), 10);
+}
+
+function isName(value: string): boolean {
+  return value.trim().split(/\s+/).length <= MAX_LABEL_WORDS;
+}
+
+// Separate a leading "Name:" or "[Name]" label from the spoken text
+export function splitSpeakerLabel(line: string): SpeakerLabel {
+  const label = line.match(SPEAKER_LABEL);
+  if (label && isName(label[1])) {
+    return { speaker: label[1].trim(), startMs: label[2] ? parseClockTime(label[2]) : null, text: label[3].trim() };
+  }
+  const bracket = line.match(BRACKET_LABEL);
+  if (bracket && isName(bracket[1])) {
+    return { speaker: bracket[1].trim(), startMs: null, text: bracket[2].trim() };
+  }
+  return { speaker: null, startMs: null, text: line.replace(/^-\s+/, "").trim() };
+}
+
+// Label and time of one line, with any leading "[00:12:03]" taken off first
+function parseLine(line: string): SpeakerLabel {
+  const timed = line.match(TIME_PREFIX);
+  if (!timed) return splitSpeakerLabel(line);
+  const label = splitSpeakerLabel(timed[2]);
+  return { ...label, startMs: parseClockTime(timed[1]) };
+}
+
+export function segmentTranscript(text: string): TranscriptSegment[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const parsed = lines.map((line) => (line ? parseLine(line) : null));
+  const headings = lines.map((line) => {
+    const match = line.match(SPEAKER_HEADING);
+    return match && isName(match[1]) ? { speaker: match[1].trim(), startMs: parseClockTime(match[2]) } : null;
+  });
+
+  // A single "Agenda: ..." line is not a conversation; labels only count
+  // once several lines carry one
+  const labelled = parsed.filter((line) => line?.speaker).length + headings.filter(Boolean).length;
+  const hasSpeakers = labelled >= 2;
+
+  const segments: TranscriptSegment[] = [];
+  let speaker: string | null = null;
+  let pendingStartMs: number | null = null;
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      speaker = null;
+      return;
+    }
+
+    const heading = hasSpeakers ? headings[index] : null;
+    if (heading) {
+      speaker = heading.speaker;
+      pendingStartMs = heading.startMs;
+      return;
+    }
+
+    const label = parsed[index]!;
+    if (hasSpeakers && label.speaker) {
+      speaker = label.speaker;
+    }
+    const startMs = label.startMs ?? pendingStartMs;
+    pendingStartMs = null;
+
+    segments.push({
+      speaker,
+      startMs,
+      endMs: null,
+      text: hasSpeakers ? label.text : line,
+      line: index + 1,
+    });
+  });
+
+  return segments;
+}
+
+// The transcript as the model should read it: consecutive lines of the same
+// speaker become one turn, each opened by its time and speaker
+export function renderTranscript(segments: TranscriptSegment[]): string {
+  const turns: TranscriptSegment[] = [];
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1];
+    if (previous && segment.speaker && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`;
+    } else {
+      turns.push({ ...segment });
+    }
+  }
+  return turns.map(formatSegmentLine).join("\n");
+}
+
+// The ingested text with each speaker's lines written as the segments now
+// read, so renamed and merged speakers show up while every line keeps its
+// number in originalContent (which transcript links and quotes refer to)
+export function renderTranscriptLines(text: string, segments: TranscriptSegment[]): string {
+  const lines = text.split(/\r?\n/);
+  for (const segment of segments) {
+    if (segment.speaker && segment.line <= lines.length) {
+      lines[segment.line - 1] = formatSegmentLine(segment);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Named speakers in order of first appearance
+export function listSpeakers(segments: TranscriptSegment[]): TranscriptSpeaker[] {
+  const counts = new Map<string, number>();
+  for (const segment of segments) {
+    if (segment.speaker) counts.set(segment.speaker, (counts.get(segment.speaker) || 0) + 1);
+  }
+  return Array.from(counts, ([name, segmentCount]) => ({ name, segmentCount }));
+}
@@ -1,6 +1,74 @@
-import { users, summaries, emailLogs, type User, type InsertUser, type Summary, type InsertSummary, type EmailLog, type InsertEmailLog } from "@shared/schema";
+import { users, workspaces, workspaceMembers, workspaceInvites, summaries, emailLogs, actionItems, decisions, openQuestions, risks, embeddingChunks, chatMessages, summaryVersions, summaryReviewers, reviewEvents, summaryComments, shareLinks, transcriptSegments, jobs, contacts, contactGroups, contactGroupMembers, type User, type InsertUser, type Summary, type InsertSummary, type EmailLog, type EmailLogWithSender, type EmailLogStatus, type InsertEmailLog, type ActionItem, type ActionItemField, type InsertActionItem, type ExtractedInsights, type SummaryInsights, type ActionItemWithSummary, type SummaryListItem, type PaginatedResult, type SummarySearchResult, type InsertEmbeddingChunk, type EmbeddingChunkWithSummary, type ChatMessage, type InsertChatMessage, type SummaryVersion, type InsertSummaryVersion, type SummaryVersionListItem, type Workspace, type WorkspaceRole, type WorkspaceWithRole, type WorkspaceMemberWithUser, type WorkspaceInvite, type InsertWorkspaceInvite, type WorkspaceInviteDetails, type SummaryStatus, type ReviewAction, type ReviewDecision, type SummaryReviewer, type SummaryReviewerWithUser, type ReviewEvent, type InsertReviewEvent, type ReviewEventWithNames, type SummaryComment, type InsertSummaryComment, type SummaryCommentWithAuthor, type SummaryCommentThread, type ShareLink, type InsertShareLink, type ShareLinkDetails, type TranscriptSegment, type StoredTranscriptSegment, type Job, type InsertJob, type Contact, type InsertContact, type ContactGroup, type ContactGroupWithMembers, type RecipientSuggestion } from "@shared/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "@shared/search";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, desc, asc, and, or, gt, gte, lt, lte, ilike, inArray, isNull, isNotNull, notExists, sql, count, getTableColumns, type SQL } from "drizzle-orm";
+
+// Every summary column except the full-text search vector
+const { searchVector, ...summaryColumns } = getTableColumns(summaries);
+
+const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+const titleHeadlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+
+// Contacts alphabetically by name, or by email for those without one
+const contactOrder = sql`lower(coalesce(nullif(${contacts.name}, ''), ${contacts.email}))`;
+
+// Summaries in any workspace the user belongs to, plus their own summaries
+// that predate workspaces
+function accessibleSummaries(userId: string): SQL {
+  return or(
+    inArray(
+      summaries.workspaceId,
+      db.select({ id: workspaceMembers.workspaceId }).from(workspaceMembers).where(eq(workspaceMembers.userId, userId))
+    ),
+    and(isNull(summaries.workspaceId), eq(summaries.userId, userId))
+  )!;
+}
+
+// Extracted text compared loosely, so rewording in case, spacing or the
+// closing full stop still counts as the same item
+function sameText(a: string | null, b: string | null | undefined): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").replace(/[.!]+$/, "").trim();
+  return !!a && !!b && normalize(a) === normalize(b);
+}
+
+// A running job still locked by this worker. Once its lock goes stale the
+// job can be requeued and claimed by another worker, and this one's late
+// heartbeats and outcomes must not touch it.
+function heldBy(jobId: string, workerId: string): SQL {
+  return and(eq(jobs.id, jobId), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId))!;
+}
+
+export interface SummaryListQuery {
+  workspaceId?: string;
+  page: number;
+  pageSize: number;
+  sort: "updatedAt" | "createdAt" | "title" | "wordCount";
+  order: "asc" | "desc";
+  status?: string;
+  tone?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface ActionItemFilters {
+  owner?: string;
+  status?: string;
+  summaryId?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  noDueDate?: boolean;
+}
+
+// A review action to record. The decision is the acting reviewer's, or null
+// to clear every reviewer's decision when a new round starts.
+export interface ReviewUpdate {
+  actorId: string;
+  action: ReviewAction;
+  comment: string | null;
+  fromStatus: SummaryStatus;
+  decision?: ReviewDecision | null;
+}
 
 export interface IStorage {
   // User methods
@@ -8,17 +76,126 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserTheme(id: string, theme: string): Promise<void>;
+  updateUserProvider(id: string, llmProvider: string | null): Promise<void>;
+
+  // Workspace methods
+  ensurePersonalWorkspace(user: User): Promise<Workspace>;
+  createWorkspace(name: string, ownerId: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  updateWorkspace(id: string, updates: { name: string }): Promise<Workspace>;
+  deleteWorkspace(id: string): Promise<void>;
+  getUserWorkspaces(userId: string): Promise<WorkspaceWithRole[]>;
+  getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
+  createWorkspaceInvite(invite: InsertWorkspaceInvite): Promise<WorkspaceInvite>;
+  getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]>;
+  getWorkspaceInviteByToken(token: string): Promise<WorkspaceInviteDetails | undefined>;
+  getPendingInvitesForEmail(email: string): Promise<WorkspaceInviteDetails[]>;
+  deleteWorkspaceInvite(id: string): Promise<void>;
+  acceptWorkspaceInvite(inviteId: string, userId: string): Promise<void>;
   
   // Summary methods
   createSummary(summary: InsertSummary & { userId: string }): Promise<Summary>;
   updateSummary(id: string, updates: Partial<InsertSummary>): Promise<Summary>;
+  updateSummaryIfRevision(id: string, revision: number, updates: Partial<InsertSummary>): Promise<Summary | undefined>;
   getSummary(id: string): Promise<Summary | undefined>;
   getUserSummaries(userId: string): Promise<Summary[]>;
+  listUserSummaries(userId: string, query: SummaryListQuery): Promise<PaginatedResult<SummaryListItem>>;
+  searchSummaries(userId: string, query: string, limit: number): Promise<SummarySearchResult[]>;
   deleteSummary(id: string): Promise<void>;
+
+  // Version history methods
+  createSummaryVersion(version: Omit<InsertSummaryVersion, "version">): Promise<SummaryVersion>;
+  updateSummaryVersion(id: string, updates: Partial<InsertSummaryVersion>): Promise<SummaryVersion>;
+  getLatestSummaryVersion(summaryId: string): Promise<SummaryVersion | undefined>;
+  getSummaryVersion(summaryId: string, version: number): Promise<SummaryVersion | undefined>;
+  getSummaryVersions(summaryId: string): Promise<SummaryVersionListItem[]>;
+
+  // Review workflow methods
+  updateSummaryStatus(id: string, from: SummaryStatus[], to: SummaryStatus): Promise<Summary | undefined>;
+  getSummaryReviewers(summaryId: string): Promise<SummaryReviewerWithUser[]>;
+  addSummaryReviewer(summaryId: string, userId: string, addedById: string): Promise<SummaryReviewer>;
+  removeSummaryReviewer(summaryId: string, userId: string): Promise<void>;
+  recordReviewAction(summaryId: string, update: ReviewUpdate, nextStatus: (reviewers: SummaryReviewer[]) => SummaryStatus): Promise<Summary | undefined>;
+  clearReviewerDecisions(summaryId: string): Promise<void>;
+  createReviewEvent(event: InsertReviewEvent): Promise<ReviewEvent>;
+  getReviewEvents(summaryId: string): Promise<ReviewEventWithNames[]>;
+
+  // Inline comment methods
+  getCommentThreads(summaryId: string): Promise<SummaryCommentThread[]>;
+  getSummaryComment(id: string): Promise<SummaryComment | undefined>;
+  getAnchoredComments(summaryId: string): Promise<SummaryComment[]>;
+  createSummaryComment(comment: InsertSummaryComment): Promise<SummaryComment>;
+  updateSummaryComment(id: string, updates: Partial<InsertSummaryComment>): Promise<SummaryComment>;
+  updateCommentAnchors(anchors: { id: string; anchorStart: number | null; anchorEnd: number | null }[]): Promise<void>;
+  deleteSummaryComment(id: string): Promise<void>;
+
+  // Transcript segment methods
+  getTranscriptSegments(summaryId: string): Promise<StoredTranscriptSegment[]>;
+  replaceTranscriptSegments(summaryId: string, segments: TranscriptSegment[]): Promise<StoredTranscriptSegment[]>;
+  renameTranscriptSpeaker(summaryId: string, from: string, to: string): Promise<void>;
+
+  // Share link methods
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLinks(summaryId: string): Promise<ShareLinkDetails[]>;
+  getShareLinkDetails(id: string): Promise<ShareLinkDetails | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(id: string): Promise<void>;
+  recordShareLinkView(id: string): Promise<void>;
   
   // Email log methods
   createEmailLog(emailLog: InsertEmailLog): Promise<EmailLog>;
-  getSummaryEmailLogs(summaryId: string): Promise<EmailLog[]>;
+  getEmailLog(id: string): Promise<EmailLog | undefined>;
+  updateEmailLog(id: string, updates: Partial<InsertEmailLog> & { sentAt?: Date | null }): Promise<EmailLog>;
+  transitionEmailLog(id: string, from: EmailLogStatus[], updates: Partial<InsertEmailLog>): Promise<EmailLog | undefined>;
+  getSummaryEmailLogs(summaryId: string): Promise<EmailLogWithSender[]>;
+
+  // Contact methods
+  getContacts(ownerId: string): Promise<Contact[]>;
+  getContact(id: string): Promise<Contact | undefined>;
+  createContact(contact: InsertContact): Promise<Contact | undefined>;
+  updateContact(id: string, updates: { name?: string; email?: string }): Promise<Contact>;
+  deleteContact(id: string): Promise<void>;
+  getContactGroups(ownerId: string): Promise<ContactGroupWithMembers[]>;
+  getContactGroup(id: string): Promise<ContactGroup | undefined>;
+  createContactGroup(ownerId: string, name: string, contactIds: string[]): Promise<ContactGroup>;
+  updateContactGroup(id: string, updates: { name?: string; contactIds?: string[] }): Promise<ContactGroup>;
+  deleteContactGroup(id: string): Promise<void>;
+  getRecipientSuggestions(ownerId: string, query: string, limit: number): Promise<RecipientSuggestion[]>;
+
+  // Insight methods
+  getSummaryInsights(summaryId: string): Promise<SummaryInsights>;
+  replaceSummaryInsights(summaryId: string, insights: ExtractedInsights): Promise<SummaryInsights>;
+  createActionItem(summaryId: string, item: InsertActionItem): Promise<ActionItem>;
+  getActionItem(id: string): Promise<ActionItem | undefined>;
+  updateActionItem(id: string, updates: Partial<InsertActionItem> & { editedFields?: ActionItemField[] }): Promise<ActionItem>;
+  deleteActionItem(id: string): Promise<void>;
+  getUserActionItems(userId: string, filters: ActionItemFilters): Promise<ActionItemWithSummary[]>;
+
+  // Semantic index methods
+  replaceSummaryEmbeddings(summaryId: string, embedder: string, chunks: InsertEmbeddingChunk[]): Promise<void>;
+  markSummaryIndexed(summaryId: string, embedder: string): Promise<void>;
+  getUserEmbeddingChunks(userId: string, embedder: string, summaryId?: string): Promise<EmbeddingChunkWithSummary[]>;
+  getUnindexedSummaries(userId: string, embedder: string, limit: number): Promise<Summary[]>;
+
+  // Transcript chat methods
+  getChatMessages(summaryId: string): Promise<ChatMessage[]>;
+  createChatMessages(messages: InsertChatMessage[]): Promise<ChatMessage[]>;
+  clearChatMessages(summaryId: string): Promise<void>;
+
+  // Job queue methods
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  claimJob(type: string, workerId: string): Promise<Job | undefined>;
+  heartbeatJob(id: string, workerId: string, progress?: number): Promise<boolean>;
+  completeJob(id: string, workerId: string, result: unknown): Promise<Job | undefined>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<Job | undefined>;
+  cancelJob(id: string): Promise<Job | undefined>;
+  retryDeadJob(id: string): Promise<Job | undefined>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteCompletedJobs(finishedBefore: Date): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -47,40 +224,614 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  async updateUserProvider(id: string, llmProvider: string | null): Promise<void> {
+    await db
+      .update(users)
+      .set({ llmProvider })
+      .where(eq(users.id, id));
+  }
+
+  // Every user has exactly one personal workspace; summaries they created
+  // before workspaces existed are moved into it the first time it is made
+  async ensurePersonalWorkspace(user: User): Promise<Workspace> {
+    const findPersonal = async () => {
+      const [workspace] = await db
+        .select()
+        .from(workspaces)
+        .where(and(eq(workspaces.createdById, user.id), eq(workspaces.personal, true)));
+      return workspace || undefined;
+    };
+
+    const existing = await findPersonal();
+    if (existing) return existing;
+
+    await db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .insert(workspaces)
+        .values({ name: `${user.fullName}'s workspace`, personal: true, createdById: user.id })
+        .onConflictDoNothing()
+        .returning();
+      // A concurrent request created it first
+      if (!workspace) return;
+
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: user.id, role: "owner" });
+      await tx
+        .update(summaries)
+        .set({ workspaceId: workspace.id })
+        .where(and(eq(summaries.userId, user.id), isNull(summaries.workspaceId)));
+    });
+    return (await findPersonal())!;
+  }
+
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    return await db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .insert(workspaces)
+        .values({ name, createdById: ownerId })
+        .returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+      return workspace;
+    });
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async updateWorkspace(id: string, updates: { name: string }): Promise<Workspace> {
+    const [workspace] = await db
+      .update(workspaces)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return workspace;
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  async getUserWorkspaces(userId: string): Promise<WorkspaceWithRole[]> {
+    const rows = await db
+      .select({
+        workspace: workspaces,
+        role: workspaceMembers.role,
+        memberCount: sql<number>`(select count(*) from ${workspaceMembers} m where m.workspace_id = ${workspaces.id})`.mapWith(Number),
+      })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(desc(workspaces.personal), asc(workspaces.name));
+
+    return rows.map(({ workspace, role, memberCount }) => ({ ...workspace, role: role as WorkspaceRole, memberCount }));
+  }
+
+  async getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | undefined> {
+    const [member] = await db
+      .select({ role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member?.role as WorkspaceRole | undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    return await db
+      .select({ ...getTableColumns(workspaceMembers), email: users.email, fullName: users.fullName })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(users.fullName));
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async createWorkspaceInvite(invite: InsertWorkspaceInvite): Promise<WorkspaceInvite> {
+    const [created] = await db
+      .insert(workspaceInvites)
+      .values(invite)
+      .returning();
+    return created;
+  }
+
+  // Invites that have been neither accepted nor left to expire
+  async getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    return await db
+      .select()
+      .from(workspaceInvites)
+      .where(and(
+        eq(workspaceInvites.workspaceId, workspaceId),
+        isNull(workspaceInvites.acceptedAt),
+        gt(workspaceInvites.expiresAt, new Date())
+      ))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }
+
+  private selectInviteDetails() {
+    return db
+      .select({
+        id: workspaceInvites.id,
+        email: workspaceInvites.email,
+        role: workspaceInvites.role,
+        token: workspaceInvites.token,
+        createdAt: workspaceInvites.createdAt,
+        expiresAt: workspaceInvites.expiresAt,
+        acceptedAt: workspaceInvites.acceptedAt,
+        workspaceId: workspaces.id,
+        workspaceName: workspaces.name,
+        invitedByName: users.fullName,
+      })
+      .from(workspaceInvites)
+      .innerJoin(workspaces, eq(workspaceInvites.workspaceId, workspaces.id))
+      .leftJoin(users, eq(workspaceInvites.invitedById, users.id));
+  }
+
+  async getWorkspaceInviteByToken(token: string): Promise<WorkspaceInviteDetails | undefined> {
+    const [invite] = await this.selectInviteDetails().where(eq(workspaceInvites.token, token));
+    return invite || undefined;
+  }
+
+  async getPendingInvitesForEmail(email: string): Promise<WorkspaceInviteDetails[]> {
+    return await this.selectInviteDetails()
+      .where(and(
+        eq(workspaceInvites.email, email.toLowerCase()),
+        isNull(workspaceInvites.acceptedAt),
+        gt(workspaceInvites.expiresAt, new Date())
+      ))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }
+
+  async deleteWorkspaceInvite(id: string): Promise<void> {
+    await db.delete(workspaceInvites).where(eq(workspaceInvites.id, id));
+  }
+
+  // Existing members keep their current role
+  async acceptWorkspaceInvite(inviteId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [invite] = await tx
+        .update(workspaceInvites)
+        .set({ acceptedAt: new Date() })
+        .where(eq(workspaceInvites.id, inviteId))
+        .returning();
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invite.workspaceId, userId, role: invite.role })
+        .onConflictDoNothing();
+    });
+  }
+
   async createSummary(summary: InsertSummary & { userId: string }): Promise<Summary> {
     const [newSummary] = await db
       .insert(summaries)
       .values(summary)
-      .returning();
+      .returning(summaryColumns);
     return newSummary;
   }
 
   async updateSummary(id: string, updates: Partial<InsertSummary>): Promise<Summary> {
     const [updatedSummary] = await db
       .update(summaries)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: new Date(), revision: sql`${summaries.revision} + 1` })
       .where(eq(summaries.id, id))
-      .returning();
+      .returning(summaryColumns);
     return updatedSummary;
   }
 
+  // Compare-and-set update: only applies when the summary is still at the
+  // given revision, returning undefined if someone else updated it first
+  async updateSummaryIfRevision(id: string, revision: number, updates: Partial<InsertSummary>): Promise<Summary | undefined> {
+    const [updatedSummary] = await db
+      .update(summaries)
+      .set({ ...updates, updatedAt: new Date(), revision: sql`${summaries.revision} + 1` })
+      .where(and(eq(summaries.id, id), eq(summaries.revision, revision)))
+      .returning(summaryColumns);
+    return updatedSummary || undefined;
+  }
+
   async getSummary(id: string): Promise<Summary | undefined> {
-    const [summary] = await db.select().from(summaries).where(eq(summaries.id, id));
+    const [summary] = await db.select(summaryColumns).from(summaries).where(eq(summaries.id, id));
     return summary || undefined;
   }
 
   async getUserSummaries(userId: string): Promise<Summary[]> {
     return await db
-      .select()
+      .select(summaryColumns)
       .from(summaries)
-      .where(eq(summaries.userId, userId))
+      .where(accessibleSummaries(userId))
       .orderBy(desc(summaries.updatedAt));
   }
 
+  async listUserSummaries(userId: string, query: SummaryListQuery): Promise<PaginatedResult<SummaryListItem>> {
+    const conditions: SQL[] = [accessibleSummaries(userId)];
+
+    if (query.workspaceId) conditions.push(eq(summaries.workspaceId, query.workspaceId));
+    if (query.status) conditions.push(eq(summaries.status, query.status));
+    if (query.tone) conditions.push(eq(summaries.tone, query.tone));
+    if (query.from) conditions.push(gte(summaries.createdAt, query.from));
+    if (query.to) conditions.push(lte(summaries.createdAt, query.to));
+
+    const where = and(...conditions);
+    const sortColumn = summaries[query.sort];
+    const { originalContent, summaryContent, ...listColumns } = summaryColumns;
+
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select({
+          ...listColumns,
+          excerpt: sql<string>`left(${summaries.summaryContent}, 200)`,
+          workspaceName: workspaces.name,
+        })
+        .from(summaries)
+        .leftJoin(workspaces, eq(summaries.workspaceId, workspaces.id))
+        .where(where)
+        .orderBy(query.order === "asc" ? asc(sortColumn) : desc(sortColumn), desc(summaries.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ total: count() }).from(summaries).where(where),
+    ]);
+
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async searchSummaries(userId: string, query: string, limit: number): Promise<SummarySearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const rank = sql<number>`ts_rank_cd(${summaries.searchVector}, ${tsQuery})`;
+
+    return await db
+      .select({
+        id: summaries.id,
+        title: summaries.title,
+        status: summaries.status,
+        createdAt: summaries.createdAt,
+        updatedAt: summaries.updatedAt,
+        rank,
+        titleHighlight: sql<string>`ts_headline('english', ${summaries.title}, ${tsQuery}, ${titleHeadlineOptions})`,
+        summarySnippet: sql<string>`ts_headline('english', ${summaries.summaryContent}, ${tsQuery}, ${headlineOptions})`,
+        transcriptSnippet: sql<string>`ts_headline('english', ${summaries.originalContent}, ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(summaries)
+      .where(and(accessibleSummaries(userId), sql`${summaries.searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(summaries.updatedAt))
+      .limit(limit);
+  }
+
   async deleteSummary(id: string): Promise<void> {
     await db.delete(summaries).where(eq(summaries.id, id));
   }
 
+  async createSummaryVersion(version: Omit<InsertSummaryVersion, "version">): Promise<SummaryVersion> {
+    return await db.transaction(async (tx) => {
+      // Lock the summary so concurrent saves number their versions one after
+      // the other instead of both reading the same max
+      await tx
+        .select({ id: summaries.id })
+        .from(summaries)
+        .where(eq(summaries.id, version.summaryId))
+        .for("update");
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${summaryVersions.version}), 0)` })
+        .from(summaryVersions)
+        .where(eq(summaryVersions.summaryId, version.summaryId));
+
+      const [created] = await tx
+        .insert(summaryVersions)
+        .values({ ...version, version: Number(latest) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  async updateSummaryVersion(id: string, updates: Partial<InsertSummaryVersion>): Promise<SummaryVersion> {
+    const [version] = await db
+      .update(summaryVersions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(summaryVersions.id, id))
+      .returning();
+    return version;
+  }
+
+  async getLatestSummaryVersion(summaryId: string): Promise<SummaryVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(summaryVersions)
+      .where(eq(summaryVersions.summaryId, summaryId))
+      .orderBy(desc(summaryVersions.version))
+      .limit(1);
+    return version || undefined;
+  }
+
+  async getSummaryVersion(summaryId: string, version: number): Promise<SummaryVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(summaryVersions)
+      .where(and(eq(summaryVersions.summaryId, summaryId), eq(summaryVersions.version, version)));
+    return row || undefined;
+  }
+
+  async getSummaryVersions(summaryId: string): Promise<SummaryVersionListItem[]> {
+    const { content, ...versionColumns } = getTableColumns(summaryVersions);
+    return await db
+      .select({ ...versionColumns, authorName: users.fullName })
+      .from(summaryVersions)
+      .leftJoin(users, eq(summaryVersions.authorId, users.id))
+      .where(eq(summaryVersions.summaryId, summaryId))
+      .orderBy(desc(summaryVersions.version));
+  }
+
+  // Moves the summary to a new status only if it is still in one of the
+  // expected ones, so two people acting at once cannot both win
+  async updateSummaryStatus(id: string, from: SummaryStatus[], to: SummaryStatus): Promise<Summary | undefined> {
+    const [updatedSummary] = await db
+      .update(summaries)
+      .set({ status: to, updatedAt: new Date(), revision: sql`${summaries.revision} + 1` })
+      .where(and(eq(summaries.id, id), inArray(summaries.status, from)))
+      .returning(summaryColumns);
+    return updatedSummary || undefined;
+  }
+
+  async getSummaryReviewers(summaryId: string): Promise<SummaryReviewerWithUser[]> {
+    return await db
+      .select({ ...getTableColumns(summaryReviewers), email: users.email, fullName: users.fullName })
+      .from(summaryReviewers)
+      .innerJoin(users, eq(summaryReviewers.userId, users.id))
+      .where(eq(summaryReviewers.summaryId, summaryId))
+      .orderBy(asc(summaryReviewers.createdAt));
+  }
+
+  async addSummaryReviewer(summaryId: string, userId: string, addedById: string): Promise<SummaryReviewer> {
+    const [reviewer] = await db
+      .insert(summaryReviewers)
+      .values({ summaryId, userId, addedById })
+      .returning();
+    return reviewer;
+  }
+
+  async removeSummaryReviewer(summaryId: string, userId: string): Promise<void> {
+    await db
+      .delete(summaryReviewers)
+      .where(and(eq(summaryReviewers.summaryId, summaryId), eq(summaryReviewers.userId, userId)));
+  }
+
+  // Writes the decision, the status it leads to and the review event together.
+  // The summary stays locked while the decisions are re-read, so when the last
+  // reviewers approve at the same moment one of them sees the others' approvals.
+  // Returns undefined if the summary has left update.fromStatus in the meantime.
+  async recordReviewAction(
+    summaryId: string,
+    update: ReviewUpdate,
+    nextStatus: (reviewers: SummaryReviewer[]) => SummaryStatus
+  ): Promise<Summary | undefined> {
+    return await db.transaction(async (tx) => {
+      const [summary] = await tx
+        .select(summaryColumns)
+        .from(summaries)
+        .where(eq(summaries.id, summaryId))
+        .for("update");
+      if (!summary || summary.status !== update.fromStatus) return undefined;
+
+      if (update.decision === null) {
+        await tx
+          .update(summaryReviewers)
+          .set({ decision: null, decidedAt: null })
+          .where(eq(summaryReviewers.summaryId, summaryId));
+      } else if (update.decision) {
+        await tx
+          .update(summaryReviewers)
+          .set({ decision: update.decision, decidedAt: new Date() })
+          .where(and(eq(summaryReviewers.summaryId, summaryId), eq(summaryReviewers.userId, update.actorId)));
+      }
+
+      const reviewers = await tx
+        .select()
+        .from(summaryReviewers)
+        .where(eq(summaryReviewers.summaryId, summaryId));
+      const status = nextStatus(reviewers);
+
+      let updatedSummary = summary;
+      if (status !== summary.status) {
+        [updatedSummary] = await tx
+          .update(summaries)
+          .set({ status, updatedAt: new Date(), revision: sql`${summaries.revision} + 1` })
+          .where(eq(summaries.id, summaryId))
+          .returning(summaryColumns);
+      }
+
+      await tx.insert(reviewEvents).values({
+        summaryId,
+        actorId: update.actorId,
+        action: update.action,
+        fromStatus: summary.status,
+        toStatus: updatedSummary.status,
+        comment: update.comment,
+        revision: updatedSummary.revision,
+      });
+      return updatedSummary;
+    });
+  }
+
+  async clearReviewerDecisions(summaryId: string): Promise<void> {
+    await db
+      .update(summaryReviewers)
+      .set({ decision: null, decidedAt: null })
+      .where(eq(summaryReviewers.summaryId, summaryId));
+  }
+
+  async createReviewEvent(event: InsertReviewEvent): Promise<ReviewEvent> {
+    const [newEvent] = await db
+      .insert(reviewEvents)
+      .values(event)
+      .returning();
+    return newEvent;
+  }
+
+  async getReviewEvents(summaryId: string): Promise<ReviewEventWithNames[]> {
+    const subject = alias(users, "subject");
+    return await db
+      .select({ ...getTableColumns(reviewEvents), actorName: users.fullName, subjectName: subject.fullName })
+      .from(reviewEvents)
+      .leftJoin(users, eq(reviewEvents.actorId, users.id))
+      .leftJoin(subject, eq(reviewEvents.subjectUserId, subject.id))
+      .where(eq(reviewEvents.summaryId, summaryId))
+      .orderBy(desc(reviewEvents.createdAt));
+  }
+
+  // Threads in the order they were started, each with its replies
+  async getCommentThreads(summaryId: string): Promise<SummaryCommentThread[]> {
+    const comments: SummaryCommentWithAuthor[] = await db
+      .select({ ...getTableColumns(summaryComments), authorName: users.fullName })
+      .from(summaryComments)
+      .leftJoin(users, eq(summaryComments.authorId, users.id))
+      .where(eq(summaryComments.summaryId, summaryId))
+      .orderBy(asc(summaryComments.createdAt));
+
+    const threads = comments
+      .filter((comment) => !comment.parentId)
+      .map((comment): SummaryCommentThread => ({ ...comment, replies: [] }));
+    const byId = new Map(threads.map((thread) => [thread.id, thread]));
+    for (const comment of comments) {
+      if (comment.parentId) byId.get(comment.parentId)?.replies.push(comment);
+    }
+    return threads;
+  }
+
+  async getSummaryComment(id: string): Promise<SummaryComment | undefined> {
+    const [comment] = await db.select().from(summaryComments).where(eq(summaryComments.id, id));
+    return comment || undefined;
+  }
+
+  async getAnchoredComments(summaryId: string): Promise<SummaryComment[]> {
+    return await db
+      .select()
+      .from(summaryComments)
+      .where(and(eq(summaryComments.summaryId, summaryId), isNotNull(summaryComments.anchorStart)));
+  }
+
+  async createSummaryComment(comment: InsertSummaryComment): Promise<SummaryComment> {
+    const [newComment] = await db
+      .insert(summaryComments)
+      .values(comment)
+      .returning();
+    return newComment;
+  }
+
+  async updateSummaryComment(id: string, updates: Partial<InsertSummaryComment>): Promise<SummaryComment> {
+    const [updatedComment] = await db
+      .update(summaryComments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(summaryComments.id, id))
+      .returning();
+    return updatedComment;
+  }
+
+  async updateCommentAnchors(anchors: { id: string; anchorStart: number | null; anchorEnd: number | null }[]): Promise<void> {
+    if (anchors.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { id, anchorStart, anchorEnd } of anchors) {
+        await tx.update(summaryComments).set({ anchorStart, anchorEnd }).where(eq(summaryComments.id, id));
+      }
+    });
+  }
+
+  async deleteSummaryComment(id: string): Promise<void> {
+    await db.delete(summaryComments).where(eq(summaryComments.id, id));
+  }
+
+  async getTranscriptSegments(summaryId: string): Promise<StoredTranscriptSegment[]> {
+    return await db
+      .select()
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.summaryId, summaryId))
+      .orderBy(asc(transcriptSegments.position));
+  }
+
+  // Inserted in batches; a long meeting has thousands of lines and each
+  // row takes several bind parameters
+  async replaceTranscriptSegments(summaryId: string, segments: TranscriptSegment[]): Promise<StoredTranscriptSegment[]> {
+    const batchSize = 1000;
+    return await db.transaction(async (tx) => {
+      await tx.delete(transcriptSegments).where(eq(transcriptSegments.summaryId, summaryId));
+      const inserted: StoredTranscriptSegment[] = [];
+      for (let start = 0; start < segments.length; start += batchSize) {
+        const rows = segments
+          .slice(start, start + batchSize)
+          .map((segment, index) => ({ ...segment, summaryId, position: start + index }));
+        inserted.push(...await tx.insert(transcriptSegments).values(rows).returning());
+      }
+      return inserted;
+    });
+  }
+
+  // Renaming onto a name that is already in use merges the two speakers
+  async renameTranscriptSpeaker(summaryId: string, from: string, to: string): Promise<void> {
+    await db
+      .update(transcriptSegments)
+      .set({ speaker: to })
+      .where(and(eq(transcriptSegments.summaryId, summaryId), eq(transcriptSegments.speaker, from)));
+  }
+
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const [created] = await db
+      .insert(shareLinks)
+      .values(link)
+      .returning();
+    return created;
+  }
+
+  private selectShareLinkDetails() {
+    const { passwordHash, ...columns } = getTableColumns(shareLinks);
+    return db
+      .select({
+        ...columns,
+        hasPassword: sql<boolean>`${passwordHash} is not null`,
+        createdByName: users.fullName,
+      })
+      .from(shareLinks)
+      .leftJoin(users, eq(shareLinks.createdById, users.id));
+  }
+
+  // Newest first, including revoked and expired links so their views stay visible
+  async getShareLinks(summaryId: string): Promise<ShareLinkDetails[]> {
+    return await this.selectShareLinkDetails()
+      .where(eq(shareLinks.summaryId, summaryId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLinkDetails(id: string): Promise<ShareLinkDetails | undefined> {
+    const [link] = await this.selectShareLinkDetails().where(eq(shareLinks.id, id));
+    return link || undefined;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link || undefined;
+  }
+
+  async revokeShareLink(id: string): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), isNull(shareLinks.revokedAt)));
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+  }
+
   async createEmailLog(emailLog: InsertEmailLog): Promise<EmailLog> {
     const [newEmailLog] = await db
       .insert(emailLogs)
@@ -89,12 +840,490 @@ export class DatabaseStorage implements IStorage {
     return newEmailLog;
   }
 
-  async getSummaryEmailLogs(summaryId: string): Promise<EmailLog[]> {
+  async getEmailLog(id: string): Promise<EmailLog | undefined> {
+    const [emailLog] = await db.select().from(emailLogs).where(eq(emailLogs.id, id));
+    return emailLog || undefined;
+  }
+
+  async updateEmailLog(id: string, updates: Partial<InsertEmailLog> & { sentAt?: Date | null }): Promise<EmailLog> {
+    const [emailLog] = await db
+      .update(emailLogs)
+      .set(updates)
+      .where(eq(emailLogs.id, id))
+      .returning();
+    return emailLog;
+  }
+
+  // Only applies while the entry is in one of the given statuses, so a
+  // scheduled email cannot be both cancelled and sent
+  async transitionEmailLog(id: string, from: EmailLogStatus[], updates: Partial<InsertEmailLog>): Promise<EmailLog | undefined> {
+    const [emailLog] = await db
+      .update(emailLogs)
+      .set(updates)
+      .where(and(eq(emailLogs.id, id), inArray(emailLogs.status, from)))
+      .returning();
+    return emailLog || undefined;
+  }
+
+  async getSummaryEmailLogs(summaryId: string): Promise<EmailLogWithSender[]> {
     return await db
-      .select()
+      .select({ ...getTableColumns(emailLogs), sentByName: users.fullName })
       .from(emailLogs)
+      .leftJoin(users, eq(emailLogs.sentById, users.id))
       .where(eq(emailLogs.summaryId, summaryId))
-      .orderBy(desc(emailLogs.sentAt));
+      .orderBy(desc(emailLogs.createdAt));
+  }
+
+  async getContacts(ownerId: string): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.ownerId, ownerId))
+      .orderBy(contactOrder);
+  }
+
+  async getContact(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact || undefined;
+  }
+
+  // Undefined when the owner already has a contact with this email
+  async createContact(contact: InsertContact): Promise<Contact | undefined> {
+    const [newContact] = await db
+      .insert(contacts)
+      .values(contact)
+      .onConflictDoNothing()
+      .returning();
+    return newContact || undefined;
+  }
+
+  async updateContact(id: string, updates: { name?: string; email?: string }): Promise<Contact> {
+    const [contact] = await db
+      .update(contacts)
+      .set(updates)
+      .where(eq(contacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  async getContactGroups(ownerId: string): Promise<ContactGroupWithMembers[]> {
+    const groups = await db
+      .select()
+      .from(contactGroups)
+      .where(eq(contactGroups.ownerId, ownerId))
+      .orderBy(asc(contactGroups.name));
+    if (groups.length === 0) return [];
+
+    const members = await db
+      .select({ groupId: contactGroupMembers.groupId, contact: contacts })
+      .from(contactGroupMembers)
+      .innerJoin(contacts, eq(contactGroupMembers.contactId, contacts.id))
+      .where(inArray(contactGroupMembers.groupId, groups.map((group) => group.id)))
+      .orderBy(contactOrder);
+
+    return groups.map((group) => ({
+      ...group,
+      members: members.filter((member) => member.groupId === group.id).map((member) => member.contact),
+    }));
+  }
+
+  async getContactGroup(id: string): Promise<ContactGroup | undefined> {
+    const [group] = await db.select().from(contactGroups).where(eq(contactGroups.id, id));
+    return group || undefined;
+  }
+
+  async createContactGroup(ownerId: string, name: string, contactIds: string[]): Promise<ContactGroup> {
+    return await db.transaction(async (tx) => {
+      const [group] = await tx
+        .insert(contactGroups)
+        .values({ ownerId, name })
+        .returning();
+      if (contactIds.length > 0) {
+        await tx.insert(contactGroupMembers).values(contactIds.map((contactId) => ({ groupId: group.id, contactId })));
+      }
+      return group;
+    });
+  }
+
+  // contactIds, when given, replaces the group's members
+  async updateContactGroup(id: string, updates: { name?: string; contactIds?: string[] }): Promise<ContactGroup> {
+    return await db.transaction(async (tx) => {
+      const [group] = updates.name !== undefined
+        ? await tx.update(contactGroups).set({ name: updates.name }).where(eq(contactGroups.id, id)).returning()
+        : await tx.select().from(contactGroups).where(eq(contactGroups.id, id));
+
+      if (updates.contactIds) {
+        await tx.delete(contactGroupMembers).where(eq(contactGroupMembers.groupId, id));
+        if (updates.contactIds.length > 0) {
+          await tx.insert(contactGroupMembers).values(updates.contactIds.map((contactId) => ({ groupId: id, contactId })));
+        }
+      }
+      return group;
+    });
+  }
+
+  async deleteContactGroup(id: string): Promise<void> {
+    await db.delete(contactGroups).where(eq(contactGroups.id, id));
+  }
+
+  // Saved contacts matching the query first, then addresses the user has
+  // emailed summaries to, most recently used first
+  async getRecipientSuggestions(ownerId: string, query: string, limit: number): Promise<RecipientSuggestion[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    const savedContacts = await db
+      .select({ email: contacts.email, name: contacts.name })
+      .from(contacts)
+      .where(and(eq(contacts.ownerId, ownerId), or(ilike(contacts.email, pattern), ilike(contacts.name, pattern))))
+      .orderBy(contactOrder)
+      .limit(limit);
+
+    const { rows: previousRecipients } = await db.execute<{ email: string }>(sql`
+      select lower(recipient.email) as email
+      from ${emailLogs} cross join lateral jsonb_array_elements_text(${emailLogs.recipients}) as recipient(email)
+      where ${emailLogs.sentById} = ${ownerId} and recipient.email ilike ${pattern}
+      group by lower(recipient.email)
+      order by max(${emailLogs.createdAt}) desc
+      limit ${limit}
+    `);
+
+    const suggestions: RecipientSuggestion[] = savedContacts.map((contact) => ({
+      email: contact.email,
+      name: contact.name || null,
+      source: "contact",
+    }));
+    for (const { email } of previousRecipients) {
+      if (!suggestions.some((suggestion) => suggestion.email === email)) {
+        suggestions.push({ email, name: null, source: "history" });
+      }
+    }
+    return suggestions.slice(0, limit);
+  }
+
+  async getSummaryInsights(summaryId: string): Promise<SummaryInsights> {
+    const [items, decisionRows, questionRows, riskRows] = await Promise.all([
+      db.select().from(actionItems).where(eq(actionItems.summaryId, summaryId)).orderBy(asc(actionItems.position)),
+      db.select().from(decisions).where(eq(decisions.summaryId, summaryId)).orderBy(asc(decisions.position)),
+      db.select().from(openQuestions).where(eq(openQuestions.summaryId, summaryId)).orderBy(asc(openQuestions.position)),
+      db.select().from(risks).where(eq(risks.summaryId, summaryId)).orderBy(asc(risks.position)),
+    ]);
+
+    return { actionItems: items, decisions: decisionRows, openQuestions: questionRows, risks: riskRows };
+  }
+
+  // Decisions, questions and risks are replaced outright. Action items are
+  // matched to the stored ones by wording (or by source quote, once a user has
+  // reworded one), so their status and any field a user edited survive.
+  // Stored items the model no longer finds are dropped unless a user added
+  // them or has worked on them; those keep their place after the rest.
+  async replaceSummaryInsights(summaryId: string, insights: ExtractedInsights): Promise<SummaryInsights> {
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(actionItems)
+        .where(eq(actionItems.summaryId, summaryId))
+        .orderBy(asc(actionItems.position));
+      const matched = new Set<string>();
+      const findMatch = (test: (item: ActionItem) => boolean) =>
+        existing.find((item) => item.source === "extracted" && !matched.has(item.id) && test(item));
+
+      const added = [];
+      for (let position = 0; position < insights.actionItems.length; position++) {
+        const item = insights.actionItems[position];
+        const values = {
+          description: item.description,
+          owner: item.owner ?? null,
+          dueDate: item.dueDate ?? null,
+          priority: item.priority,
+          sourceExcerpt: item.sourceQuote ?? null,
+          transcriptLine: item.transcriptLine ?? null,
+          position,
+        };
+        const match = findMatch((stored) => sameText(stored.description, item.description))
+          ?? findMatch((stored) => stored.editedFields.includes("description") && sameText(stored.sourceExcerpt, item.sourceQuote));
+        if (!match) {
+          added.push({ summaryId, ...values });
+          continue;
+        }
+
+        matched.add(match.id);
+        const edited: Partial<Pick<ActionItem, ActionItemField>> = {};
+        for (const field of match.editedFields) {
+          Object.assign(edited, { [field]: match[field] });
+        }
+        await tx.update(actionItems).set({ ...values, ...edited }).where(eq(actionItems.id, match.id));
+      }
+
+      const unmatched = existing.filter((item) => !matched.has(item.id));
+      const kept = unmatched.filter((item) => item.source !== "extracted" || item.editedFields.length > 0 || item.status !== "open");
+      const dropped = unmatched.filter((item) => !kept.includes(item));
+      if (dropped.length > 0) {
+        await tx.delete(actionItems).where(inArray(actionItems.id, dropped.map((item) => item.id)));
+      }
+      for (let i = 0; i < kept.length; i++) {
+        await tx.update(actionItems).set({ position: insights.actionItems.length + i }).where(eq(actionItems.id, kept[i].id));
+      }
+      if (added.length > 0) {
+        await tx.insert(actionItems).values(added);
+      }
+
+      await tx.delete(decisions).where(eq(decisions.summaryId, summaryId));
+      await tx.delete(openQuestions).where(eq(openQuestions.summaryId, summaryId));
+      await tx.delete(risks).where(eq(risks.summaryId, summaryId));
+      if (insights.decisions.length > 0) {
+        await tx.insert(decisions).values(
+          insights.decisions.map((description, position) => ({ summaryId, description, position }))
+        );
+      }
+      if (insights.openQuestions.length > 0) {
+        await tx.insert(openQuestions).values(
+          insights.openQuestions.map((question, position) => ({ summaryId, question, position }))
+        );
+      }
+      if (insights.risks.length > 0) {
+        await tx.insert(risks).values(
+          insights.risks.map((risk, position) => ({
+            summaryId,
+            description: risk.description,
+            mitigation: risk.mitigation ?? null,
+            position,
+          }))
+        );
+      }
+    });
+
+    return this.getSummaryInsights(summaryId);
+  }
+
+  async createActionItem(summaryId: string, item: InsertActionItem): Promise<ActionItem> {
+    const [newItem] = await db
+      .insert(actionItems)
+      .values({ ...item, summaryId, source: "manual" })
+      .returning();
+    return newItem;
+  }
+
+  async getActionItem(id: string): Promise<ActionItem | undefined> {
+    const [item] = await db.select().from(actionItems).where(eq(actionItems.id, id));
+    return item || undefined;
+  }
+
+  async updateActionItem(id: string, updates: Partial<InsertActionItem> & { editedFields?: ActionItemField[] }): Promise<ActionItem> {
+    const [updatedItem] = await db
+      .update(actionItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(actionItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteActionItem(id: string): Promise<void> {
+    await db.delete(actionItems).where(eq(actionItems.id, id));
+  }
+
+  async getUserActionItems(userId: string, filters: ActionItemFilters): Promise<ActionItemWithSummary[]> {
+    const conditions: SQL[] = [accessibleSummaries(userId)];
+
+    if (filters.owner) conditions.push(ilike(actionItems.owner, `%${filters.owner}%`));
+    if (filters.status) conditions.push(eq(actionItems.status, filters.status));
+    if (filters.summaryId) conditions.push(eq(actionItems.summaryId, filters.summaryId));
+    if (filters.dueFrom) conditions.push(gte(actionItems.dueDate, filters.dueFrom));
+    if (filters.dueTo) conditions.push(lte(actionItems.dueDate, filters.dueTo));
+    if (filters.noDueDate) conditions.push(isNull(actionItems.dueDate));
+
+    const rows = await db
+      .select({
+        item: actionItems,
+        summaryTitle: summaries.title,
+        summaryCreatedAt: summaries.createdAt,
+      })
+      .from(actionItems)
+      .innerJoin(summaries, eq(actionItems.summaryId, summaries.id))
+      .where(and(...conditions))
+      .orderBy(sql`${actionItems.dueDate} asc nulls last`, desc(summaries.createdAt), asc(actionItems.position));
+
+    return rows.map(({ item, summaryTitle, summaryCreatedAt }) => ({ ...item, summaryTitle, summaryCreatedAt }));
+  }
+
+  async replaceSummaryEmbeddings(summaryId: string, embedder: string, chunks: InsertEmbeddingChunk[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(embeddingChunks).where(eq(embeddingChunks.summaryId, summaryId));
+      if (chunks.length > 0) {
+        await tx.insert(embeddingChunks).values(chunks);
+      }
+      await tx.update(summaries).set({ indexedWith: embedder }).where(eq(summaries.id, summaryId));
+    });
+  }
+
+  // Records an indexing attempt that failed, leaving any earlier chunks in place
+  async markSummaryIndexed(summaryId: string, embedder: string): Promise<void> {
+    await db.update(summaries).set({ indexedWith: embedder }).where(eq(summaries.id, summaryId));
+  }
+
+  async getUserEmbeddingChunks(userId: string, embedder: string, summaryId?: string): Promise<EmbeddingChunkWithSummary[]> {
+    const conditions: SQL[] = [accessibleSummaries(userId), eq(embeddingChunks.embedder, embedder)];
+    if (summaryId) conditions.push(eq(embeddingChunks.summaryId, summaryId));
+
+    const rows = await db
+      .select({
+        chunk: embeddingChunks,
+        summaryTitle: summaries.title,
+        summaryCreatedAt: summaries.createdAt,
+      })
+      .from(embeddingChunks)
+      .innerJoin(summaries, eq(embeddingChunks.summaryId, summaries.id))
+      .where(and(...conditions));
+
+    return rows.map(({ chunk, summaryTitle, summaryCreatedAt }) => ({ ...chunk, summaryTitle, summaryCreatedAt }));
+  }
+
+  // Summaries never indexed with this embedder, e.g. created before the
+  // index existed or after switching embedders. Ones already tried are left
+  // out even if they produced no chunks.
+  async getUnindexedSummaries(userId: string, embedder: string, limit: number): Promise<Summary[]> {
+    return await db
+      .select(summaryColumns)
+      .from(summaries)
+      .where(and(
+        accessibleSummaries(userId),
+        sql`${summaries.indexedWith} is distinct from ${embedder}`,
+        notExists(
+          db.select({ id: embeddingChunks.id })
+            .from(embeddingChunks)
+            .where(and(eq(embeddingChunks.summaryId, summaries.id), eq(embeddingChunks.embedder, embedder)))
+        )
+      ))
+      .orderBy(desc(summaries.updatedAt))
+      .limit(limit);
+  }
+
+  async getChatMessages(summaryId: string): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.summaryId, summaryId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async createChatMessages(messages: InsertChatMessage[]): Promise<ChatMessage[]> {
+    return await db.insert(chatMessages).values(messages).returning();
+  }
+
+  async clearChatMessages(summaryId: string): Promise<void> {
+    await db.delete(chatMessages).where(eq(chatMessages.summaryId, summaryId));
+  }
+
+  // Job queue methods
+  async createJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(jobs).values(job).returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  // Take the oldest due job of this type. SKIP LOCKED lets several workers
+  // (or servers) poll at once without claiming the same job.
+  async claimJob(type: string, workerId: string): Promise<Job | undefined> {
+    const now = new Date();
+    const next = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.type, type), eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "running", lockedAt: now, lockedBy: workerId, attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job || undefined;
+  }
+
+  // Whether the worker still holds the job
+  async heartbeatJob(id: string, workerId: string, progress?: number): Promise<boolean> {
+    const held = await db
+      .update(jobs)
+      .set({ lockedAt: new Date(), updatedAt: new Date(), ...(progress !== undefined ? { progress } : {}) })
+      .where(heldBy(id, workerId))
+      .returning({ id: jobs.id });
+    return held.length > 0;
+  }
+
+  async completeJob(id: string, workerId: string, result: unknown): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "completed", result, progress: 100, lockedAt: null, lockedBy: null, updatedAt: new Date(), finishedAt: new Date() })
+      .where(heldBy(id, workerId))
+      .returning();
+    return job || undefined;
+  }
+
+  // Back in the queue at retryAt, or dead when there is no retry
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<Job | undefined> {
+    const now = new Date();
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: retryAt ? "queued" : "dead",
+        lastError: error,
+        runAt: retryAt ?? sql`${jobs.runAt}`,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: now,
+        finishedAt: retryAt ? null : now,
+      })
+      .where(heldBy(id, workerId))
+      .returning();
+    return job || undefined;
+  }
+
+  // Cancelled jobs join the dead letters, so they can still be retried
+  async cancelJob(id: string): Promise<Job | undefined> {
+    const now = new Date();
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "dead", lastError: "Cancelled", lockedAt: null, lockedBy: null, updatedAt: now, finishedAt: now })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ["queued", "running"])))
+      .returning();
+    return job || undefined;
+  }
+
+  async retryDeadJob(id: string): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "queued", attempts: 0, runAt: new Date(), updatedAt: new Date(), finishedAt: null })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "dead")))
+      .returning();
+    return job || undefined;
+  }
+
+  // Jobs whose worker stopped refreshing the lock (a crash or restart) go
+  // back in the queue, or to the dead letters if that was their last attempt
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const now = new Date();
+    const stale = and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore));
+    const released = { lockedAt: null, lockedBy: null, updatedAt: now, lastError: "The worker running this job stopped responding" };
+    await db
+      .update(jobs)
+      .set({ ...released, status: "dead", finishedAt: now })
+      .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)));
+    const requeued = await db
+      .update(jobs)
+      .set({ ...released, status: "queued", runAt: now })
+      .where(stale)
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async deleteCompletedJobs(finishedBefore: Date): Promise<void> {
+    await db.delete(jobs).where(and(eq(jobs.status, "completed"), lt(jobs.finishedAt, finishedBefore)));
   }
 }
 
@@ -0,0 +1,48 @@
+import type { TextOperation, TextSelection } from "./ot";
+
+// WebSocket endpoint for live summary editing; connect with ?summaryId=&token=
+export const COLLABORATION_PATH = "/ws/collaborate";
+// Close code for a socket whose user lost edit access while connected
+export const ACCESS_REVOKED_CLOSE_CODE = 4403;
+
+export interface Collaborator {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  selection: TextSelection | null;
+}
+
+// Summary fields clients need to stay in sync with REST conditional updates
+export interface PersistedSummary {
+  summaryContent: string;
+  revision: number;
+  status: string; // editing a reviewed summary puts it back to draft
+  updatedAt: string | Date | null;
+}
+
+export type CollaborationClientMessage =
+  | { type: "op"; revision: number; operation: TextOperation; selection: TextSelection | null }
+  | { type: "selection"; selection: TextSelection | null };
+
+export type CollaborationServerMessage =
+  | { type: "init"; clientId: string; doc: string; revision: number; collaborators: Collaborator[] }
+  | { type: "ack"; revision: number }
+  | { type: "op"; clientId: string; revision: number; operation: TextOperation; selection: TextSelection | null }
+  | { type: "join"; collaborator: Collaborator }
+  | { type: "leave"; clientId: string }
+  | { type: "selection"; clientId: string; selection: TextSelection | null }
+  | { type: "saved"; summary: PersistedSummary }
+  | { type: "reset"; doc: string; revision: number; summary?: PersistedSummary }
+  | { type: "error"; message: string };
+
+const palette = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#4d7c0f"];
+
+// Stable per-user color so a collaborator looks the same in every tab
+export function collaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return palette[Math.abs(hash) % palette.length];
+}
@@ -0,0 +1,345 @@
+// Operational transformation for plain text, used to merge concurrent edits
+// to a summary. An operation walks the whole document: a positive number
+// retains that many characters, a string inserts it and a negative number
+// deletes that many characters (the same encoding as ot.js).
+import { diffLines } from "./textDiff";
+
+export type TextOperation = (number | string)[];
+
+export interface TextSelection {
+  anchor: number;
+  head: number;
+}
+
+function isRetain(component: number | string | undefined): component is number {
+  return typeof component === "number" && component > 0;
+}
+
+function isInsert(component: number | string | undefined): component is string {
+  return typeof component === "string";
+}
+
+function isDelete(component: number | string | undefined): component is number {
+  return typeof component === "number" && component < 0;
+}
+
+// Builder that keeps operations canonical: adjacent components of the same
+// kind are merged and an insert always precedes an adjacent delete
+class OperationBuilder {
+  readonly ops: TextOperation = [];
+
+  retain(count: number) {
+    if (count <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + count;
+    } else {
+      this.ops.push(count);
+    }
+    return this;
+  }
+
+  insert(text: string) {
+    if (text === "") return this;
+    const last = this.ops[this.ops.length - 1];
+    const beforeLast = this.ops[this.ops.length - 2];
+    if (isInsert(last)) {
+      this.ops[this.ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      if (isInsert(beforeLast)) {
+        this.ops[this.ops.length - 2] = beforeLast + text;
+      } else {
+        this.ops.splice(this.ops.length - 1, 0, text);
+      }
+    } else {
+      this.ops.push(text);
+    }
+    return this;
+  }
+
+  delete(count: number) {
+    if (count <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isDelete(last)) {
+      this.ops[this.ops.length - 1] = last - count;
+    } else {
+      this.ops.push(-count);
+    }
+    return this;
+  }
+}
+
+// Length of the document an operation applies to
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) => {
+    if (isRetain(component)) return length + component;
+    if (isDelete(component)) return length - component;
+    return length;
+  }, 0);
+}
+
+export function isNoop(operation: TextOperation): boolean {
+  return operation.length === 0 || (operation.length === 1 && isRetain(operation[0]));
+}
+
+export function isValidOperation(value: unknown): value is TextOperation {
+  return Array.isArray(value) && value.every((component) =>
+    typeof component === "string" || (typeof component === "number" && Number.isInteger(component) && component !== 0)
+  );
+}
+
+export function applyOperation(doc: string, operation: TextOperation): string {
+  if (baseLength(operation) !== doc.length) {
+    throw new Error("Operation does not match the document length");
+  }
+
+  let result = "";
+  let index = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      result += doc.slice(index, index + component);
+      index += component;
+    } else if (isInsert(component)) {
+      result += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+// Append the smallest single contiguous change that turns oldText into newText
+function appendChange(builder: OperationBuilder, oldText: string, newText: string) {
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return builder
+    .retain(prefix)
+    .insert(newText.slice(prefix, newText.length - suffix))
+    .delete(oldText.length - prefix - suffix)
+    .retain(suffix);
+}
+
+// The operation that turns oldText into newText, assuming a single contiguous
+// change, which is what one input event in a textarea produces
+export function operationFromDiff(oldText: string, newText: string): TextOperation {
+  return appendChange(new OperationBuilder(), oldText, newText).ops;
+}
+
+// Word diffs of changed passages larger than this many table cells (about
+// 2000 by 2000 words) fall back to a single replacement
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+// Append the changes that turn oldText into newText, keeping words the two
+// have in common (by longest common subsequence) as retains
+function appendWordChanges(builder: OperationBuilder, oldText: string, newText: string) {
+  const a = oldText.split(/(\s+)/).filter(Boolean);
+  const b = newText.split(/(\s+)/).filter(Boolean);
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_WORD_DIFF_CELLS) {
+    return appendChange(builder, oldText, newText);
+  }
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Int32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let removed = "";
+  let added = "";
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      appendChange(builder, removed, added);
+      removed = added = "";
+      builder.retain(a[i].length);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      removed += a[i++];
+    } else {
+      added += b[j++];
+    }
+  }
+  return appendChange(builder, removed, added);
+}
+
+// The operation that turns oldText into newText when they may differ in many
+// places, such as between two saves. Unchanged lines are retained and changed
+// runs of lines are diffed word by word, so positions in untouched passages
+// map exactly.
+export function operationFromLineDiff(oldText: string, newText: string): TextOperation {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  // Every line but the last carries its line break
+  const oldToken = (line: number) => oldLines[line - 1] + (line < oldLines.length ? "\n" : "");
+  const newToken = (line: number) => newLines[line - 1] + (line < newLines.length ? "\n" : "");
+
+  const builder = new OperationBuilder();
+  let oldHunk = "";
+  let newHunk = "";
+  for (const entry of diffLines(oldText, newText)) {
+    const before = entry.oldLine !== null ? oldToken(entry.oldLine) : "";
+    const after = entry.newLine !== null ? newToken(entry.newLine) : "";
+    if (entry.type === "equal" && before === after) {
+      appendWordChanges(builder, oldHunk, newHunk);
+      oldHunk = newHunk = "";
+      builder.retain(before.length);
+    } else {
+      oldHunk += before;
+      newHunk += after;
+    }
+  }
+  return appendWordChanges(builder, oldHunk, newHunk).ops;
+}
+
+// Combine a followed by b into a single operation
+export function compose(a: TextOperation, b: TextOperation): TextOperation {
+  const result = new OperationBuilder();
+  const opsA = [...a];
+  const opsB = [...b];
+  let i = 0;
+  let j = 0;
+  let componentA = opsA[i++];
+  let componentB = opsB[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isDelete(componentA)) {
+      result.delete(-componentA);
+      componentA = opsA[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      result.insert(componentB);
+      componentB = opsB[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error("Cannot compose operations of mismatched lengths");
+    }
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA, componentB);
+      result.retain(count);
+      componentA = componentA > count ? componentA - count : opsA[i++];
+      componentB = componentB > count ? componentB - count : opsB[j++];
+    } else if (isInsert(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA.length, -componentB);
+      componentA = componentA.length > count ? componentA.slice(count) : opsA[i++];
+      componentB = -componentB > count ? componentB + count : opsB[j++];
+    } else if (isInsert(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA.length, componentB);
+      result.insert(componentA.slice(0, count));
+      componentA = componentA.length > count ? componentA.slice(count) : opsA[i++];
+      componentB = componentB > count ? componentB - count : opsB[j++];
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA, -componentB);
+      result.delete(count);
+      componentA = componentA > count ? componentA - count : opsA[i++];
+      componentB = -componentB > count ? componentB + count : opsB[j++];
+    }
+  }
+
+  return result.ops;
+}
+
+// Given concurrent operations a and b on the same document, return [a', b']
+// such that applying a then b' equals applying b then a'. When both insert at
+// the same position, a's text goes first.
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  const primeA = new OperationBuilder();
+  const primeB = new OperationBuilder();
+  const opsA = [...a];
+  const opsB = [...b];
+  let i = 0;
+  let j = 0;
+  let componentA = opsA[i++];
+  let componentB = opsB[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isInsert(componentA)) {
+      primeA.insert(componentA);
+      primeB.retain(componentA.length);
+      componentA = opsA[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      primeA.retain(componentB.length);
+      primeB.insert(componentB);
+      componentB = opsB[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error("Cannot transform operations of mismatched lengths");
+    }
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA, componentB);
+      primeA.retain(count);
+      primeB.retain(count);
+      componentA = componentA > count ? componentA - count : opsA[i++];
+      componentB = componentB > count ? componentB - count : opsB[j++];
+    } else if (isDelete(componentA) && isDelete(componentB)) {
+      // Both deleted the same text; neither needs to delete it again
+      const count = Math.min(-componentA, -componentB);
+      componentA = -componentA > count ? componentA + count : opsA[i++];
+      componentB = -componentB > count ? componentB + count : opsB[j++];
+    } else if (isDelete(componentA) && isRetain(componentB)) {
+      const count = Math.min(-componentA, componentB);
+      primeA.delete(count);
+      componentA = -componentA > count ? componentA + count : opsA[i++];
+      componentB = componentB > count ? componentB - count : opsB[j++];
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA, -componentB);
+      primeB.delete(count);
+      componentA = componentA > count ? componentA - count : opsA[i++];
+      componentB = -componentB > count ? componentB + count : opsB[j++];
+    }
+  }
+
+  return [primeA.ops, primeB.ops];
+}
+
+// Where a cursor at index ends up after an operation is applied. Text
+// inserted right at the cursor lands before it, unless keepBeforeInserts is
+// set (as for the end of a range that should not grow).
+export function transformIndex(index: number, operation: TextOperation, keepBeforeInserts = false): number {
+  let position = 0;
+  let result = index;
+
+  for (const component of operation) {
+    if (position > index) break;
+    if (isRetain(component)) {
+      position += component;
+    } else if (isInsert(component)) {
+      if (!(keepBeforeInserts && position === index)) result += component.length;
+    } else {
+      result -= Math.min(-component, index - position);
+      position -= component;
+    }
+  }
+  return result;
+}
+
+export function transformSelection(selection: TextSelection, operation: TextOperation): TextSelection {
+  return {
+    anchor: transformIndex(selection.anchor, operation),
+    head: transformIndex(selection.head, operation),
+  };
+}
@@ -1,9 +1,17 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, date, index, uniqueIndex, real, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+export const llmProviders = ["gemini", "openai", "fixture"] as const;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
@@ -11,35 +19,366 @@ export const users = pgTable("users", {
   fullName: text("full_name").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   theme: text("theme").default("light"),
+  llmProvider: text("llm_provider"), // gemini, openai, fixture; null uses the deployment default
 });
 
-export const summaries = pgTable("summaries", {
+// A team that shares summaries. Every user also has a personal workspace,
+// created on first sign-in, that holds the summaries they make by default.
+export const workspaces = pgTable("workspaces", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  personal: boolean("personal").notNull().default(false),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("workspaces_personal_created_by_id_idx").on(table.createdById).where(sql`${table.personal}`),
+]);
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // owner, editor, viewer
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_id_user_id_idx").on(table.workspaceId, table.userId),
+  index("workspace_members_user_id_idx").on(table.userId),
+]);
+
+// Pending invitation for an email address; accepting it adds a membership
+export const workspaceInvites = pgTable("workspace_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // stored lowercase
+  role: text("role").notNull(), // editor, viewer
+  token: text("token").notNull().unique(),
+  invitedById: varchar("invited_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+}, (table) => [
+  index("workspace_invites_email_idx").on(table.email),
+]);
+
+export const summaries = pgTable("summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // creator
+  // Owning workspace; null only for summaries created before workspaces,
+  // which belong to their creator until moved into their personal workspace
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   originalContent: text("original_content").notNull(),
   prompt: text("prompt").notNull(),
   tone: text("tone").notNull(),
   summaryContent: text("summary_content").notNull(),
   wordCount: integer("word_count").notNull(),
-  status: text("status").notNull().default("draft"), // draft, approved, sent
+  status: text("status").notNull().default("draft"), // see summaryStatuses; changed only through the review workflow
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   autoSaved: boolean("auto_saved").default(false),
-});
+  // Incremented on every update; sent as the ETag so clients can make conditional edits
+  revision: integer("revision").notNull().default(0),
+  // Embedder ("<name>:<model>") last used to index it, kept even when nothing
+  // could be embedded so search does not keep retrying it
+  indexedWith: text("indexed_with"),
+  // Full-text search document, weighted title > summary > transcript
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    (): SQL => sql`setweight(to_tsvector('english', coalesce(${summaries.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${summaries.summaryContent}, '')), 'B') || setweight(to_tsvector('english', coalesce(${summaries.originalContent}, '')), 'C')`
+  ),
+}, (table) => [
+  index("summaries_search_vector_idx").using("gin", table.searchVector),
+]);
 
+// One row per summary email, written as pending before the first attempt
+// (or as scheduled until its send time) and updated by the send-email job
+// as it succeeds or fails
 export const emailLogs = pgTable("email_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  sentById: varchar("sent_by_id").references(() => users.id, { onDelete: "set null" }),
   recipients: jsonb("recipients").notNull(), // array of email addresses
   subject: text("subject").notNull(),
   format: text("format").notNull(), // html, pdf, both
-  status: text("status").notNull(), // sent, failed, pending
-  sentAt: timestamp("sent_at").defaultNow(),
+  ccSelf: boolean("cc_self").notNull().default(false),
+  status: text("status").notNull().default("pending"), // scheduled, pending, sent, failed, cancelled
+  jobId: varchar("job_id"), // the job delivering it; not a reference since finished jobs are deleted
+  attempts: integer("attempts").notNull().default(0),
+  smtpResponse: text("smtp_response"), // the mail server's reply once accepted
+  error: text("error"), // why the latest attempt failed
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  scheduledFor: timestamp("scheduled_for"), // null for emails sent straight away
+  timeZone: text("time_zone"), // the timezone the send time was chosen in, for display
+}, (table) => [
+  index("email_logs_summary_id_idx").on(table.summaryId),
+]);
+
+// Each user's address book for summary emails. Emails are stored lowercased
+// so the same address is never saved twice.
+export const contacts = pgTable("contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull().default(""),
+  email: text("email").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("contacts_owner_id_email_idx").on(table.ownerId, table.email),
+]);
+
+// Named distribution lists ("Platform team") of a user's contacts, added to
+// an email's recipients in one step
+export const contactGroups = pgTable("contact_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("contact_groups_owner_id_name_idx").on(table.ownerId, table.name),
+]);
+
+export const contactGroupMembers = pgTable("contact_group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => contactGroups.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+}, (table) => [
+  uniqueIndex("contact_group_members_group_id_contact_id_idx").on(table.groupId, table.contactId),
+]);
+
+// Snapshot of summaryContent after each AI generation and each save, so
+// edits survive a regenerate and any earlier state can be restored
+export const summaryVersions = pgTable("summary_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1-based, sequential per summary
+  content: text("content").notNull(),
+  wordCount: integer("word_count").notNull(),
+  source: text("source").notNull(), // ai, manual, autosave
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  prompt: text("prompt"), // prompt, tone and model used for ai versions
+  tone: text("tone"),
+  model: text("model"),
+  restoredFrom: integer("restored_from"), // version this one was restored from
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // autosave versions are extended in place
+}, (table) => [
+  uniqueIndex("summary_versions_summary_id_version_idx").on(table.summaryId, table.version),
+]);
+
+export const actionItems = pgTable("action_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  owner: text("owner"),
+  dueDate: date("due_date"), // YYYY-MM-DD
+  priority: text("priority").notNull().default("medium"), // low, medium, high
+  status: text("status").notNull().default("open"), // open, done
+  sourceExcerpt: text("source_excerpt"), // transcript quote the item was extracted from
+  transcriptLine: integer("transcript_line"), // 1-based line of sourceExcerpt in originalContent
+  source: text("source").notNull().default("extracted"), // extracted, manual
+  editedFields: jsonb("edited_fields").$type<ActionItemField[]>().notNull().default([]), // extracted values the user changed since
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const decisions = pgTable("decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const openQuestions = pgTable("open_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const risks = pgTable("risks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  mitigation: text("mitigation"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Semantic index: embedded transcript passages and summary sections. Vectors
+// are compared in the application, so no database extension is required.
+export const embeddingChunks = pgTable("embedding_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  source: text("source").notNull(), // transcript, summary
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  startLine: integer("start_line"), // 1-based transcript lines, null for summary chunks
+  endLine: integer("end_line"),
+  embedder: text("embedder").notNull(), // "<name>:<model>", vectors are only comparable within one embedder
+  embedding: real("embedding").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("embedding_chunks_summary_id_idx").on(table.summaryId),
+]);
+
+// Follow-up Q&A about a single meeting, answered from its transcript
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // user, assistant
+  content: text("content").notNull(),
+  excerpts: jsonb("excerpts").$type<TranscriptExcerpt[]>().notNull().default([]), // supporting quotes for assistant messages
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("chat_messages_summary_id_idx").on(table.summaryId),
+]);
+
+// People asked to sign off a summary before it can be sent. The decision
+// is null until they act and is cleared whenever the summary is resubmitted.
+export const summaryReviewers = pgTable("summary_reviewers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  decision: text("decision"), // approved, changes_requested, rejected
+  decidedAt: timestamp("decided_at"),
+  addedById: varchar("added_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("summary_reviewers_summary_id_user_id_idx").on(table.summaryId, table.userId),
+]);
+
+// Audit trail of the review workflow: every status change, reviewer change
+// and review comment, with who did it and at which summary revision
+export const reviewEvents = pgTable("review_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // see reviewEventActions
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  subjectUserId: varchar("subject_user_id").references(() => users.id, { onDelete: "set null" }), // reviewer added or removed
+  comment: text("comment"),
+  revision: integer("revision").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("review_events_summary_id_idx").on(table.summaryId),
+]);
+
+// Inline review comments. A thread starts with a comment anchored to a
+// passage of summaryContent, optionally proposing replacement text; replies
+// point at the thread's first comment and carry no anchor of their own.
+export const summaryComments = pgTable("summary_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => summaryComments.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  // Character range in summaryContent, moved along with every edit and
+  // cleared once the passage has been deleted
+  anchorStart: integer("anchor_start"),
+  anchorEnd: integer("anchor_end"),
+  quote: text("quote"), // the passage as it read when the comment was made
+  suggestion: text("suggestion"), // proposed replacement for the passage
+  suggestionStatus: text("suggestion_status"), // pending, accepted, rejected
+  resolvedAt: timestamp("resolved_at"),
+  resolvedById: varchar("resolved_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("summary_comments_summary_id_idx").on(table.summaryId),
+]);
+
+// The structured transcript: one row per line of originalContent that was
+// spoken. Speakers are edited here; originalContent keeps the text as ingested.
+export const transcriptSegments = pgTable("transcript_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  speaker: text("speaker"),
+  startMs: integer("start_ms"),
+  endMs: integer("end_ms"),
+  text: text("text").notNull(),
+  line: integer("line").notNull(),
+}, (table) => [
+  uniqueIndex("transcript_segments_summary_id_position_idx").on(table.summaryId, table.position),
+]);
+
+// Tokenized read-only link for people without an account
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  summaryId: varchar("summary_id").notNull().references(() => summaries.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  passwordHash: text("password_hash"), // null when the link needs no password
+  allowTranscript: boolean("allow_transcript").notNull().default(false),
+  expiresAt: timestamp("expires_at"), // null never expires
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("share_links_summary_id_idx").on(table.summaryId),
+]);
+
+// Background work queued by request handlers and run by the workers in
+// server/services/jobQueue.ts. Failed attempts are retried with backoff; jobs
+// out of attempts stay "dead" until someone retries them.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("queued"), // queued, running, completed, dead
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // who queued it; only they see it
+  progress: integer("progress").notNull().default(0), // percent
+  result: jsonb("result"),
+  lastError: text("last_error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(), // not before; pushed back between retries
+  lockedAt: timestamp("locked_at"), // refreshed while running; a stale lock means the worker died
+  lockedBy: text("locked_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("jobs_status_run_at_idx").on(table.status, table.runAt),
+]);
+
 export const usersRelations = relations(users, ({ many }) => ({
   summaries: many(summaries),
+  workspaceMemberships: many(workspaceMembers),
+}));
+
+export const workspacesRelations = relations(workspaces, ({ many }) => ({
+  members: many(workspaceMembers),
+  invites: many(workspaceInvites),
+  summaries: many(summaries),
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+  user: one(users, {
+    fields: [workspaceMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const workspaceInvitesRelations = relations(workspaceInvites, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceInvites.workspaceId],
+    references: [workspaces.id],
+  }),
+  invitedBy: one(users, {
+    fields: [workspaceInvites.invitedById],
+    references: [users.id],
+  }),
 }));
 
 export const summariesRelations = relations(summaries, ({ one, many }) => ({
@@ -47,7 +386,23 @@ export const summariesRelations = relations(summaries, ({ one, many }) => ({
     fields: [summaries.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [summaries.workspaceId],
+    references: [workspaces.id],
+  }),
   emailLogs: many(emailLogs),
+  versions: many(summaryVersions),
+  actionItems: many(actionItems),
+  decisions: many(decisions),
+  openQuestions: many(openQuestions),
+  risks: many(risks),
+  embeddingChunks: many(embeddingChunks),
+  chatMessages: many(chatMessages),
+  reviewers: many(summaryReviewers),
+  reviewEvents: many(reviewEvents),
+  comments: many(summaryComments),
+  shareLinks: many(shareLinks),
+  transcriptSegments: many(transcriptSegments),
 }));
 
 export const emailLogsRelations = relations(emailLogs, ({ one }) => ({
@@ -55,6 +410,139 @@ export const emailLogsRelations = relations(emailLogs, ({ one }) => ({
     fields: [emailLogs.summaryId],
     references: [summaries.id],
   }),
+  sentBy: one(users, {
+    fields: [emailLogs.sentById],
+    references: [users.id],
+  }),
+}));
+
+export const contactsRelations = relations(contacts, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [contacts.ownerId],
+    references: [users.id],
+  }),
+  groupMemberships: many(contactGroupMembers),
+}));
+
+export const contactGroupsRelations = relations(contactGroups, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [contactGroups.ownerId],
+    references: [users.id],
+  }),
+  members: many(contactGroupMembers),
+}));
+
+export const contactGroupMembersRelations = relations(contactGroupMembers, ({ one }) => ({
+  group: one(contactGroups, {
+    fields: [contactGroupMembers.groupId],
+    references: [contactGroups.id],
+  }),
+  contact: one(contacts, {
+    fields: [contactGroupMembers.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const summaryVersionsRelations = relations(summaryVersions, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [summaryVersions.summaryId],
+    references: [summaries.id],
+  }),
+  author: one(users, {
+    fields: [summaryVersions.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const actionItemsRelations = relations(actionItems, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [actionItems.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const decisionsRelations = relations(decisions, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [decisions.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const openQuestionsRelations = relations(openQuestions, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [openQuestions.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const risksRelations = relations(risks, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [risks.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [chatMessages.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const embeddingChunksRelations = relations(embeddingChunks, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [embeddingChunks.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const summaryReviewersRelations = relations(summaryReviewers, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [summaryReviewers.summaryId],
+    references: [summaries.id],
+  }),
+  user: one(users, {
+    fields: [summaryReviewers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewEventsRelations = relations(reviewEvents, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [reviewEvents.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const summaryCommentsRelations = relations(summaryComments, ({ one, many }) => ({
+  summary: one(summaries, {
+    fields: [summaryComments.summaryId],
+    references: [summaries.id],
+  }),
+  parent: one(summaryComments, {
+    fields: [summaryComments.parentId],
+    references: [summaryComments.id],
+    relationName: "replies",
+  }),
+  replies: many(summaryComments, { relationName: "replies" }),
+}));
+
+export const transcriptSegmentsRelations = relations(transcriptSegments, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [transcriptSegments.summaryId],
+    references: [summaries.id],
+  }),
+}));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  summary: one(summaries, {
+    fields: [shareLinks.summaryId],
+    references: [summaries.id],
+  }),
+  createdBy: one(users, {
+    fields: [shareLinks.createdById],
+    references: [users.id],
+  }),
 }));
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -63,21 +551,266 @@ export const insertUserSchema = createInsertSchema(users).pick({
   fullName: true,
 });
 
+// One line of a transcript as ingested: who spoke, when (milliseconds from
+// the start of the recording, when known) and the 1-based line of
+// originalContent it was read from
+export const transcriptSegmentSchema = z.object({
+  speaker: z.string().nullable(),
+  startMs: z.number().int().min(0).nullable(),
+  endMs: z.number().int().min(0).nullable(),
+  text: z.string(),
+  line: z.number().int().min(1),
+});
+
 export const insertSummarySchema = createInsertSchema(summaries).omit({
   id: true,
   userId: true,
   createdAt: true,
   updatedAt: true,
+  revision: true,
+  indexedWith: true,
 });
 
+export const emailLogStatuses = ["scheduled", "pending", "sent", "failed", "cancelled"] as const;
+
 export const insertEmailLogSchema = createInsertSchema(emailLogs).omit({
   id: true,
+  createdAt: true,
   sentAt: true,
 });
 
+export type LLMProviderName = typeof llmProviders[number];
+// Ordered from least to most privileged
+export const workspaceRoles = ["viewer", "editor", "owner"] as const;
+export const summaryStatuses = ["draft", "in_review", "changes_requested", "approved", "rejected", "sent"] as const;
+export const suggestionStatuses = ["pending", "accepted", "rejected"] as const;
+export const reviewDecisions = ["approved", "changes_requested", "rejected"] as const;
+// Workflow actions people take on a summary; "send" happens by emailing it
+export const reviewActions = ["submit", "withdraw", "approve", "request_changes", "reject", "reopen"] as const;
+export const reviewEventActions = [...reviewActions, "send", "edit", "comment", "add_reviewer", "remove_reviewer"] as const;
+export const summaryTones = ["professional", "casual", "concise", "detailed"] as const;
+
+export const summaryVersionSources = ["ai", "manual", "autosave"] as const;
+
+export const jobTypes = ["generate-summary", "export-summary", "send-email", "transcribe-upload"] as const;
+export const jobStatuses = ["queued", "running", "completed", "dead"] as const;
+
+export const actionItemPriorities = ["low", "medium", "high"] as const;
+export const actionItemStatuses = ["open", "done"] as const;
+// What extraction fills in, and re-extraction leaves alone once a user edits it
+export const actionItemFields = ["description", "owner", "dueDate", "priority"] as const;
+
+export const insertActionItemSchema = createInsertSchema(actionItems, {
+  description: z.string().min(1),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be YYYY-MM-DD").nullable().optional(),
+  priority: z.enum(actionItemPriorities).optional(),
+  status: z.enum(actionItemStatuses).optional(),
+}).omit({
+  id: true,
+  summaryId: true,
+  source: true,
+  editedFields: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Structured payload the model returns alongside the markdown summary
+export const extractedInsightsSchema = z.object({
+  actionItems: z.array(z.object({
+    description: z.string().min(1),
+    owner: z.string().nullish(),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish().catch(null),
+    priority: z.enum(actionItemPriorities).catch("medium"),
+    sourceQuote: z.string().nullish(),
+    transcriptLine: z.number().int().nullish(), // resolved from sourceQuote after extraction
+  })).catch([]),
+  decisions: z.array(z.string().min(1)).catch([]),
+  openQuestions: z.array(z.string().min(1)).catch([]),
+  risks: z.array(z.object({
+    description: z.string().min(1),
+    mitigation: z.string().nullish(),
+  })).catch([]),
+});
+
+// Structured payload the model returns when answering a transcript question
+export const transcriptAnswerSchema = z.object({
+  answer: z.string().catch(""),
+  quotes: z.array(z.string().min(1)).catch([]),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
-export type Summary = typeof summaries.$inferSelect;
+// The search vector is an index-only column and is never sent to clients
+export type Summary = Omit<typeof summaries.$inferSelect, "searchVector">;
 export type InsertEmailLog = z.infer<typeof insertEmailLogSchema>;
 export type EmailLog = typeof emailLogs.$inferSelect;
+export type EmailLogWithSender = EmailLog & {
+  sentByName: string | null;
+};
+export type EmailLogStatus = typeof emailLogStatuses[number];
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = typeof contacts.$inferInsert;
+export type ContactGroup = typeof contactGroups.$inferSelect;
+export type ContactGroupWithMembers = ContactGroup & {
+  members: Contact[];
+};
+// An address offered while typing a recipient: a saved contact, or someone
+// the user has emailed before
+export type RecipientSuggestion = {
+  email: string;
+  name: string | null;
+  source: "contact" | "history";
+};
+export type SummaryVersion = typeof summaryVersions.$inferSelect;
+export type InsertSummaryVersion = typeof summaryVersions.$inferInsert;
+export type SummaryVersionSource = typeof summaryVersionSources[number];
+export type SummaryVersionListItem = Omit<SummaryVersion, "content"> & {
+  authorName: string | null;
+};
+export type WorkspaceRole = typeof workspaceRoles[number];
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
+export type InsertWorkspaceInvite = typeof workspaceInvites.$inferInsert;
+export type WorkspaceWithRole = Workspace & {
+  role: WorkspaceRole;
+  memberCount: number;
+};
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  email: string;
+  fullName: string;
+};
+export type WorkspaceInviteDetails = Pick<WorkspaceInvite, "id" | "email" | "role" | "token" | "createdAt" | "expiresAt" | "acceptedAt"> & {
+  workspaceId: string;
+  workspaceName: string;
+  invitedByName: string | null;
+};
+export type SummaryStatus = typeof summaryStatuses[number];
+export type ReviewDecision = typeof reviewDecisions[number];
+export type ReviewAction = typeof reviewActions[number];
+export type ReviewEventAction = typeof reviewEventActions[number];
+export type SummaryReviewer = typeof summaryReviewers.$inferSelect;
+export type SummaryReviewerWithUser = SummaryReviewer & {
+  email: string;
+  fullName: string;
+};
+export type ReviewEvent = typeof reviewEvents.$inferSelect;
+export type InsertReviewEvent = typeof reviewEvents.$inferInsert;
+export type ReviewEventWithNames = ReviewEvent & {
+  actorName: string | null;
+  subjectName: string | null;
+};
+export type SuggestionStatus = typeof suggestionStatuses[number];
+export type SummaryComment = typeof summaryComments.$inferSelect;
+export type InsertSummaryComment = typeof summaryComments.$inferInsert;
+export type SummaryCommentWithAuthor = SummaryComment & {
+  authorName: string | null;
+};
+export type SummaryCommentThread = SummaryCommentWithAuthor & {
+  replies: SummaryCommentWithAuthor[];
+};
+export type JobType = typeof jobTypes[number];
+export type JobStatus = typeof jobStatuses[number];
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = typeof shareLinks.$inferInsert;
+// What the summary's editors see; the password hash never leaves the server
+export type ShareLinkDetails = Omit<ShareLink, "passwordHash"> & {
+  hasPassword: boolean;
+  createdByName: string | null;
+};
+export type InsertActionItem = z.infer<typeof insertActionItemSchema>;
+export type ActionItem = typeof actionItems.$inferSelect;
+export type ActionItemField = typeof actionItemFields[number];
+export type Decision = typeof decisions.$inferSelect;
+export type OpenQuestion = typeof openQuestions.$inferSelect;
+export type Risk = typeof risks.$inferSelect;
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type StoredTranscriptSegment = typeof transcriptSegments.$inferSelect;
+export type TranscriptSpeaker = {
+  name: string;
+  segmentCount: number;
+};
+export type SpeakerStats = {
+  name: string;
+  talkTimeMs: number;
+  talkTimeShare: number;
+  wordCount: number;
+  wordShare: number;
+  turns: number;
+  questions: number;
+  interruptions: number;
+};
+export type SilenceGap = {
+  afterSpeaker: string | null;
+  startMs: number;
+  durationMs: number;
+};
+export type SpeakerAnalytics = {
+  // False when the transcript has no timestamps and talk time is estimated from word counts
+  timed: boolean;
+  durationMs: number;
+  totalWords: number;
+  totalTurns: number;
+  speakers: SpeakerStats[];
+  silenceGaps: SilenceGap[];
+};
+export type ExtractedInsights = z.infer<typeof extractedInsightsSchema>;
+export type SummaryListItem = Omit<Summary, "originalContent" | "summaryContent"> & {
+  excerpt: string;
+  workspaceName: string | null;
+};
+export type PaginatedResult<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+export type SummarySearchResult = Pick<Summary, "id" | "title" | "status" | "createdAt" | "updatedAt"> & {
+  rank: number;
+  titleHighlight: string;
+  summarySnippet: string;
+  transcriptSnippet: string;
+};
+export type ActionItemWithSummary = ActionItem & {
+  summaryTitle: string;
+  summaryCreatedAt: Date | null;
+};
+export type EmbeddingChunk = typeof embeddingChunks.$inferSelect;
+export type InsertEmbeddingChunk = typeof embeddingChunks.$inferInsert;
+export type EmbeddingChunkWithSummary = EmbeddingChunk & {
+  summaryTitle: string;
+  summaryCreatedAt: Date | null;
+};
+export type SemanticSearchResult = {
+  summaryId: string;
+  summaryTitle: string;
+  summaryCreatedAt: Date | null;
+  source: string;
+  content: string;
+  startLine: number | null;
+  endLine: number | null;
+  score: number;
+};
+export type AnswerCitation = SemanticSearchResult & {
+  ref: number; // the [n] marker used in the answer text
+};
+export type MeetingAnswer = {
+  answer: string;
+  citations: AnswerCitation[];
+};
+export type TranscriptExcerpt = {
+  quote: string;
+  line: number; // 1-based line in originalContent
+};
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = typeof chatMessages.$inferInsert;
+export type TranscriptAnswer = z.infer<typeof transcriptAnswerSchema>;
+export type SummaryInsights = {
+  actionItems: ActionItem[];
+  decisions: Decision[];
+  openQuestions: OpenQuestion[];
+  risks: Risk[];
+};
@@ -0,0 +1,30 @@
+// Delimiters wrapped around matched terms in search snippets. Private-use
+// characters, so snippets can be rendered without trusting any HTML in the
+// underlying content.
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_END = "\uE001";
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Split a highlighted snippet into plain and matched parts for rendering
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, "gs");
+  let lastIndex = 0;
+
+  for (const match of Array.from(snippet.matchAll(pattern))) {
+    if (match.index! > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return parts;
+}
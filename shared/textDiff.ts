@@ -0,0 +1,72 @@
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+  oldLine: number | null; // 1-based line in the old text
+  newLine: number | null; // 1-based line in the new text
+}
+
+// Line-based diff using the longest common subsequence. Summaries are a few
+// hundred lines at most, so the quadratic table is cheap; common leading and
+// trailing lines are trimmed first to keep typical edits smaller still.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split(/\r?\n/);
+  const b = newText.split(/\r?\n/);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lcs = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldMiddle[i] === newMiddle[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < prefix; k++) {
+    result.push({ type: "equal", text: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      result.push({ type: "equal", text: oldMiddle[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (i < oldMiddle.length && (j === newMiddle.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: "removed", text: oldMiddle[i], oldLine: prefix + i + 1, newLine: null });
+      i++;
+    } else {
+      result.push({ type: "added", text: newMiddle[j], oldLine: null, newLine: prefix + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    result.push({
+      type: "equal",
+      text: a[a.length - k],
+      oldLine: a.length - k + 1,
+      newLine: b.length - k + 1,
+    });
+  }
+
+  return result;
+}
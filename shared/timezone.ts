@@ -0,0 +1,66 @@
+// Wall-clock times in IANA timezones ("America/New_York"), converted with
+// Intl so no timezone database has to be bundled
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far the timezone's wall clock is ahead of UTC at this instant, in ms
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const value = (type: string) => parseInt(parts.find((part) => part.type === type)!.value, 10);
+  const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time ("2025-01-31T09:00") happens in a timezone.
+// A time skipped by a daylight-saving jump resolves to the hour after it.
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) throw new Error(`Expected a date and time like 2025-01-31T09:00, got "${localDateTime}"`);
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => parseInt(part, 10));
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the guess can differ from the offset at the answer when a
+  // daylight-saving change falls between them, so correct once. If the
+  // corrected time disagrees with its own offset the wall-clock time never
+  // happened; of the two candidates, the later one is past the jump.
+  const guess = asUtc - timeZoneOffset(new Date(asUtc), timeZone);
+  const offset = timeZoneOffset(new Date(guess), timeZone);
+  const corrected = asUtc - offset;
+  return new Date(timeZoneOffset(new Date(corrected), timeZone) === offset ? corrected : Math.max(guess, corrected));
+}
+
+// The wall-clock time an instant reads as in a timezone, in the same
+// "2025-01-31T09:00" form zonedTimeToUtc takes
+export function utcToZonedTime(date: Date | string, timeZone: string): string {
+  const instant = new Date(date);
+  return new Date(instant.getTime() + timeZoneOffset(instant, timeZone)).toISOString().slice(0, 16);
+}
+
+// A date and time as it reads on a clock in the timezone
+export function formatInTimeZone(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleString(undefined, {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
@@ -0,0 +1,27 @@
+import type { TranscriptSegment } from "./schema";
+
+export type { TranscriptSegment };
+
+// "1:02:03" for recordings past an hour, otherwise "02:03"
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+// The transcript line a segment is written as, e.g. "[02:03] Alice: Hello"
+export function formatSegmentLine(segment: Pick<TranscriptSegment, "speaker" | "startMs" | "text">): string {
+  const time = segment.startMs !== null ? `[${formatTimestamp(segment.startMs)}] ` : "";
+  const speaker = segment.speaker ? `${segment.speaker}: ` : "";
+  return `${time}${speaker}${segment.text}`;
+}
+
+// Whether the segments were read from this transcript text: each one's
+// words are on the line it points to
+export function segmentsMatchTranscript(text: string, segments: TranscriptSegment[]): boolean {
+  const lines = text.split(/\r?\n/);
+  return segments.every((segment) => lines[segment.line - 1]?.includes(segment.text));
+}